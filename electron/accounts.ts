@@ -0,0 +1,64 @@
+// Claude accounts watched by the app. Each account logs in through its own session
+// partition, so a personal plan and a company seat can be tracked side by side.
+import Store from 'electron-store';
+import { randomUUID } from 'crypto';
+
+export interface ClaudeAccount {
+  id: string;
+  nickname: string;
+  partition: string;
+}
+
+// The original single-account partition, kept so existing logins carry over
+export const DEFAULT_ACCOUNT_ID = 'default';
+export const DEFAULT_PARTITION = 'persist:claude-session';
+
+interface AccountsStore {
+  accounts: ClaudeAccount[];
+}
+
+const accountsStore = new Store<AccountsStore>({
+  name: 'accounts',
+  defaults: {
+    accounts: [{ id: DEFAULT_ACCOUNT_ID, nickname: 'Claude', partition: DEFAULT_PARTITION }],
+  },
+});
+
+export function getAccounts(): ClaudeAccount[] {
+  const accounts = accountsStore.get('accounts');
+  return accounts.length > 0
+    ? accounts
+    : [{ id: DEFAULT_ACCOUNT_ID, nickname: 'Claude', partition: DEFAULT_PARTITION }];
+}
+
+export function getAccount(id: string): ClaudeAccount | undefined {
+  return getAccounts().find(account => account.id === id);
+}
+
+export function addAccount(nickname: string): ClaudeAccount {
+  const id = randomUUID();
+  const account: ClaudeAccount = {
+    id,
+    nickname: nickname.trim() || `Account ${getAccounts().length + 1}`,
+    partition: `persist:claude-account-${id}`,
+  };
+  accountsStore.set('accounts', [...getAccounts(), account]);
+  return account;
+}
+
+export function renameAccount(id: string, nickname: string): void {
+  const trimmed = nickname.trim();
+  if (!trimmed) return;
+  accountsStore.set('accounts', getAccounts().map(account =>
+    account.id === id ? { ...account, nickname: trimmed } : account
+  ));
+}
+
+// Returns the removed account so the caller can clear its session data
+export function removeAccount(id: string): ClaudeAccount | undefined {
+  const accounts = getAccounts();
+  const removed = accounts.find(account => account.id === id);
+  if (!removed || accounts.length === 1) return undefined;
+  accountsStore.set('accounts', accounts.filter(account => account.id !== id));
+  return removed;
+}
@@ -1,6 +1,94 @@
-const BASE_URL = 'https://api.anthropic.com';
+import type { FetchLike } from './usageApi';
+
+// Overridable so the client can be pointed at a local stand-in server
+const BASE_URL = process.env.ANTHROPIC_ADMIN_API_BASE_URL || 'https://api.anthropic.com';
 const API_VERSION = '2023-06-01';
 
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_RETRIES = 3;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60000;
+
+export interface AdminApiOptions {
+  baseUrl?: string;
+  fetch?: FetchLike;
+  timeoutMs?: number;   // Per attempt
+  retries?: number;     // Extra attempts after the first one
+  baseDelayMs?: number; // Doubled after every failed attempt unless the API sends retry-after
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export type AdminApiErrorKind = 'auth' | 'permission' | 'rate-limited' | 'server' | 'network' | 'request';
+
+// Serializable form of an AdminApiError for the renderer
+export interface AdminApiErrorInfo {
+  kind: AdminApiErrorKind;
+  message: string;
+  status?: number;
+}
+
+export class AdminApiError extends Error {
+  readonly kind: AdminApiErrorKind;
+  readonly status?: number;
+
+  constructor(kind: AdminApiErrorKind, message: string, status?: number) {
+    super(message);
+    this.name = 'AdminApiError';
+    this.kind = kind;
+    this.status = status;
+  }
+
+  toInfo(): AdminApiErrorInfo {
+    return { kind: this.kind, message: this.message, status: this.status };
+  }
+}
+
+// 401 - the key is invalid, revoked or not an admin key
+export class AdminApiAuthError extends AdminApiError {
+  constructor(message: string, status: number = 401) {
+    super('auth', message, status);
+    this.name = 'AdminApiAuthError';
+  }
+}
+
+// 403 - the key works but isn't allowed to read this report
+export class AdminApiPermissionError extends AdminApiError {
+  constructor(message: string, status: number = 403) {
+    super('permission', message, status);
+    this.name = 'AdminApiPermissionError';
+  }
+}
+
+// 429 that outlasted every retry
+export class AdminApiRateLimitError extends AdminApiError {
+  readonly retryAfterMs: number | null;
+
+  constructor(message: string, retryAfterMs: number | null, status: number = 429) {
+    super('rate-limited', message, status);
+    this.name = 'AdminApiRateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// 5xx, including 529 (overloaded)
+export class AdminApiServerError extends AdminApiError {
+  constructor(message: string, status: number) {
+    super('server', message, status);
+    this.name = 'AdminApiServerError';
+  }
+}
+
+// No response at all: DNS, connection or TLS failure, or the request timed out
+export class AdminApiNetworkError extends AdminApiError {
+  readonly timedOut: boolean;
+
+  constructor(message: string, timedOut: boolean = false) {
+    super('network', message);
+    this.name = 'AdminApiNetworkError';
+    this.timedOut = timedOut;
+  }
+}
+
 export interface UsageResult {
   uncached_input_tokens: number;
   cache_read_input_tokens: number;
@@ -12,8 +100,11 @@ export interface UsageResult {
   server_tool_use?: {
     web_search_requests: number;
   };
-  model?: string;
-  workspace_id?: string;
+  model?: string | null;
+  workspace_id?: string | null;
+  api_key_id?: string | null;
+  service_tier?: string | null;
+  context_window?: string | null;
 }
 
 export interface TimeBucket {
@@ -55,22 +146,90 @@ export interface CreditBalance {
   currency: 'USD';
 }
 
+export interface Workspace {
+  id: string;
+  type: 'workspace';
+  name: string;
+  created_at: string;
+  archived_at: string | null;
+  display_color?: string;
+}
+
+export interface ApiKey {
+  id: string;
+  type: 'api_key';
+  name: string;
+  workspace_id: string | null; // Null for keys in the default workspace
+  created_at: string;
+  created_by: { id: string; type: string };
+  partial_key_hint?: string | null;
+  status: 'active' | 'inactive' | 'archived';
+}
+
+// List endpoints page with after_id cursors instead of page tokens
+export interface ListResponse<T> {
+  data: T[];
+  has_more: boolean;
+  first_id: string | null;
+  last_id: string | null;
+}
+
+export interface ListWorkspacesParams {
+  include_archived?: boolean;
+  limit?: number;
+  after_id?: string;
+}
+
+export interface ListApiKeysParams {
+  status?: 'active' | 'inactive' | 'archived';
+  workspace_id?: string;
+  limit?: number;
+  after_id?: string;
+}
+
 export interface ApiData {
   usageReport: UsageReportResponse | null;
   costReport: CostReportResponse | null;
   creditBalance: CreditBalance | null;
 }
 
-interface UsageReportParams {
+export interface TokenTotals {
+  input: number;      // Uncached input
+  output: number;
+  cached: number;     // Cache reads
+  cacheWrite: number; // Cache creation at either TTL
+  total: number;
+  webSearches: number;
+}
+
+// Condensed view of ApiData sent to the renderer
+export interface ApiSpendSummary {
+  periodStart: string;
+  periodEnd: string;
+  totalCost: number;
+  costByModel: Record<string, number>;
+  tokenTotals: TokenTotals;
+  usageByModel: Record<string, TokenTotals>;
+  creditBalance: number | null;
+  lastUpdated: string;
+}
+
+export interface UsageReportParams {
   starting_at: string;
   ending_at?: string;
   bucket_width?: '1d' | '1m' | '1h';
   group_by?: Array<'api_key_id' | 'workspace_id' | 'model' | 'service_tier' | 'context_window'>;
+  // Filters - only results matching one of the listed values are counted
+  models?: string[];
+  workspace_ids?: string[];
+  api_key_ids?: string[];
+  service_tiers?: Array<'standard' | 'batch' | 'priority'>;
+  context_window?: Array<'0-200k' | '200k-1M'>;
   limit?: number;
   page?: string;
 }
 
-interface CostReportParams {
+export interface CostReportParams {
   starting_at: string;
   ending_at?: string;
   bucket_width?: '1d';
@@ -79,8 +238,8 @@ interface CostReportParams {
   page?: string;
 }
 
-function buildUrl(endpoint: string, params: Record<string, unknown>): string {
-  const url = new URL(`${BASE_URL}${endpoint}`);
+function buildUrl(baseUrl: string, endpoint: string, params: Record<string, unknown>): string {
+  const url = new URL(`${baseUrl.replace(/\/$/, '')}${endpoint}`);
 
   Object.entries(params).forEach(([key, value]) => {
     if (value === undefined || value === null) return;
@@ -95,53 +254,313 @@ function buildUrl(endpoint: string, params: Record<string, unknown>): string {
   return url.toString();
 }
 
-async function fetchApi<T>(adminKey: string, endpoint: string, params: Record<string, unknown>): Promise<T> {
-  const url = buildUrl(endpoint, params);
+// retry-after is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
 
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'x-api-key': adminKey,
-      'anthropic-version': API_VERSION,
-      'content-type': 'application/json',
-    },
-  });
+// Error bodies look like {"type":"error","error":{"type":"...","message":"..."}}
+async function readErrorMessage(response: Response): Promise<string> {
+  const text = await response.text().catch(() => '');
+  try {
+    const body = JSON.parse(text);
+    if (body?.error?.message) return body.error.message;
+  } catch {
+    // Not JSON, use the raw text
+  }
+  return text.slice(0, 200) || response.statusText || 'No details';
+}
+
+function errorForResponse(status: number, message: string, retryAfterMs: number | null): AdminApiError {
+  const text = `Admin API ${status}: ${message}`;
+  if (status === 401) return new AdminApiAuthError(text, status);
+  if (status === 403) return new AdminApiPermissionError(text, status);
+  if (status === 429) return new AdminApiRateLimitError(text, retryAfterMs, status);
+  if (status >= 500) return new AdminApiServerError(text, status);
+  return new AdminApiError('request', text, status);
+}
+
+function isRetryable(error: AdminApiError): boolean {
+  return error.kind === 'rate-limited' || error.kind === 'server' || error.kind === 'network';
+}
+
+// The whole body arrived, so a body that isn't JSON won't get better by asking again
+function parseBody<T>(body: string, status: number): T {
+  try {
+    return JSON.parse(body);
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err);
+    throw new AdminApiError('request', `Admin API response could not be parsed: ${reason}`, status);
+  }
+}
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Admin API Error: ${response.status} - ${error}`);
+async function fetchApi<T>(
+  adminKey: string,
+  endpoint: string,
+  params: Record<string, unknown>,
+  options: AdminApiOptions = {}
+): Promise<T> {
+  const url = buildUrl(options.baseUrl || BASE_URL, endpoint, params);
+  const fetchFn: FetchLike = options.fetch || ((input, init) => fetch(input, init));
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const baseDelay = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const sleep = options.sleep || defaultSleep;
+
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    let error: AdminApiError | null = null;
+    let retryAfterMs: number | null = null;
+    let status = 0;
+    let body = '';
+
+    try {
+      const response = await fetchFn(url, {
+        method: 'GET',
+        headers: {
+          'x-api-key': adminKey,
+          'anthropic-version': API_VERSION,
+          'content-type': 'application/json',
+        },
+        signal: controller.signal,
+      });
+
+      status = response.status;
+      if (response.ok) {
+        body = await response.text();
+      } else {
+        retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+        error = errorForResponse(response.status, await readErrorMessage(response), retryAfterMs);
+      }
+    } catch (err) {
+      error = controller.signal.aborted
+        ? new AdminApiNetworkError(`Admin API request timed out after ${timeoutMs / 1000}s`, true)
+        : new AdminApiNetworkError(`Admin API unreachable: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (!error) return parseBody<T>(body, status);
+    if (!isRetryable(error) || attempt >= retries) throw error;
+
+    // A retry-after longer than we're willing to wait means the caller should try later
+    const delay = retryAfterMs ?? baseDelay * 2 ** attempt;
+    if (delay > MAX_RETRY_DELAY_MS) throw error;
+    await sleep(delay);
   }
+}
 
-  return response.json();
+export function toAdminApiErrorInfo(error: unknown): AdminApiErrorInfo {
+  if (error instanceof AdminApiError) return error.toInfo();
+  return { kind: 'request', message: error instanceof Error ? error.message : String(error) };
 }
 
 export async function getUsageReport(
   adminKey: string,
-  params: UsageReportParams
+  params: UsageReportParams,
+  options?: AdminApiOptions
 ): Promise<UsageReportResponse> {
   return fetchApi<UsageReportResponse>(
     adminKey,
     '/v1/organizations/usage_report/messages',
-    params as unknown as Record<string, unknown>
+    params as unknown as Record<string, unknown>,
+    options
   );
 }
 
 export async function getCostReport(
   adminKey: string,
-  params: CostReportParams
+  params: CostReportParams,
+  options?: AdminApiOptions
 ): Promise<CostReportResponse> {
   return fetchApi<CostReportResponse>(
     adminKey,
     '/v1/organizations/cost_report',
-    params as unknown as Record<string, unknown>
+    params as unknown as Record<string, unknown>,
+    options
   );
 }
 
-export async function getCreditBalance(adminKey: string): Promise<CreditBalance> {
+export async function getCreditBalance(adminKey: string, options?: AdminApiOptions): Promise<CreditBalance> {
   return fetchApi<CreditBalance>(
     adminKey,
     '/v1/organizations/credit_balance',
-    {}
+    {},
+    options
+  );
+}
+
+export async function listWorkspaces(
+  adminKey: string,
+  params: ListWorkspacesParams = {},
+  options?: AdminApiOptions
+): Promise<ListResponse<Workspace>> {
+  return fetchApi<ListResponse<Workspace>>(
+    adminKey,
+    '/v1/organizations/workspaces',
+    params as unknown as Record<string, unknown>,
+    options
+  );
+}
+
+export async function listApiKeys(
+  adminKey: string,
+  params: ListApiKeysParams = {},
+  options?: AdminApiOptions
+): Promise<ListResponse<ApiKey>> {
+  return fetchApi<ListResponse<ApiKey>>(
+    adminKey,
+    '/v1/organizations/api_keys',
+    params as unknown as Record<string, unknown>,
+    options
+  );
+}
+
+// Safety net against runaway pagination (e.g. a long 1h or 1m report with many groups)
+export const DEFAULT_MAX_PAGES = 50;
+
+interface PagedResponse<B> {
+  data: B[];
+  has_more: boolean;
+  next_page?: string;
+}
+
+// Yield pages one at a time, following next_page until the API reports no more data
+// or maxPages is reached
+async function* iteratePages<B, R extends PagedResponse<B>>(
+  fetchPage: (page: string | undefined) => Promise<R>,
+  maxPages: number
+): AsyncGenerator<R> {
+  let page: string | undefined;
+  for (let count = 0; count < maxPages; count++) {
+    const response = await fetchPage(page);
+    yield response;
+    if (!response.has_more || !response.next_page) return;
+    page = response.next_page;
+  }
+}
+
+// Collect every page and merge buckets that share a starting_at, since a bucket's
+// results can be split across a page boundary. If maxPages cuts the report short,
+// has_more and next_page are kept so callers can tell the result is truncated.
+async function fetchAllPages<B extends { starting_at: string; results: unknown[] }, R extends PagedResponse<B>>(
+  fetchPage: (page: string | undefined) => Promise<R>,
+  maxPages: number
+): Promise<PagedResponse<B>> {
+  const buckets = new Map<string, B>();
+  let last: R | null = null;
+
+  for await (const response of iteratePages<B, R>(fetchPage, maxPages)) {
+    for (const bucket of response.data) {
+      const existing = buckets.get(bucket.starting_at);
+      if (existing) {
+        existing.results.push(...bucket.results);
+      } else {
+        buckets.set(bucket.starting_at, { ...bucket, results: [...bucket.results] });
+      }
+    }
+    last = response;
+  }
+
+  const data = [...buckets.values()].sort((a, b) => a.starting_at.localeCompare(b.starting_at));
+  return {
+    data,
+    has_more: last?.has_more ?? false,
+    next_page: last?.has_more ? last.next_page : undefined,
+  };
+}
+
+export function iterateUsageReport(
+  adminKey: string,
+  params: UsageReportParams,
+  maxPages: number = DEFAULT_MAX_PAGES,
+  options?: AdminApiOptions
+): AsyncGenerator<UsageReportResponse> {
+  return iteratePages<TimeBucket, UsageReportResponse>(
+    page => getUsageReport(adminKey, { ...params, page }, options),
+    maxPages
+  );
+}
+
+export function iterateCostReport(
+  adminKey: string,
+  params: CostReportParams,
+  maxPages: number = DEFAULT_MAX_PAGES,
+  options?: AdminApiOptions
+): AsyncGenerator<CostReportResponse> {
+  return iteratePages<CostTimeBucket, CostReportResponse>(
+    page => getCostReport(adminKey, { ...params, page }, options),
+    maxPages
+  );
+}
+
+export async function getFullUsageReport(
+  adminKey: string,
+  params: UsageReportParams,
+  maxPages: number = DEFAULT_MAX_PAGES,
+  options?: AdminApiOptions
+): Promise<UsageReportResponse> {
+  return fetchAllPages<TimeBucket, UsageReportResponse>(
+    page => getUsageReport(adminKey, { ...params, page }, options),
+    maxPages
+  );
+}
+
+export async function getFullCostReport(
+  adminKey: string,
+  params: CostReportParams,
+  maxPages: number = DEFAULT_MAX_PAGES,
+  options?: AdminApiOptions
+): Promise<CostReportResponse> {
+  return fetchAllPages<CostTimeBucket, CostReportResponse>(
+    page => getCostReport(adminKey, { ...params, page }, options),
+    maxPages
+  );
+}
+
+// Follow after_id cursors until the list ends or maxPages is reached
+async function listAll<T>(
+  fetchPage: (afterId: string | undefined) => Promise<ListResponse<T>>,
+  maxPages: number
+): Promise<T[]> {
+  const items: T[] = [];
+  let afterId: string | undefined;
+  for (let count = 0; count < maxPages; count++) {
+    const response = await fetchPage(afterId);
+    items.push(...response.data);
+    if (!response.has_more || !response.last_id) break;
+    afterId = response.last_id;
+  }
+  return items;
+}
+
+// Archived workspaces are included so old report rows still resolve to a name
+export async function getAllWorkspaces(
+  adminKey: string,
+  maxPages: number = DEFAULT_MAX_PAGES,
+  options?: AdminApiOptions
+): Promise<Workspace[]> {
+  return listAll(
+    afterId => listWorkspaces(adminKey, { include_archived: true, limit: 100, after_id: afterId }, options),
+    maxPages
+  );
+}
+
+export async function getAllApiKeys(
+  adminKey: string,
+  maxPages: number = DEFAULT_MAX_PAGES,
+  options?: AdminApiOptions
+): Promise<ApiKey[]> {
+  return listAll(
+    afterId => listApiKeys(adminKey, { limit: 100, after_id: afterId }, options),
+    maxPages
   );
 }
 
@@ -170,49 +589,66 @@ export function getCostByModel(costReport: CostReportResponse): Record<string, n
   return byModel;
 }
 
-// Utility function to get token totals from usage report
-export function getTokenTotals(usageReport: UsageReportResponse): {
-  input: number;
-  output: number;
-  cached: number;
-  total: number;
-} {
-  let input = 0;
-  let output = 0;
-  let cached = 0;
+function emptyTokenTotals(): TokenTotals {
+  return { input: 0, output: 0, cached: 0, cacheWrite: 0, total: 0, webSearches: 0 };
+}
 
+function addToTokenTotals(totals: TokenTotals, result: UsageResult): void {
+  totals.input += result.uncached_input_tokens || 0;
+  totals.output += result.output_tokens || 0;
+  totals.cached += result.cache_read_input_tokens || 0;
+  totals.cacheWrite += (result.cache_creation?.ephemeral_5m_input_tokens || 0)
+    + (result.cache_creation?.ephemeral_1h_input_tokens || 0);
+  totals.total = totals.input + totals.output + totals.cached + totals.cacheWrite;
+  totals.webSearches += result.server_tool_use?.web_search_requests || 0;
+}
+
+// Utility function to get token totals from usage report
+export function getTokenTotals(usageReport: UsageReportResponse): TokenTotals {
+  const totals = emptyTokenTotals();
   for (const bucket of usageReport.data) {
     for (const result of bucket.results) {
-      input += result.uncached_input_tokens || 0;
-      output += result.output_tokens || 0;
-      cached += result.cache_read_input_tokens || 0;
+      addToTokenTotals(totals, result);
     }
   }
-
-  return { input, output, cached, total: input + output + cached };
+  return totals;
 }
 
 // Utility function to get usage breakdown by model
-export function getUsageByModel(usageReport: UsageReportResponse): Record<string, {
-  input: number;
-  output: number;
-  cached: number;
-  total: number;
-}> {
-  const byModel: Record<string, { input: number; output: number; cached: number; total: number }> = {};
+export function getUsageByModel(usageReport: UsageReportResponse): Record<string, TokenTotals> {
+  const byModel: Record<string, TokenTotals> = {};
 
   for (const bucket of usageReport.data) {
     for (const result of bucket.results) {
       const model = result.model || 'unknown';
       if (!byModel[model]) {
-        byModel[model] = { input: 0, output: 0, cached: 0, total: 0 };
+        byModel[model] = emptyTokenTotals();
       }
-      byModel[model].input += result.uncached_input_tokens || 0;
-      byModel[model].output += result.output_tokens || 0;
-      byModel[model].cached += result.cache_read_input_tokens || 0;
-      byModel[model].total = byModel[model].input + byModel[model].output + byModel[model].cached;
+      addToTokenTotals(byModel[model], result);
     }
   }
 
   return byModel;
 }
+
+// Build the summary shown in the popup's API Spend section.
+// Cost report amounts are decimal strings in cents, so totals are converted to dollars here.
+export function summarizeApiData(data: ApiData, periodStart: string, periodEnd: string): ApiSpendSummary {
+  const costByModel: Record<string, number> = {};
+  if (data.costReport) {
+    for (const [model, cents] of Object.entries(getCostByModel(data.costReport))) {
+      costByModel[model] = cents / 100;
+    }
+  }
+
+  return {
+    periodStart,
+    periodEnd,
+    totalCost: data.costReport ? calculateTotalCost(data.costReport) / 100 : 0,
+    costByModel,
+    tokenTotals: data.usageReport ? getTokenTotals(data.usageReport) : emptyTokenTotals(),
+    usageByModel: data.usageReport ? getUsageByModel(data.usageReport) : {},
+    creditBalance: data.creditBalance ? parseFloat(data.creditBalance.available_credit) || 0 : null,
+    lastUpdated: new Date().toISOString(),
+  };
+}
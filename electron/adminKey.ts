@@ -0,0 +1,100 @@
+// Admin API key storage. The key is encrypted with the OS keychain via safeStorage and only
+// ever leaves this module as the key itself (for API calls) or a masked hint.
+import { safeStorage } from 'electron';
+import Store from 'electron-store';
+import { getCreditBalance, AdminApiError } from './adminApi';
+
+export type AdminKeySource = 'settings' | 'env';
+
+export interface AdminKeyStatus {
+  configured: boolean;
+  hint: string | null;
+  source: AdminKeySource | null;
+  encryptionAvailable: boolean;
+}
+
+export interface AdminKeyResult {
+  success: boolean;
+  error?: string;
+}
+
+interface AdminKeyStore {
+  encryptedKey: string | null; // base64 of the safeStorage ciphertext
+}
+
+const KEY_PREFIX = 'sk-ant-admin';
+
+const keyStore = new Store<AdminKeyStore>({
+  name: 'admin-key',
+  defaults: {
+    encryptedKey: null,
+  },
+});
+
+function readStoredKey(): string | null {
+  const encrypted = keyStore.get('encryptedKey');
+  if (!encrypted || !safeStorage.isEncryptionAvailable()) return null;
+  try {
+    return safeStorage.decryptString(Buffer.from(encrypted, 'base64'));
+  } catch {
+    console.error('Stored admin key could not be decrypted');
+    return null;
+  }
+}
+
+// A key saved in Settings wins over ANTHROPIC_ADMIN_KEY from .env.local
+export function getAdminKey(): string | null {
+  const stored = readStoredKey();
+  if (stored) return stored;
+
+  const envKey = process.env.ANTHROPIC_ADMIN_KEY;
+  return envKey && envKey.startsWith(KEY_PREFIX) ? envKey : null;
+}
+
+// Enough to recognise which key is configured without revealing it
+export function maskAdminKey(key: string): string {
+  return `${KEY_PREFIX}-…${key.slice(-4)}`;
+}
+
+export function getAdminKeyStatus(): AdminKeyStatus {
+  const stored = readStoredKey();
+  const key = getAdminKey();
+  return {
+    configured: !!key,
+    hint: key ? maskAdminKey(key) : null,
+    source: stored ? 'settings' : key ? 'env' : null,
+    encryptionAvailable: safeStorage.isEncryptionAvailable(),
+  };
+}
+
+// Check the key with a cheap API call before storing it
+export async function saveAdminKey(input: string): Promise<AdminKeyResult> {
+  const key = input.trim();
+  if (!key.startsWith(KEY_PREFIX)) {
+    return { success: false, error: `Admin keys start with ${KEY_PREFIX}` };
+  }
+  if (!safeStorage.isEncryptionAvailable()) {
+    return { success: false, error: 'Secure storage is not available on this system' };
+  }
+
+  // Settings waits on this call, so fail fast instead of retrying for minutes
+  try {
+    await getCreditBalance(key, { retries: 0, timeoutMs: 10000 });
+  } catch (error) {
+    if (error instanceof AdminApiError && error.kind === 'auth') {
+      return { success: false, error: 'The Admin API rejected this key' };
+    }
+    if (error instanceof AdminApiError && error.kind === 'permission') {
+      return { success: false, error: 'This key is not allowed to read organization usage' };
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return { success: false, error: message.split(key).join(maskAdminKey(key)) };
+  }
+
+  keyStore.set('encryptedKey', safeStorage.encryptString(key).toString('base64'));
+  return { success: true };
+}
+
+export function deleteAdminKey(): void {
+  keyStore.set('encryptedKey', null);
+}
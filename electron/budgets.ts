@@ -0,0 +1,199 @@
+// Monthly API budgets and the credit balance floor. The report is computed from the
+// month-to-date cost report; alert state is persisted so each budget alerts once per month.
+import Store from 'electron-store';
+import type { CostReportResponse, CostResult } from './adminApi';
+
+export type BudgetScope = 'total' | 'workspace' | 'model';
+
+export interface Budget {
+  id: string;
+  scope: BudgetScope;
+  target: string;       // Workspace id or model name; unused for 'total'
+  monthlyLimit: number; // USD
+}
+
+// ok < warning (80% spent) < projected-over (on pace to exceed) < over (already exceeded)
+export type BudgetState = 'ok' | 'warning' | 'projected-over' | 'over';
+
+export interface BudgetStatus {
+  budget: Budget;
+  spent: number;     // USD, month to date
+  projected: number | null; // USD, expected by the end of the month at the current pace; null too early in the month
+  state: BudgetState;
+}
+
+export interface BudgetReport {
+  month: string;             // YYYY-MM, UTC like the cost report
+  spent: number | null;      // Null without an Admin API key
+  projected: number | null;  // Null without an Admin API key or too early in the month
+  budgets: BudgetStatus[];
+  creditBalance: number | null;
+  lowBalanceThreshold: number; // 0 = no floor
+  lowBalance: boolean;
+  lastUpdated: string;
+}
+
+export interface BudgetAlert {
+  kind: 'budget' | 'balance';
+  title: string;
+  message: string;
+  label: string;
+  percentage: number; // Share of the budget spent, or of the floor left for balance alerts
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const WARNING_RATIO = 0.8;
+// Finished days needed before projecting, so a few early requests don't look like a month's pace
+const MIN_FORECAST_DAYS = 2;
+const STATE_ORDER: BudgetState[] = ['ok', 'warning', 'projected-over', 'over'];
+
+export function getMonthRange(now: Date = new Date()): { start: Date; end: Date; month: string } {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+  return { start, end, month: start.toISOString().slice(0, 7) };
+}
+
+// Workspace budgets match the workspace id exactly ('default' for the default workspace).
+// Model budgets match by prefix, so "claude-sonnet-4" covers every dated snapshot.
+function matchesBudget(result: CostResult, budget: Budget): boolean {
+  switch (budget.scope) {
+    case 'workspace':
+      return (result.workspace_id || 'default') === budget.target.trim();
+    case 'model':
+      return !!budget.target.trim()
+        && (result.model || '').toLowerCase().startsWith(budget.target.trim().toLowerCase());
+    default:
+      return true;
+  }
+}
+
+// USD per UTC day for the cost items a budget covers
+export function getDailySpend(costReport: CostReportResponse, budget?: Budget): Record<string, number> {
+  const daily: Record<string, number> = {};
+  for (const bucket of costReport.data) {
+    const date = bucket.starting_at.split('T')[0];
+    for (const result of bucket.results) {
+      if (budget && !matchesBudget(result, budget)) continue;
+      // Cost report amounts are in cents
+      daily[date] = (daily[date] || 0) + (parseFloat(result.amount) || 0) / 100;
+    }
+  }
+  return daily;
+}
+
+// Month-end spend at the average daily rate of the days already finished. Until
+// MIN_FORECAST_DAYS have finished there is no projection.
+export function projectMonthEnd(daily: Record<string, number>, now: Date = new Date()): { spent: number; projected: number | null } {
+  const { start, end } = getMonthRange(now);
+  const today = now.toISOString().split('T')[0];
+  const spent = Object.values(daily).reduce((sum, amount) => sum + amount, 0);
+  const completedDays = Math.floor((now.getTime() - start.getTime()) / DAY);
+  if (completedDays < MIN_FORECAST_DAYS) return { spent, projected: null };
+
+  const rate = (spent - (daily[today] || 0)) / completedDays;
+  const remainingDays = (end.getTime() - now.getTime()) / DAY;
+
+  return { spent, projected: spent + rate * remainingDays };
+}
+
+export function getBudgetState(spent: number, projected: number | null, limit: number): BudgetState {
+  if (limit <= 0) return 'ok';
+  if (spent >= limit) return 'over';
+  if (projected !== null && projected > limit) return 'projected-over';
+  if (spent >= limit * WARNING_RATIO) return 'warning';
+  return 'ok';
+}
+
+export function buildBudgetReport(
+  costReport: CostReportResponse | null,
+  budgets: Budget[],
+  creditBalance: number | null,
+  lowBalanceThreshold: number,
+  now: Date = new Date()
+): BudgetReport {
+  const total = costReport ? projectMonthEnd(getDailySpend(costReport), now) : null;
+  const statuses = costReport
+    ? budgets.filter(budget => budget.monthlyLimit > 0).map(budget => {
+      const { spent, projected } = projectMonthEnd(getDailySpend(costReport, budget), now);
+      return { budget, spent, projected, state: getBudgetState(spent, projected, budget.monthlyLimit) };
+    })
+    : [];
+
+  return {
+    month: getMonthRange(now).month,
+    spent: total?.spent ?? null,
+    projected: total?.projected ?? null,
+    budgets: statuses,
+    creditBalance,
+    lowBalanceThreshold,
+    lowBalance: lowBalanceThreshold > 0 && creditBalance !== null && creditBalance < lowBalanceThreshold,
+    lastUpdated: now.toISOString(),
+  };
+}
+
+export function describeBudget(budget: Budget): string {
+  switch (budget.scope) {
+    case 'workspace':
+      return `Workspace ${budget.target}`;
+    case 'model':
+      return `Model ${budget.target}`;
+    default:
+      return 'Total API spend';
+  }
+}
+
+interface BudgetAlertStore {
+  budgets: Record<string, string>; // Budget id -> `${month}:${state}` last alerted
+  lowBalanceAlerted: boolean;
+}
+
+const budgetAlertStore = new Store<BudgetAlertStore>({
+  name: 'budget-alerts',
+  defaults: {
+    budgets: {},
+    lowBalanceAlerted: false,
+  },
+});
+
+// Alerts for budgets that newly reached projected-over or over this month, and for the
+// balance falling below the floor. The floor re-arms once the balance is topped up.
+export function collectBudgetAlerts(report: BudgetReport): BudgetAlert[] {
+  const alerts: BudgetAlert[] = [];
+  const alerted = { ...budgetAlertStore.get('budgets') };
+
+  for (const status of report.budgets) {
+    if (status.state !== 'projected-over' && status.state !== 'over') continue;
+    const [month, previousState] = (alerted[status.budget.id] || '').split(':');
+    const previous = month === report.month ? STATE_ORDER.indexOf(previousState as BudgetState) : -1;
+    if (STATE_ORDER.indexOf(status.state) <= previous) continue;
+
+    alerted[status.budget.id] = `${report.month}:${status.state}`;
+    const label = describeBudget(status.budget);
+    const limit = status.budget.monthlyLimit;
+    alerts.push({
+      kind: 'budget',
+      title: status.state === 'over' ? 'API Budget Exceeded' : 'API Budget Forecast',
+      message: status.state === 'over'
+        ? `${label}: $${status.spent.toFixed(2)} spent of the $${limit.toFixed(2)} monthly budget`
+        : `${label}: on pace for $${status.projected?.toFixed(2)} this month (budget $${limit.toFixed(2)})`,
+      label,
+      percentage: Math.round(status.spent / limit * 100),
+    });
+  }
+  budgetAlertStore.set('budgets', alerted);
+
+  if (report.lowBalance && !budgetAlertStore.get('lowBalanceAlerted')) {
+    budgetAlertStore.set('lowBalanceAlerted', true);
+    alerts.push({
+      kind: 'balance',
+      title: 'Low API Credit Balance',
+      message: `Credit balance is $${report.creditBalance?.toFixed(2)}, below your $${report.lowBalanceThreshold.toFixed(2)} floor`,
+      label: 'Credit balance',
+      percentage: Math.round((report.creditBalance ?? 0) / report.lowBalanceThreshold * 100),
+    });
+  } else if (!report.lowBalance && report.creditBalance !== null) {
+    budgetAlertStore.set('lowBalanceAlerted', false);
+  }
+
+  return alerts;
+}
@@ -0,0 +1,208 @@
+#!/usr/bin/env node
+// claude-usage - command-line client for the running tray app. It has no data of its own;
+// every command is answered by the app over the control socket (see controlSocket.ts).
+import { sendControlRequest, ControlRequest } from './controlSocket';
+import type { ClaudeMaxUsage, BillingInfo, UsageBar } from './scraper';
+import type { ApiSpendSummary } from './adminApi';
+
+// Shape of the app's answer to 'status' and 'refresh'
+interface StatusResult {
+  lastRefresh: string | null;
+  accounts: Array<{ accountId: string; nickname: string; usage: ClaudeMaxUsage | null }>;
+  billingInfo: BillingInfo | null;
+  apiSpend: ApiSpendSummary | null;
+}
+
+interface CliOptions {
+  json: boolean;
+  account?: string;
+  interval: number; // Seconds between polls in watch mode
+}
+
+const USAGE = `Usage: claude-usage <command> [options]
+
+Commands:
+  status            Show current usage bars, reset times, credit balance and API spend
+  refresh           Refresh now and show the new numbers
+  login             Open the Claude login window in the app
+  watch             Keep showing status, updated every --interval seconds
+
+Options:
+  --json            Print machine-readable JSON (one object per update in watch mode)
+  --account <name>  Account nickname or id (login, and to filter status)
+  --interval <sec>  Seconds between updates in watch mode (default 30)
+  -h, --help        Show this help
+
+The Claude Usage Tool app must be running.`;
+
+const REFRESH_TIMEOUT_MS = 2 * 60 * 1000;
+const LOGIN_TIMEOUT_MS = 10 * 60 * 1000;
+
+class UsageError extends Error {}
+
+function parseArgs(argv: string[]): { command: string; options: CliOptions } {
+  const options: CliOptions = { json: false, interval: 30 };
+  let command = '';
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--json') {
+      options.json = true;
+    } else if (arg === '--account') {
+      options.account = argv[++i];
+      if (!options.account) throw new UsageError('--account needs a value');
+    } else if (arg === '--interval') {
+      options.interval = Number(argv[++i]);
+      if (!Number.isFinite(options.interval) || options.interval < 1) {
+        throw new UsageError('--interval must be a number of seconds');
+      }
+    } else if (arg === '-h' || arg === '--help') {
+      command = 'help';
+    } else if (arg.startsWith('-')) {
+      throw new UsageError(`Unknown option: ${arg}`);
+    } else if (!command) {
+      command = arg;
+    } else {
+      throw new UsageError(`Unexpected argument: ${arg}`);
+    }
+  }
+
+  return { command: command || 'status', options };
+}
+
+async function request<T>(req: ControlRequest, timeoutMs?: number): Promise<T> {
+  const response = await sendControlRequest(req, timeoutMs);
+  if (!response.ok) {
+    throw new Error(response.error || 'Request failed');
+  }
+  return response.result as T;
+}
+
+function filterAccounts(status: StatusResult, account?: string): StatusResult {
+  if (!account) return status;
+  const needle = account.toLowerCase();
+  const accounts = status.accounts.filter(a => a.accountId === account || a.nickname.toLowerCase() === needle);
+  if (accounts.length === 0) {
+    throw new Error(`No account named "${account}"`);
+  }
+  return { ...status, accounts };
+}
+
+function usageBars(usage: ClaudeMaxUsage): UsageBar[] {
+  return usage.bars && usage.bars.length > 0
+    ? usage.bars
+    : [usage.standard, usage.advanced].filter(b => b.percentage > 0 || b.limit > 0);
+}
+
+function formatTime(iso: string): string {
+  const date = new Date(iso);
+  const time = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return date.toDateString() === new Date().toDateString()
+    ? time
+    : `${date.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })} ${time}`;
+}
+
+function meter(percentage: number): string {
+  const filled = Math.round(Math.min(Math.max(percentage, 0), 100) / 5);
+  return `[${'#'.repeat(filled)}${'-'.repeat(20 - filled)}]`;
+}
+
+function formatStatus(status: StatusResult): string {
+  const lines: string[] = [];
+  lines.push(status.lastRefresh ? `Claude Usage (refreshed ${formatTime(status.lastRefresh)})` : 'Claude Usage (not refreshed yet)');
+
+  for (const account of status.accounts) {
+    lines.push('');
+    if (status.accounts.length > 1 || account.usage?.plan) {
+      lines.push([account.nickname, account.usage?.plan].filter(Boolean).join(' - '));
+    }
+    if (!account.usage?.isAuthenticated) {
+      lines.push('  Not logged in (run: claude-usage login)');
+      continue;
+    }
+    usageBars(account.usage).forEach((bar, index) => {
+      const label = (bar.label || `Usage ${index + 1}`).padEnd(24);
+      const percent = `${Math.round(bar.percentage)}%`.padStart(4);
+      const reset = bar.resetsAt ? `  resets ${formatTime(bar.resetsAt)}` : '';
+      lines.push(`  ${label} ${percent} ${meter(bar.percentage)}${reset}`);
+    });
+  }
+
+  lines.push('');
+  if (status.billingInfo?.creditBalance !== null && status.billingInfo?.creditBalance !== undefined) {
+    lines.push(`Credit balance:      $${status.billingInfo.creditBalance.toFixed(2)}`);
+  } else {
+    lines.push('Credit balance:      not available');
+  }
+  if (status.apiSpend) {
+    lines.push(`API spend (30 days): $${status.apiSpend.totalCost.toFixed(2)}`);
+  }
+
+  return lines.join('\n');
+}
+
+function printStatus(status: StatusResult, options: CliOptions) {
+  console.log(options.json ? JSON.stringify(status, null, 2) : formatStatus(status));
+}
+
+async function watch(options: CliOptions) {
+  for (;;) {
+    const status = filterAccounts(await request<StatusResult>({ command: 'status' }), options.account);
+    if (options.json) {
+      // One object per line so the output can be piped into jq
+      console.log(JSON.stringify(status));
+    } else {
+      process.stdout.write('\x1b[2J\x1b[H');
+      console.log(formatStatus(status));
+      console.log(`\nUpdating every ${options.interval}s - Ctrl+C to stop`);
+    }
+    await new Promise(resolve => setTimeout(resolve, options.interval * 1000));
+  }
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { command, options } = parseArgs(argv);
+
+  switch (command) {
+    case 'help':
+      console.log(USAGE);
+      return 0;
+    case 'status':
+      printStatus(filterAccounts(await request<StatusResult>({ command: 'status' }), options.account), options);
+      return 0;
+    case 'refresh':
+      printStatus(filterAccounts(await request<StatusResult>({ command: 'refresh' }, REFRESH_TIMEOUT_MS), options.account), options);
+      return 0;
+    case 'login': {
+      if (!options.json) console.log('Complete the login in the app window...');
+      const success = await request<boolean>({ command: 'login', account: options.account }, LOGIN_TIMEOUT_MS);
+      if (options.json) {
+        console.log(JSON.stringify({ success }));
+      } else {
+        console.log(success ? 'Logged in.' : 'Login window closed without logging in.');
+      }
+      return success ? 0 : 1;
+    }
+    case 'watch':
+      await watch(options);
+      return 0;
+    default:
+      throw new UsageError(`Unknown command: ${command}`);
+  }
+}
+
+main(process.argv.slice(2)).then(
+  code => process.exit(code),
+  (error: NodeJS.ErrnoException) => {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n\n${USAGE}`);
+      process.exit(2);
+    }
+    if (error.code === 'APP_NOT_RUNNING') {
+      console.error('Claude Usage Tool is not running. Start the app and try again.');
+      process.exit(3);
+    }
+    console.error(`Error: ${error.message}`);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,165 @@
+// Local control channel between the running app and the command-line client. Unix domain
+// socket on macOS/Linux, named pipe on Windows; one JSON message per line.
+// No Electron imports here - cli.ts runs under plain Node.
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs';
+
+export type ControlCommand = 'status' | 'refresh' | 'login';
+
+export interface ControlRequest {
+  command: ControlCommand;
+  account?: string; // Account id or nickname, defaults to the first account
+}
+
+export interface ControlResponse {
+  ok: boolean;
+  result?: unknown;
+  error?: string;
+}
+
+export type ControlHandler = (request: ControlRequest) => Promise<unknown>;
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+let server: net.Server | null = null;
+
+// Scoped to the OS user so two people on one machine don't see each other's app.
+// CLAUDE_USAGE_SOCKET overrides it, e.g. when running a second dev copy.
+export function getSocketPath(): string {
+  if (process.env.CLAUDE_USAGE_SOCKET) {
+    return process.env.CLAUDE_USAGE_SOCKET;
+  }
+  const user = os.userInfo().username.replace(/[^\w.-]/g, '_');
+  return process.platform === 'win32'
+    ? `\\\\.\\pipe\\claude-usage-tool-${user}`
+    : path.join(os.tmpdir(), `claude-usage-tool-${user}.sock`);
+}
+
+function canConnect(socketPath: string): Promise<boolean> {
+  return new Promise(resolve => {
+    const socket = net.connect(socketPath);
+    socket.once('connect', () => {
+      socket.destroy();
+      resolve(true);
+    });
+    socket.once('error', () => resolve(false));
+  });
+}
+
+function handleConnection(handler: ControlHandler, socket: net.Socket) {
+  let buffer = '';
+  socket.setEncoding('utf8');
+  socket.on('data', chunk => {
+    buffer += chunk;
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (!line) continue;
+
+      let request: ControlRequest;
+      try {
+        request = JSON.parse(line);
+      } catch {
+        socket.write(JSON.stringify({ ok: false, error: 'Invalid JSON request' }) + '\n');
+        continue;
+      }
+
+      handler(request)
+        .then(result => ({ ok: true, result }))
+        .catch(error => ({ ok: false, error: error instanceof Error ? error.message : String(error) }))
+        .then((response: ControlResponse) => {
+          if (!socket.destroyed) socket.write(JSON.stringify(response) + '\n');
+        });
+    }
+  });
+  socket.on('error', () => socket.destroy());
+}
+
+export async function startControlServer(handler: ControlHandler): Promise<string> {
+  await stopControlServer();
+  const socketPath = getSocketPath();
+
+  if (process.platform !== 'win32' && fs.existsSync(socketPath)) {
+    // A socket file nobody answers on is left over from a crash
+    if (await canConnect(socketPath)) {
+      throw new Error(`Another instance is already listening on ${socketPath}`);
+    }
+    fs.unlinkSync(socketPath);
+  }
+
+  return new Promise((resolve, reject) => {
+    const newServer = net.createServer(socket => handleConnection(handler, socket));
+    newServer.once('error', reject);
+    newServer.listen(socketPath, () => {
+      newServer.off('error', reject);
+      if (process.platform !== 'win32') {
+        fs.chmodSync(socketPath, 0o600);
+      }
+      server = newServer;
+      resolve(socketPath);
+    });
+  });
+}
+
+export function stopControlServer(): Promise<void> {
+  return new Promise(resolve => {
+    if (!server) {
+      resolve();
+      return;
+    }
+    const closing = server;
+    server = null;
+    closing.close(() => resolve());
+  });
+}
+
+// Client side: send one request and wait for its answer. Rejects with code
+// 'APP_NOT_RUNNING' when nothing is listening on the socket.
+export function sendControlRequest(request: ControlRequest, timeoutMs: number = DEFAULT_TIMEOUT_MS): Promise<ControlResponse> {
+  const socketPath = getSocketPath();
+
+  return new Promise((resolve, reject) => {
+    const socket = net.connect(socketPath);
+    let buffer = '';
+    let settled = false;
+
+    const finish = (error: Error | null, response?: ControlResponse) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      socket.destroy();
+      if (error) reject(error);
+      else resolve(response as ControlResponse);
+    };
+
+    const timer = setTimeout(() => {
+      finish(new Error(`No answer from Claude Usage Tool after ${Math.round(timeoutMs / 1000)}s`));
+    }, timeoutMs);
+
+    socket.setEncoding('utf8');
+    socket.once('connect', () => socket.write(JSON.stringify(request) + '\n'));
+    socket.on('data', chunk => {
+      buffer += chunk;
+      const newline = buffer.indexOf('\n');
+      if (newline < 0) return;
+      try {
+        finish(null, JSON.parse(buffer.slice(0, newline)));
+      } catch {
+        finish(new Error('Invalid response from Claude Usage Tool'));
+      }
+    });
+    socket.on('error', (error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT' || error.code === 'ECONNREFUSED') {
+        const notRunning: NodeJS.ErrnoException = new Error('Claude Usage Tool is not running');
+        notRunning.code = 'APP_NOT_RUNNING';
+        finish(notRunning);
+      } else {
+        finish(error);
+      }
+    });
+    socket.on('close', () => finish(new Error('Claude Usage Tool closed the connection')));
+  });
+}
@@ -0,0 +1,63 @@
+// Keeps a short trail of how each usage result was produced, so a bug report can include
+// what the scraper actually saw when the page layout changes
+import type { UsageStrategy, UsageConfidence } from './scraper';
+
+export interface DiagnosticsRecord {
+  timestamp: string;
+  url: string;
+  strategy: UsageStrategy;
+  confidence: UsageConfidence;
+  bars: Array<{ label?: string; percentage: number; context?: string }>;
+  parseWarnings: string[];
+  rawText?: string;
+}
+
+export interface DiagnosticsBundle {
+  generatedAt: string;
+  appVersion: string;
+  platform: string;
+  settings: Record<string, unknown>;
+  logs: Array<{ timestamp: string; message: string }>;
+  records: DiagnosticsRecord[];
+}
+
+const MAX_RECORDS = 10;
+const records: DiagnosticsRecord[] = [];
+
+// Strip anything that identifies the user before the text leaves the machine
+export function anonymizeText(text: string): string {
+  return text
+    .replace(/[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g, '<email>')
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '<uuid>')
+    .replace(/sk-ant-[\w-]+/g, '<key>');
+}
+
+export function recordDiagnostics(record: DiagnosticsRecord): void {
+  records.push({
+    ...record,
+    url: anonymizeText(record.url),
+    rawText: record.rawText !== undefined ? anonymizeText(record.rawText) : undefined,
+  });
+  if (records.length > MAX_RECORDS) {
+    records.shift();
+  }
+}
+
+export function getDiagnosticsRecords(): DiagnosticsRecord[] {
+  return [...records];
+}
+
+export function buildDiagnosticsBundle(info: {
+  appVersion: string;
+  settings: Record<string, unknown>;
+  logs: Array<{ timestamp: string; message: string }>;
+}): DiagnosticsBundle {
+  return {
+    generatedAt: new Date().toISOString(),
+    appVersion: info.appVersion,
+    platform: `${process.platform} ${process.arch}`,
+    settings: info.settings,
+    logs: info.logs.map(log => ({ ...log, message: anonymizeText(log.message) })),
+    records: getDiagnosticsRecords(),
+  };
+}
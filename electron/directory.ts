@@ -0,0 +1,220 @@
+// Workspace and API key names for the organization. Reports only carry ids, so the lists
+// are fetched from the Admin API, cached on disk and used to label report rows and exports.
+import Store from 'electron-store';
+import { getAllWorkspaces, getAllApiKeys, toAdminApiErrorInfo, AdminApiOptions, AdminApiErrorInfo } from './adminApi';
+
+export interface WorkspaceInfo {
+  id: string;
+  name: string;
+  archived: boolean;
+}
+
+export interface ApiKeyInfo {
+  id: string;
+  name: string;
+  workspaceId: string | null;
+  status: 'active' | 'inactive' | 'archived';
+  createdBy: string; // Id of the user or service that created the key
+  hint: string | null; // Partial key, e.g. "sk-ant-api03-R2D...igAA"
+}
+
+// Each list loads and goes stale on its own, so one failing endpoint doesn't hide the other's names
+export type DirectoryList = 'workspaces' | 'apiKeys';
+
+export interface Directory {
+  workspaces: Record<string, WorkspaceInfo>;
+  apiKeys: Record<string, ApiKeyInfo>;
+  fetchedAt: Record<DirectoryList, string | null>; // Last complete load of each list, null until it first loads
+}
+
+export interface DirectoryStatus {
+  workspaces: number;
+  apiKeys: number;
+  fetchedAt: string | null; // The older of the lists that have loaded
+  error: AdminApiErrorInfo | null;
+}
+
+// 'deleted' is an id the lists no longer return; names for it can't be recovered
+export type NameState = 'active' | 'inactive' | 'archived' | 'deleted';
+
+export interface ResolvedName {
+  name: string;
+  state: NameState;
+}
+
+// Report value (workspace or API key id) -> display name
+export type NameMap = Record<string, ResolvedName>;
+
+export type NamedDimension = 'workspace_id' | 'api_key_id';
+
+// Workspaces and keys rarely change, and a stale name is still better than an id
+const MAX_AGE_MS = 24 * 60 * 60 * 1000;
+// A list that failed to load isn't asked for again until this has passed, so a key without
+// permission for one endpoint doesn't refetch it on every report
+const FAILURE_BACKOFF_MS = 15 * 60 * 1000;
+
+const LISTS: DirectoryList[] = ['workspaces', 'apiKeys'];
+
+interface DirectoryStore extends Directory {
+  failedAt: Record<DirectoryList, string | null>; // Last failed load of each list, cleared by a successful one
+}
+
+const directoryStore = new Store<DirectoryStore>({
+  name: 'directory',
+  defaults: {
+    workspaces: {},
+    apiKeys: {},
+    fetchedAt: { workspaces: null, apiKeys: null },
+    failedAt: { workspaces: null, apiKeys: null },
+  },
+});
+
+let lastError: AdminApiErrorInfo | null = null;
+let refreshing: Promise<Directory> | null = null;
+
+// Caches written before the lists were tracked separately hold one time for both
+function getFetchedAt(): Directory['fetchedAt'] {
+  const fetchedAt: Directory['fetchedAt'] | string | null = directoryStore.get('fetchedAt');
+  if (fetchedAt && typeof fetchedAt === 'object') return fetchedAt;
+  return { workspaces: fetchedAt, apiKeys: fetchedAt };
+}
+
+export function getDirectory(): Directory {
+  return {
+    workspaces: directoryStore.get('workspaces'),
+    apiKeys: directoryStore.get('apiKeys'),
+    fetchedAt: getFetchedAt(),
+  };
+}
+
+export function getDirectoryStatus(): DirectoryStatus {
+  const directory = getDirectory();
+  const loaded = LISTS.map(list => directory.fetchedAt[list]).filter((time): time is string => !!time).sort();
+  return {
+    workspaces: Object.keys(directory.workspaces).length,
+    apiKeys: Object.keys(directory.apiKeys).length,
+    fetchedAt: loaded[0] ?? null,
+    error: lastError,
+  };
+}
+
+// The cache belongs to the organization of the current Admin API key
+export function clearDirectory(): void {
+  directoryStore.set('workspaces', {});
+  directoryStore.set('apiKeys', {});
+  directoryStore.set('fetchedAt', { workspaces: null, apiKeys: null });
+  directoryStore.set('failedAt', { workspaces: null, apiKeys: null });
+  lastError = null;
+}
+
+async function fetchList(list: DirectoryList, adminKey: string, options?: AdminApiOptions): Promise<void> {
+  if (list === 'workspaces') {
+    const workspaces = await getAllWorkspaces(adminKey, undefined, options);
+    directoryStore.set('workspaces', Object.fromEntries(workspaces.map(workspace => [workspace.id, {
+      id: workspace.id,
+      name: workspace.name,
+      archived: !!workspace.archived_at,
+    }])));
+  } else {
+    const apiKeys = await getAllApiKeys(adminKey, undefined, options);
+    directoryStore.set('apiKeys', Object.fromEntries(apiKeys.map(key => [key.id, {
+      id: key.id,
+      name: key.name,
+      workspaceId: key.workspace_id,
+      status: key.status,
+      createdBy: key.created_by?.id || '',
+      hint: key.partial_key_hint || null,
+    }])));
+  }
+}
+
+// Fetch the given lists. A list that fails keeps its cached names and fetchedAt, so
+// deleted markers are never based on a partial list, and records when it failed.
+async function fetchDirectory(lists: DirectoryList[], adminKey: string, options?: AdminApiOptions): Promise<Directory> {
+  const results = await Promise.allSettled(lists.map(list => fetchList(list, adminKey, options)));
+
+  const now = new Date().toISOString();
+  const fetchedAt = { ...getFetchedAt() };
+  const failedAt = { ...directoryStore.get('failedAt') };
+  lastError = null;
+  results.forEach((result, index) => {
+    const list = lists[index];
+    if (result.status === 'fulfilled') {
+      fetchedAt[list] = now;
+      failedAt[list] = null;
+    } else {
+      failedAt[list] = now;
+      lastError = lastError ?? toAdminApiErrorInfo(result.reason);
+    }
+  });
+  directoryStore.set('fetchedAt', fetchedAt);
+  directoryStore.set('failedAt', failedAt);
+  return getDirectory();
+}
+
+// Concurrent callers share one refresh
+function startRefresh(lists: DirectoryList[], adminKey: string, options?: AdminApiOptions): Promise<Directory> {
+  if (!refreshing) {
+    refreshing = fetchDirectory(lists, adminKey, options).finally(() => {
+      refreshing = null;
+    });
+  }
+  return refreshing;
+}
+
+// Fetch both lists now, whatever their age
+export function refreshDirectory(adminKey: string, options?: AdminApiOptions): Promise<Directory> {
+  return startRefresh(LISTS, adminKey, options);
+}
+
+// A list is refetched when it is missing or older than a day, unless it failed recently
+function isDue(list: DirectoryList, now: number): boolean {
+  const fetchedAt = getFetchedAt()[list];
+  if (fetchedAt && now - Date.parse(fetchedAt) < MAX_AGE_MS) return false;
+  const failedAt = directoryStore.get('failedAt')[list];
+  return !failedAt || now - Date.parse(failedAt) >= FAILURE_BACKOFF_MS;
+}
+
+// The cached directory, with the lists that are due refreshed first
+export async function ensureDirectory(adminKey: string, options?: AdminApiOptions): Promise<Directory> {
+  const now = Date.now();
+  const due = LISTS.filter(list => isDue(list, now));
+  if (due.length === 0) return getDirectory();
+  return startRefresh(due, adminKey, options);
+}
+
+export function resolveName(directory: Directory, dimension: NamedDimension, id: string): ResolvedName | null {
+  if (dimension === 'workspace_id') {
+    // Reports use null (shown as 'default') for the default workspace, which isn't listed
+    if (id === 'default') return { name: 'Default', state: 'active' };
+    const workspace = directory.workspaces[id];
+    if (workspace) return { name: workspace.name, state: workspace.archived ? 'archived' : 'active' };
+  } else {
+    const key = directory.apiKeys[id];
+    if (key) return { name: key.name, state: key.status };
+  }
+  // Only a complete, successful fetch of that list can say an id is gone
+  const fetchedAt = dimension === 'workspace_id' ? directory.fetchedAt.workspaces : directory.fetchedAt.apiKeys;
+  if (!fetchedAt || id === 'unknown') return null;
+  return { name: id, state: 'deleted' };
+}
+
+// Names for every workspace and API key value in a set of report groups
+export function buildNameMap(directory: Directory, groups: Array<Partial<Record<string, string>>>): NameMap {
+  const names: NameMap = {};
+  for (const group of groups) {
+    for (const dimension of ['workspace_id', 'api_key_id'] as const) {
+      const id = group[dimension];
+      if (!id || names[id]) continue;
+      const resolved = resolveName(directory, dimension, id);
+      if (resolved) names[id] = resolved;
+    }
+  }
+  return names;
+}
+
+// Plain-text label for exports and notifications, e.g. "Staging (archived)"
+export function formatName(resolved: ResolvedName | null, id: string): string {
+  if (!resolved) return id;
+  return resolved.state === 'active' ? resolved.name : `${resolved.name} (${resolved.state})`;
+}
@@ -0,0 +1,145 @@
+// Prompt-caching and token-mix analytics from the Admin API usage report: how much input
+// is served from the cache, what is written to it at each TTL, web search use and the
+// input/output balance, in total, per model and per workspace, day by day.
+import type { UsageReportResponse, UsageResult } from './adminApi';
+import { buildNameMap, Directory, NameMap } from './directory';
+
+export interface TokenMix {
+  uncachedInputTokens: number;
+  cacheWrite5mTokens: number;
+  cacheWrite1hTokens: number;
+  cacheReadTokens: number;
+  outputTokens: number;
+  webSearchRequests: number;
+}
+
+export interface EfficiencyMetrics extends TokenMix {
+  inputTokens: number;             // Uncached + cache writes + cache reads
+  cacheHitRatio: number | null;    // Share of input read from the cache; null without input
+  cacheReadWriteRatio: number | null; // Tokens read per token written; null without writes
+  inputOutputRatio: number | null; // Input tokens per output token; null without output
+}
+
+export interface EfficiencyPoint extends EfficiencyMetrics {
+  date: string; // YYYY-MM-DD, UTC like the usage report
+}
+
+export interface EfficiencyGroup {
+  key: string; // Model name or workspace id ('default' for the default workspace)
+  totals: EfficiencyMetrics;
+  daily: EfficiencyPoint[];
+}
+
+export interface EfficiencyReport {
+  periodStart: string;
+  periodEnd: string;
+  totals: EfficiencyMetrics;
+  daily: EfficiencyPoint[];
+  byModel: EfficiencyGroup[];     // Largest input first
+  byWorkspace: EfficiencyGroup[];
+  workspaceNames: NameMap;
+  lastUpdated: string;
+}
+
+function emptyMix(): TokenMix {
+  return {
+    uncachedInputTokens: 0,
+    cacheWrite5mTokens: 0,
+    cacheWrite1hTokens: 0,
+    cacheReadTokens: 0,
+    outputTokens: 0,
+    webSearchRequests: 0,
+  };
+}
+
+function addResult(mix: TokenMix, result: UsageResult): void {
+  mix.uncachedInputTokens += result.uncached_input_tokens || 0;
+  mix.cacheWrite5mTokens += result.cache_creation?.ephemeral_5m_input_tokens || 0;
+  mix.cacheWrite1hTokens += result.cache_creation?.ephemeral_1h_input_tokens || 0;
+  mix.cacheReadTokens += result.cache_read_input_tokens || 0;
+  mix.outputTokens += result.output_tokens || 0;
+  mix.webSearchRequests += result.server_tool_use?.web_search_requests || 0;
+}
+
+export function toEfficiencyMetrics(mix: TokenMix): EfficiencyMetrics {
+  const cacheWrites = mix.cacheWrite5mTokens + mix.cacheWrite1hTokens;
+  const inputTokens = mix.uncachedInputTokens + cacheWrites + mix.cacheReadTokens;
+  return {
+    ...mix,
+    inputTokens,
+    cacheHitRatio: inputTokens > 0 ? mix.cacheReadTokens / inputTokens : null,
+    cacheReadWriteRatio: cacheWrites > 0 ? mix.cacheReadTokens / cacheWrites : null,
+    inputOutputRatio: mix.outputTokens > 0 ? inputTokens / mix.outputTokens : null,
+  };
+}
+
+// Token mix per UTC day, keeping days without usage so charts show the gaps
+function toDailySeries(byDate: Map<string, TokenMix>, dates: string[]): EfficiencyPoint[] {
+  return dates.map(date => ({ date, ...toEfficiencyMetrics(byDate.get(date) || emptyMix()) }));
+}
+
+function toGroups(groups: Map<string, Map<string, TokenMix>>, dates: string[]): EfficiencyGroup[] {
+  return [...groups.entries()]
+    .map(([key, byDate]) => {
+      const total = emptyMix();
+      for (const mix of byDate.values()) {
+        for (const field of Object.keys(total) as Array<keyof TokenMix>) {
+          total[field] += mix[field];
+        }
+      }
+      return { key, totals: toEfficiencyMetrics(total), daily: toDailySeries(byDate, dates) };
+    })
+    .sort((a, b) => b.totals.inputTokens - a.totals.inputTokens);
+}
+
+function mixFor(groups: Map<string, Map<string, TokenMix>>, key: string, date: string): TokenMix {
+  let byDate = groups.get(key);
+  if (!byDate) {
+    byDate = new Map();
+    groups.set(key, byDate);
+  }
+  let mix = byDate.get(date);
+  if (!mix) {
+    mix = emptyMix();
+    byDate.set(date, mix);
+  }
+  return mix;
+}
+
+// Expects a daily usage report grouped by model and workspace_id, as the API spend fetch requests
+export function buildEfficiencyReport(
+  usageReport: UsageReportResponse,
+  periodStart: string,
+  periodEnd: string,
+  directory?: Directory,
+  now: Date = new Date()
+): EfficiencyReport {
+  const total = emptyMix();
+  const daily = new Map<string, TokenMix>();
+  const byModel = new Map<string, Map<string, TokenMix>>();
+  const byWorkspace = new Map<string, Map<string, TokenMix>>();
+
+  for (const bucket of usageReport.data) {
+    const date = bucket.starting_at.split('T')[0];
+    if (!daily.has(date)) daily.set(date, emptyMix());
+    for (const result of bucket.results) {
+      addResult(total, result);
+      addResult(daily.get(date) as TokenMix, result);
+      addResult(mixFor(byModel, result.model || 'unknown', date), result);
+      addResult(mixFor(byWorkspace, result.workspace_id || 'default', date), result);
+    }
+  }
+
+  const dates = [...daily.keys()].sort();
+  const workspaceGroups = toGroups(byWorkspace, dates);
+  return {
+    periodStart,
+    periodEnd,
+    totals: toEfficiencyMetrics(total),
+    daily: toDailySeries(daily, dates),
+    byModel: toGroups(byModel, dates),
+    byWorkspace: workspaceGroups,
+    workspaceNames: directory ? buildNameMap(directory, workspaceGroups.map(group => ({ workspace_id: group.key }))) : {},
+    lastUpdated: now.toISOString(),
+  };
+}
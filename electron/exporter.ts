@@ -0,0 +1,184 @@
+// CSV/JSON export of usage history and Admin API reports. Row building is pure; main.ts
+// fetches the data and writes the file. Column names are part of the file format - add
+// new columns at the end rather than renaming or reordering existing ones.
+import type { UsageSnapshot } from './history';
+import type { UsageReportResponse, CostReportResponse } from './adminApi';
+import { DEFAULT_ACCOUNT_ID } from './accounts';
+
+export type ExportDataset = 'usage-history' | 'daily-costs' | 'token-totals';
+export type ExportFormat = 'csv' | 'json';
+
+export interface ExportRequest {
+  dataset: ExportDataset;
+  format: ExportFormat;
+  from: string; // YYYY-MM-DD, inclusive
+  to: string;   // YYYY-MM-DD, inclusive
+}
+
+export interface ExportResult {
+  success: boolean;
+  canceled?: boolean;
+  filePath?: string;
+  rows?: number;
+  error?: string;
+}
+
+// One row per bar per recorded snapshot
+export interface UsageHistoryRow {
+  timestamp: string;                 // ISO 8601, UTC
+  account_id: string;
+  account: string;                   // Account nickname at export time
+  bar: string;                       // Bar label, e.g. "Current session"
+  percentage: number;                // 0-100
+  credit_balance_usd: number | null; // Platform credit balance at that time, if recorded
+}
+
+// One row per day, workspace and cost line item from the cost report
+export interface DailyCostRow {
+  date: string;          // YYYY-MM-DD, UTC day the bucket starts on
+  workspace_id: string;  // Empty for the default workspace
+  model: string;         // Empty for costs not tied to a model
+  cost_type: string;     // tokens, web_search, code_execution or empty
+  service_tier: string;  // standard, batch or empty
+  description: string;
+  cost_usd: number;      // Converted from the report's cents
+  workspace_name: string; // Workspace name, with "(archived)" for archived workspaces
+}
+
+// One row per model, summed over the whole range
+export interface TokenTotalsRow {
+  model: string;
+  uncached_input_tokens: number;
+  cache_creation_input_tokens: number; // 5 minute and 1 hour cache writes together
+  cache_read_input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+  web_search_requests: number;
+}
+
+export const USAGE_HISTORY_COLUMNS: Array<keyof UsageHistoryRow> = [
+  'timestamp', 'account_id', 'account', 'bar', 'percentage', 'credit_balance_usd',
+];
+
+export const DAILY_COST_COLUMNS: Array<keyof DailyCostRow> = [
+  'date', 'workspace_id', 'model', 'cost_type', 'service_tier', 'description', 'cost_usd', 'workspace_name',
+];
+
+export const TOKEN_TOTALS_COLUMNS: Array<keyof TokenTotalsRow> = [
+  'model', 'uncached_input_tokens', 'cache_creation_input_tokens', 'cache_read_input_tokens',
+  'output_tokens', 'total_tokens', 'web_search_requests',
+];
+
+export function buildUsageHistoryRows(
+  snapshots: UsageSnapshot[],
+  getNickname: (accountId: string) => string
+): UsageHistoryRow[] {
+  const rows: UsageHistoryRow[] = [];
+  for (const snapshot of snapshots) {
+    const accountId = snapshot.accountId || DEFAULT_ACCOUNT_ID;
+    for (const bar of snapshot.bars) {
+      rows.push({
+        timestamp: snapshot.timestamp,
+        account_id: accountId,
+        account: getNickname(accountId),
+        bar: bar.label,
+        percentage: bar.percentage,
+        credit_balance_usd: snapshot.creditBalance,
+      });
+    }
+  }
+  return rows;
+}
+
+export function buildDailyCostRows(
+  costReport: CostReportResponse,
+  getWorkspaceName: (workspaceId: string | null) => string = workspaceId => workspaceId || ''
+): DailyCostRow[] {
+  const rows: DailyCostRow[] = [];
+  for (const bucket of costReport.data) {
+    for (const result of bucket.results) {
+      rows.push({
+        date: bucket.starting_at.split('T')[0],
+        workspace_id: result.workspace_id || '',
+        model: result.model || '',
+        cost_type: result.cost_type || '',
+        service_tier: result.service_tier || '',
+        description: result.description || '',
+        // Round to a tenth of a cent so float noise doesn't end up in spreadsheets
+        cost_usd: Math.round((parseFloat(result.amount) || 0) * 10) / 1000,
+        workspace_name: getWorkspaceName(result.workspace_id),
+      });
+    }
+  }
+  return rows.sort((a, b) =>
+    a.date.localeCompare(b.date) || a.workspace_id.localeCompare(b.workspace_id) || a.model.localeCompare(b.model)
+  );
+}
+
+export function buildTokenTotalsRows(usageReport: UsageReportResponse): TokenTotalsRow[] {
+  const byModel = new Map<string, TokenTotalsRow>();
+
+  for (const bucket of usageReport.data) {
+    for (const result of bucket.results) {
+      const model = result.model || 'unknown';
+      let row = byModel.get(model);
+      if (!row) {
+        row = {
+          model,
+          uncached_input_tokens: 0,
+          cache_creation_input_tokens: 0,
+          cache_read_input_tokens: 0,
+          output_tokens: 0,
+          total_tokens: 0,
+          web_search_requests: 0,
+        };
+        byModel.set(model, row);
+      }
+      const cacheCreation = (result.cache_creation?.ephemeral_5m_input_tokens || 0)
+        + (result.cache_creation?.ephemeral_1h_input_tokens || 0);
+      row.uncached_input_tokens += result.uncached_input_tokens || 0;
+      row.cache_creation_input_tokens += cacheCreation;
+      row.cache_read_input_tokens += result.cache_read_input_tokens || 0;
+      row.output_tokens += result.output_tokens || 0;
+      row.web_search_requests += result.server_tool_use?.web_search_requests || 0;
+      row.total_tokens = row.uncached_input_tokens + row.cache_creation_input_tokens
+        + row.cache_read_input_tokens + row.output_tokens;
+    }
+  }
+
+  return [...byModel.values()].sort((a, b) => b.total_tokens - a.total_tokens);
+}
+
+// RFC 4180: quote fields containing separators, quotes or line breaks
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv<T extends object>(columns: Array<keyof T>, rows: T[]): string {
+  const lines = [columns.map(column => csvField(column)).join(',')];
+  for (const row of rows) {
+    lines.push(columns.map(column => csvField(row[column])).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+export function toJson<T extends object>(request: ExportRequest, columns: Array<keyof T>, rows: T[]): string {
+  return JSON.stringify({
+    dataset: request.dataset,
+    from: request.from,
+    to: request.to,
+    exportedAt: new Date().toISOString(),
+    columns,
+    rows,
+  }, null, 2);
+}
+
+export function serializeExport<T extends object>(request: ExportRequest, columns: Array<keyof T>, rows: T[]): string {
+  return request.format === 'json' ? toJson(request, columns, rows) : toCsv(columns, rows);
+}
+
+export function defaultExportFileName(request: ExportRequest): string {
+  return `claude-${request.dataset}-${request.from}-to-${request.to}.${request.format}`;
+}
@@ -0,0 +1,217 @@
+import * as fs from 'fs';
+import type { ClaudeMaxUsage, BillingInfo } from './scraper';
+import { DEFAULT_ACCOUNT_ID } from './accounts';
+
+export interface HistoryBar {
+  label: string;
+  percentage: number;
+  context?: string;
+}
+
+export interface UsageSnapshot {
+  timestamp: string;
+  accountId?: string; // Missing on snapshots recorded before multiple accounts
+  plan?: string;
+  email?: string;
+  bars: HistoryBar[];
+  creditBalance: number | null;
+}
+
+export interface HistoryQuery {
+  from?: string; // ISO timestamp, inclusive
+  to?: string;   // ISO timestamp, inclusive
+  label?: string; // Only keep this bar in each snapshot
+  accountId?: string; // Only snapshots of this account
+  limit?: number; // Most recent N snapshots
+}
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Retention rules - every snapshot is kept for a day, then thinned out as it ages
+const RETENTION_RULES: Array<{ maxAge: number; resolution: number }> = [
+  { maxAge: DAY, resolution: 0 },               // Last 24 hours: every snapshot
+  { maxAge: 7 * DAY, resolution: 15 * 60 * 1000 }, // Last 7 days: one per 15 minutes
+  { maxAge: 90 * DAY, resolution: HOUR },       // Last 90 days: one per hour
+];
+// Unchanged data is still recorded at least this often so charts have no long gaps
+const HEARTBEAT_MS = 10 * 60 * 1000;
+const COMPACT_INTERVAL_MS = HOUR;
+
+let historyFile: string | null = null;
+let snapshots: UsageSnapshot[] = [];
+let lastCompactedAt = 0;
+
+// Load history from disk - the file is JSON lines so new snapshots are a cheap append
+export function initHistory(filePath: string): void {
+  historyFile = filePath;
+  snapshots = [];
+
+  if (fs.existsSync(filePath)) {
+    const lines = fs.readFileSync(filePath, 'utf-8').split('\n');
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        snapshots.push(JSON.parse(line));
+      } catch {
+        // Skip lines truncated by a crash mid-write
+      }
+    }
+  }
+
+  snapshots.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  compactHistory();
+  console.log(`History loaded: ${snapshots.length} snapshots from ${filePath}`);
+}
+
+function snapshotAccount(snapshot: UsageSnapshot): string {
+  return snapshot.accountId || DEFAULT_ACCOUNT_ID;
+}
+
+export function createSnapshot(
+  usage: ClaudeMaxUsage,
+  billingInfo: BillingInfo | null,
+  accountId: string = DEFAULT_ACCOUNT_ID
+): UsageSnapshot {
+  const bars = usage.bars && usage.bars.length > 0
+    ? usage.bars
+    : [usage.standard, usage.advanced].filter(b => b.percentage > 0 || b.limit > 0);
+
+  return {
+    timestamp: usage.lastUpdated,
+    accountId,
+    plan: usage.plan,
+    email: usage.email,
+    bars: bars.map((bar, index) => ({
+      label: bar.label || `Usage ${index + 1}`,
+      percentage: bar.percentage,
+      context: bar.context,
+    })),
+    creditBalance: billingInfo?.creditBalance ?? null,
+  };
+}
+
+function isSameUsage(a: UsageSnapshot, b: UsageSnapshot): boolean {
+  if (a.creditBalance !== b.creditBalance || a.bars.length !== b.bars.length) return false;
+  return a.bars.every((bar, i) => bar.label === b.bars[i].label && bar.percentage === b.bars[i].percentage);
+}
+
+// Record a successful scrape. Returns the stored snapshot, or null if it was skipped
+// because nothing changed since the last one.
+export function recordSnapshot(
+  usage: ClaudeMaxUsage,
+  billingInfo: BillingInfo | null,
+  accountId: string = DEFAULT_ACCOUNT_ID
+): UsageSnapshot | null {
+  if (!usage.isAuthenticated) return null;
+
+  const snapshot = createSnapshot(usage, billingInfo, accountId);
+  const previous = [...snapshots].reverse().find(s => snapshotAccount(s) === accountId);
+  if (previous && isSameUsage(previous, snapshot) &&
+      Date.parse(snapshot.timestamp) - Date.parse(previous.timestamp) < HEARTBEAT_MS) {
+    return null;
+  }
+
+  snapshots.push(snapshot);
+  if (historyFile) {
+    try {
+      fs.appendFileSync(historyFile, JSON.stringify(snapshot) + '\n');
+    } catch (error) {
+      console.error('Failed to write history:', error);
+    }
+  }
+
+  if (Date.now() - lastCompactedAt > COMPACT_INTERVAL_MS) {
+    compactHistory();
+  }
+
+  return snapshot;
+}
+
+// Apply the retention rules: drop snapshots older than the last rule and keep only the
+// latest snapshot per account and time slot inside each rule's age range
+export function compactSnapshots(input: UsageSnapshot[], now: number = Date.now()): UsageSnapshot[] {
+  const kept: UsageSnapshot[] = [];
+  const seenSlots = new Set<string>();
+
+  // Walk newest first so the latest snapshot in each slot wins
+  for (let i = input.length - 1; i >= 0; i--) {
+    const snapshot = input[i];
+    const age = now - Date.parse(snapshot.timestamp);
+    const ruleIndex = RETENTION_RULES.findIndex(rule => age <= rule.maxAge);
+    if (ruleIndex === -1) continue;
+
+    const { resolution } = RETENTION_RULES[ruleIndex];
+    if (resolution > 0) {
+      const slot = `${snapshotAccount(snapshot)}:${ruleIndex}:${Math.floor(Date.parse(snapshot.timestamp) / resolution)}`;
+      if (seenSlots.has(slot)) continue;
+      seenSlots.add(slot);
+    }
+    kept.push(snapshot);
+  }
+
+  return kept.reverse();
+}
+
+export function compactHistory(): void {
+  lastCompactedAt = Date.now();
+  const compacted = compactSnapshots(snapshots, lastCompactedAt);
+  if (compacted.length === snapshots.length) return;
+
+  snapshots = compacted;
+  if (!historyFile) return;
+
+  try {
+    // Write to a temp file first so a crash can't leave a half-written history
+    const tempFile = `${historyFile}.tmp`;
+    fs.writeFileSync(tempFile, snapshots.map(s => JSON.stringify(s)).join('\n') + '\n');
+    fs.renameSync(tempFile, historyFile);
+  } catch (error) {
+    console.error('Failed to compact history:', error);
+  }
+}
+
+export function queryHistory(query: HistoryQuery = {}): UsageSnapshot[] {
+  let result = snapshots.filter(s =>
+    (!query.from || s.timestamp >= query.from) &&
+    (!query.to || s.timestamp <= query.to) &&
+    (!query.accountId || snapshotAccount(s) === query.accountId)
+  );
+
+  if (query.label) {
+    const label = query.label.toLowerCase();
+    result = result
+      .map(s => ({ ...s, bars: s.bars.filter(b => b.label.toLowerCase() === label) }))
+      .filter(s => s.bars.length > 0);
+  }
+
+  if (query.limit && query.limit > 0) {
+    result = result.slice(-query.limit);
+  }
+
+  return result;
+}
+
+// Forget a removed account's snapshots
+export function removeAccountHistory(accountId: string): void {
+  const remaining = snapshots.filter(s => snapshotAccount(s) !== accountId);
+  if (remaining.length === snapshots.length) return;
+
+  snapshots = remaining;
+  if (!historyFile) return;
+
+  try {
+    const tempFile = `${historyFile}.tmp`;
+    fs.writeFileSync(tempFile, snapshots.map(s => JSON.stringify(s)).join('\n') + (snapshots.length > 0 ? '\n' : ''));
+    fs.renameSync(tempFile, historyFile);
+  } catch (error) {
+    console.error('Failed to remove account history:', error);
+  }
+}
+
+export function clearHistory(): void {
+  snapshots = [];
+  if (historyFile && fs.existsSync(historyFile)) {
+    fs.unlinkSync(historyFile);
+  }
+}
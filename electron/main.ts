@@ -3,21 +3,82 @@ import * as path from 'path';
 import * as dotenv from 'dotenv';
 import * as fs from 'fs';
 import Store from 'electron-store';
-import { scrapeClaudeUsage, scrapeBillingInfo, openLoginWindow, openPlatformLoginWindow, isAuthenticated, isPlatformAuthenticated, logout } from './scraper';
-import { getUsageReport, getCostReport, getCreditBalance, ApiData } from './adminApi';
+import { getClaudeUsage, scrapeBillingInfo, openLoginWindow, openPlatformLoginWindow, isAuthenticated, isPlatformAuthenticated, logout, logoutPlatform, ClaudeMaxUsage, BillingInfo, UsageDataSource } from './scraper';
+import { projectBar, PROJECTION_LOOKBACK_MS } from './projection';
+import { buildDiagnosticsBundle } from './diagnostics';
+import { initHistory, recordSnapshot, queryHistory, clearHistory, removeAccountHistory, HistoryQuery } from './history';
+import { getAccounts, getAccount, addAccount, renameAccount, removeAccount, ClaudeAccount, DEFAULT_ACCOUNT_ID } from './accounts';
+import {
+  evaluateBar, getRuleForBar, isQuietTime, getBarState, setBarState, isSnoozed, getSnoozedUntil,
+  snoozeNotifications, resumeNotifications, DEFAULT_NOTIFICATION_RULES, DEFAULT_QUIET_HOURS,
+  NotificationRule, NotificationEvent, QuietHours,
+} from './notificationRules';
+import { buildBudgetReport, collectBudgetAlerts, getMonthRange, Budget, BudgetReport } from './budgets';
+import { sendWebhook, describeWebhook, WebhookConfig, AlertEvent } from './webhooks';
+import { startStatusServer, stopStatusServer, isStatusServerRunning, generateToken, DEFAULT_STATUS_PORT } from './statusServer';
+import {
+  buildUsageHistoryRows, buildDailyCostRows, buildTokenTotalsRows, serializeExport, defaultExportFileName,
+  USAGE_HISTORY_COLUMNS, DAILY_COST_COLUMNS, TOKEN_TOTALS_COLUMNS, ExportRequest, ExportResult, ExportDataset,
+} from './exporter';
+import { runReport, getReportPresets, saveReportPreset, deleteReportPreset, ReportQuery } from './reportExplorer';
+import { buildEfficiencyReport, EfficiencyReport } from './efficiency';
+import {
+  ensureDirectory, refreshDirectory, clearDirectory, getDirectoryStatus, resolveName, formatName,
+} from './directory';
+import {
+  getPriceTable, savePriceTableVersion, deletePriceTableVersion, resetPriceTable, runCostEstimate,
+  PriceTableVersion, EstimateRequest,
+} from './pricing';
+import { startControlServer, stopControlServer, ControlRequest } from './controlSocket';
+import { renderTrayIcon, rgbaToBgra, pickTrayPercentage, buildTrayTooltip, TrayIconStyle } from './trayIcon';
+import { getAdminKey, getAdminKeyStatus, saveAdminKey, deleteAdminKey } from './adminKey';
+import {
+  getFullUsageReport, getFullCostReport, getCreditBalance, summarizeApiData, toAdminApiErrorInfo,
+  ApiData, ApiSpendSummary, CostReportResponse, UsageReportResponse, AdminApiErrorInfo,
+} from './adminApi';
 
 // Settings store
 interface AppSettings {
   refreshInterval: number;
   autoStart: boolean;
-  notificationThreshold: number;
+  notificationThreshold: number; // Default level for bars without their own rule
+  notificationRules: NotificationRule[];
+  quietHours: QuietHours;
+  webhooks: WebhookConfig[];
+  projectionAlerts: boolean;
+  dataSource: UsageDataSource;
+  trayIconStyle: TrayIconStyle;
+  trayIconShowPercentage: boolean;
+  trayIconBar: string; // Bar label, or 'highest' for whichever bar is closest to its limit
+  statusServerEnabled: boolean;
+  statusServerPort: number;
+  budgets: Budget[];
+  lowBalanceThreshold: number; // USD, 0 = no floor
 }
 
-const store = new Store<AppSettings>({
+// Settings the renderer never round-trips through app:save-settings
+interface InternalSettings {
+  statusServerToken: string;
+}
+
+const store = new Store<AppSettings & InternalSettings>({
   defaults: {
     refreshInterval: 60,
     autoStart: false,
     notificationThreshold: 80, // Default: notify at 80%
+    notificationRules: DEFAULT_NOTIFICATION_RULES,
+    quietHours: DEFAULT_QUIET_HOURS,
+    webhooks: [],
+    projectionAlerts: true,
+    dataSource: 'auto',
+    trayIconStyle: 'ring',
+    trayIconShowPercentage: true,
+    trayIconBar: 'highest',
+    statusServerEnabled: false,
+    statusServerPort: DEFAULT_STATUS_PORT,
+    budgets: [],
+    lowBalanceThreshold: 0,
+    statusServerToken: '',
   },
 });
 
@@ -64,9 +125,8 @@ for (const envPath of envPaths) {
   }
 }
 
-console.log('Admin key configured:', !!process.env.ANTHROPIC_ADMIN_KEY);
-
 let mainWindow: BrowserWindow | null = null;
+let reportWindow: BrowserWindow | null = null;
 let tray: Tray | null = null;
 let refreshInterval: NodeJS.Timeout | null = null;
 let lastClickTime = 0;
@@ -98,6 +158,20 @@ function getRecentLogs(count: number = 6): LogEntry[] {
   return activityLogs.slice(-count);
 }
 
+// Load the renderer, optionally on another view selected by the URL hash
+function loadRenderer(window: BrowserWindow, hash?: string) {
+  if (isDev) {
+    window.loadURL(`http://localhost:5173${hash ? `#${hash}` : ''}`);
+    // window.webContents.openDevTools({ mode: 'detach' });
+  } else {
+    // In production, __dirname is inside app.asar/dist-electron
+    // So we need to go up one level to get to dist/index.html
+    const htmlPath = path.join(__dirname, '..', 'dist', 'index.html');
+    console.log('Loading HTML from:', htmlPath);
+    window.loadFile(htmlPath, hash ? { hash } : undefined);
+  }
+}
+
 function createWindow() {
   mainWindow = new BrowserWindow({
     width: 320,
@@ -114,16 +188,7 @@ function createWindow() {
     },
   });
 
-  if (isDev) {
-    mainWindow.loadURL('http://localhost:5173');
-    // mainWindow.webContents.openDevTools({ mode: 'detach' });
-  } else {
-    // In production, __dirname is inside app.asar/dist-electron
-    // So we need to go up one level to get to dist/index.html
-    const htmlPath = path.join(__dirname, '..', 'dist', 'index.html');
-    console.log('Loading HTML from:', htmlPath);
-    mainWindow.loadFile(htmlPath);
-  }
+  loadRenderer(mainWindow);
 
   mainWindow.on('blur', () => {
     // When window loses focus, hide it after a short delay
@@ -136,36 +201,96 @@ function createWindow() {
   });
 }
 
+// A regular window (unlike the popup) so it can stay open next to other work
+function openReportExplorer() {
+  if (reportWindow && !reportWindow.isDestroyed()) {
+    reportWindow.show();
+    reportWindow.focus();
+    return;
+  }
+
+  reportWindow = new BrowserWindow({
+    width: 960,
+    height: 640,
+    minWidth: 640,
+    minHeight: 420,
+    title: 'Report Explorer - Claude Usage Tool',
+    backgroundColor: '#1a1a1a',
+    webPreferences: {
+      preload: path.join(__dirname, 'preload.js'),
+      contextIsolation: true,
+      nodeIntegration: false,
+    },
+  });
+  reportWindow.setMenuBarVisibility(false);
+  loadRenderer(reportWindow, 'reports');
+  reportWindow.on('closed', () => {
+    reportWindow = null;
+  });
+}
+
 async function updateTrayMenu() {
   if (!tray) return;
   
-  const authenticated = await isAuthenticated();
+  const accounts = getAccounts();
   const platformAuthenticated = await isPlatformAuthenticated();
-  
-  const contextMenu = Menu.buildFromTemplate([
-    { label: 'Refresh', click: () => refreshAllData() },
-    { type: 'separator' },
-    authenticated 
-      ? { 
-          label: 'Logout from Claude', 
+
+  // One login/logout entry per Claude account, named by nickname once there are several
+  const accountItems: Electron.MenuItemConstructorOptions[] = [];
+  for (const account of accounts) {
+    const suffix = accounts.length > 1 ? ` (${account.nickname})` : '';
+    const authenticated = await isAuthenticated(account.partition);
+    accountItems.push(authenticated
+      ? {
+          label: `Logout from Claude${suffix}`,
           click: async () => {
-            await logout();
+            await logout(account.partition);
             refreshAllData();
             updateTrayMenu();
           }
         }
-      : { label: 'Login to Claude', click: () => openLoginWindow().then(() => updateTrayMenu()) },
+      : { label: `Login to Claude${suffix}`, click: () => loginAccount(account).then(() => updateTrayMenu()) });
+  }
+  
+  const contextMenu = Menu.buildFromTemplate([
+    { label: 'Refresh', click: () => refreshAllData() },
+    { type: 'separator' },
+    ...accountItems,
     platformAuthenticated
       ? {
           label: 'Logout from Platform',
           click: async () => {
-            await logout();
+            await logoutPlatform();
             refreshAllData();
             updateTrayMenu();
           }
         }
       : { label: 'Login to Platform', click: () => openPlatformLoginWindow().then(() => updateTrayMenu()) },
     { type: 'separator' },
+    isSnoozed()
+      ? {
+          label: `Resume Notifications (snoozed until ${new Date(getSnoozedUntil()).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })})`,
+          click: () => {
+            resumeNotifications();
+            addLog('Notifications resumed');
+            updateTrayMenu();
+          }
+        }
+      : {
+          label: 'Snooze Notifications',
+          submenu: SNOOZE_OPTIONS.map(option => ({ label: option.label, click: () => snooze(option.ms) })),
+        },
+    { type: 'separator' },
+    { label: 'Report Explorer...', click: () => openReportExplorer() },
+    {
+      label: 'Export Data',
+      submenu: [
+        { label: 'Usage History (30 days)...', click: () => exportData(lastDaysExport('usage-history', 30)) },
+        { label: 'Daily API Costs (this month)...', click: () => exportData(monthToDateExport('daily-costs')) },
+        { label: 'Token Totals (this month)...', click: () => exportData(monthToDateExport('token-totals')) },
+      ],
+    },
+    { label: 'Export Diagnostics...', click: () => exportDiagnostics() },
     {
       label: 'About',
       click: () => {
@@ -232,7 +357,123 @@ async function updateTrayMenu() {
   tray.setContextMenu(contextMenu);
 }
 
-function createTray() {
+// YYYY-MM-DD of the local calendar day
+function toDateString(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function lastDaysExport(dataset: ExportDataset, days: number): ExportRequest {
+  const now = new Date();
+  const from = new Date(now.getTime() - (days - 1) * 24 * 60 * 60 * 1000);
+  return { dataset, format: 'csv', from: toDateString(from), to: toDateString(now) };
+}
+
+// The month-to-date datasets come from Admin API reports, which bucket by UTC day
+function monthToDateExport(dataset: ExportDataset): ExportRequest {
+  const today = new Date().toISOString().slice(0, 10);
+  return { dataset, format: 'csv', from: `${today.slice(0, 8)}01`, to: today };
+}
+
+// Serialize the requested dataset. History dates are local days, Admin API reports use UTC days.
+async function buildExport(request: ExportRequest): Promise<{ content: string; rows: number }> {
+  if (request.dataset === 'usage-history') {
+    const snapshots = queryHistory({
+      from: new Date(`${request.from}T00:00:00`).toISOString(),
+      to: new Date(`${request.to}T23:59:59.999`).toISOString(),
+    });
+    const rows = buildUsageHistoryRows(snapshots, accountId => getAccount(accountId)?.nickname || accountId);
+    return { content: serializeExport(request, USAGE_HISTORY_COLUMNS, rows), rows: rows.length };
+  }
+
+  const adminKey = getAdminKey();
+  if (!adminKey) {
+    throw new Error('An Admin API key is required to export API reports');
+  }
+  const startingAt = `${request.from}T00:00:00Z`;
+  const endingAt = new Date(Date.parse(`${request.to}T00:00:00Z`) + 24 * 60 * 60 * 1000).toISOString();
+
+  if (request.dataset === 'daily-costs') {
+    const [costReport, directory] = await Promise.all([
+      getFullCostReport(adminKey, {
+        starting_at: startingAt,
+        ending_at: endingAt,
+        group_by: ['workspace_id', 'description'],
+        limit: 31,
+      }),
+      ensureDirectory(adminKey),
+    ]);
+    const rows = buildDailyCostRows(costReport, workspaceId => {
+      const id = workspaceId || 'default';
+      return formatName(resolveName(directory, 'workspace_id', id), id);
+    });
+    return { content: serializeExport(request, DAILY_COST_COLUMNS, rows), rows: rows.length };
+  }
+
+  const usageReport = await getFullUsageReport(adminKey, {
+    starting_at: startingAt,
+    ending_at: endingAt,
+    group_by: ['model'],
+    limit: 31,
+  });
+  const rows = buildTokenTotalsRows(usageReport);
+  return { content: serializeExport(request, TOKEN_TOTALS_COLUMNS, rows), rows: rows.length };
+}
+
+async function exportData(request: ExportRequest): Promise<ExportResult> {
+  const jsonFilter = { name: 'JSON', extensions: ['json'] };
+  const csvFilter = { name: 'CSV', extensions: ['csv'] };
+  const { canceled, filePath } = await dialog.showSaveDialog({
+    title: 'Export Data',
+    defaultPath: path.join(app.getPath('downloads'), defaultExportFileName(request)),
+    filters: request.format === 'json' ? [jsonFilter, csvFilter] : [csvFilter, jsonFilter],
+  });
+  if (canceled || !filePath) return { success: false, canceled: true };
+
+  // The extension picked in the dialog wins over the requested format
+  const format = path.extname(filePath).toLowerCase() === '.json' ? 'json' : 'csv';
+
+  try {
+    const { content, rows } = await buildExport({ ...request, format });
+    fs.writeFileSync(filePath, content);
+    addLog(`Exported ${rows} rows to ${path.basename(filePath)}`);
+    return { success: true, filePath, rows };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    addLog(`Export failed: ${message}`);
+    return { success: false, error: message };
+  }
+}
+
+// Save an anonymized bundle of recent scrape results and logs for bug reports
+async function exportDiagnostics() {
+  const date = new Date().toISOString().split('T')[0];
+  const { canceled, filePath } = await dialog.showSaveDialog({
+    title: 'Export Diagnostics',
+    defaultPath: path.join(app.getPath('downloads'), `claude-usage-diagnostics-${date}.json`),
+    filters: [{ name: 'JSON', extensions: ['json'] }],
+  });
+  if (canceled || !filePath) return;
+
+  const bundle = buildDiagnosticsBundle({
+    appVersion: app.getVersion(),
+    settings: {
+      refreshInterval: store.get('refreshInterval', 60),
+      dataSource: store.get('dataSource', 'auto'),
+    },
+    logs: activityLogs,
+  });
+
+  try {
+    fs.writeFileSync(filePath, JSON.stringify(bundle, null, 2));
+    addLog(`Diagnostics saved to ${path.basename(filePath)}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    addLog(`Diagnostics export failed: ${message}`);
+  }
+}
+
+function loadStaticTrayIcon(): Electron.NativeImage {
   // Create a simple icon - in production, use a proper icon file
   const iconPath = path.join(__dirname, '..', 'assets', 'trayIconTemplate.png');
   let icon: Electron.NativeImage;
@@ -261,6 +502,12 @@ function createTray() {
     icon = nativeImage.createFromBuffer(canvas, { width: size, height: size });
   }
 
+  return icon;
+}
+
+function createTray() {
+  const icon = loadStaticTrayIcon();
+
   tray = new Tray(icon);
   tray.setToolTip('Claude Usage Tool');
 
@@ -344,60 +591,244 @@ function showWindow() {
   mainWindow.show();
 }
 
-let lastNotifiedPercentages: Map<string, number> = new Map();
+function loginAccount(account: ClaudeAccount): Promise<boolean> {
+  const title = getAccounts().length > 1 ? `Login to Claude - ${account.nickname}` : 'Login to Claude';
+  return openLoginWindow(account.partition, title);
+}
+
+// Usage of one Claude account from the last refresh
+interface AccountUsage {
+  accountId: string;
+  nickname: string;
+  usage: ClaudeMaxUsage | null;
+}
+
+let lastAccountUsages: AccountUsage[] = [];
+let lastBillingInfo: BillingInfo | null = null;
+let lastRefreshAt: string | null = null;
+
+// Notification text names the account only when more than one is tracked
+function accountPrefix(account: ClaudeAccount): string {
+  return getAccounts().length > 1 ? `${account.nickname} - ` : '';
+}
+
+// Redraw the tray gauge and tooltip from the latest refresh
+function updateTrayIcon(accounts: AccountUsage[]) {
+  if (!tray) return;
+
+  tray.setToolTip(buildTrayTooltip(accounts));
+
+  const style = store.get('trayIconStyle', 'ring');
+  if (style === 'static') {
+    tray.setImage(loadStaticTrayIcon());
+    return;
+  }
 
-function checkAndNotify(claudeUsage: any) {
   const threshold = store.get('notificationThreshold', 80);
-  if (threshold === 0 || !claudeUsage?.bars) return;
+  const image = renderTrayIcon(pickTrayPercentage(accounts, store.get('trayIconBar', 'highest')), {
+    style,
+    showPercentage: store.get('trayIconShowPercentage', true),
+    warningAt: 50,
+    criticalAt: threshold > 0 ? threshold : 80,
+  });
+  tray.setImage(nativeImage.createFromBuffer(rgbaToBgra(image.rgba), {
+    width: image.width,
+    height: image.height,
+    scaleFactor: image.scaleFactor,
+  }));
+}
+
+const SNOOZE_OPTIONS: Array<{ label: string; ms: number }> = [
+  { label: '1 hour', ms: 60 * 60 * 1000 },
+  { label: '4 hours', ms: 4 * 60 * 60 * 1000 },
+  { label: '24 hours', ms: 24 * 60 * 60 * 1000 },
+];
+
+function snooze(ms: number) {
+  const until = snoozeNotifications(ms);
+  addLog(`Notifications snoozed until ${new Date(until).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`);
+  updateTrayMenu();
+}
+
+// Post an alert to every enabled webhook. Deliveries run in the background with their own
+// retries, so a slow endpoint never holds up a refresh.
+function dispatchWebhooks(event: AlertEvent) {
+  for (const webhook of store.get('webhooks', [])) {
+    if (!webhook.enabled || !webhook.url) continue;
+    sendWebhook(webhook, event).then(result => {
+      if (!result.success) {
+        addLog(`Webhook ${describeWebhook(webhook)} failed after ${result.attempts} attempts: ${result.error}`);
+      }
+    });
+  }
+}
+
+function describeEvent(label: string, event: NotificationEvent): { title: string; body: string } {
+  switch (event.kind) {
+    case 'reset':
+      return { title: 'Claude Usage Reset', body: `${label} has reset (now ${event.percentage}%)` };
+    case 'increase':
+      return { title: 'Claude Usage Alert', body: `${label}: ${event.previous}% → ${event.percentage}%` };
+    default:
+      return { title: 'Claude Usage Alert', body: `${label}: ${event.percentage}% used (reached ${event.level}%)` };
+  }
+}
 
-  claudeUsage.bars.forEach((bar: any) => {
+// Apply each bar's notification rule. State is updated even while notifications are
+// muted, so quiet hours and snoozes don't cause a burst of stale alerts afterwards.
+function checkAndNotify(claudeUsage: ClaudeMaxUsage, account: ClaudeAccount) {
+  if (!claudeUsage.bars) return;
+
+  const rules = store.get('notificationRules', DEFAULT_NOTIFICATION_RULES);
+  const threshold = store.get('notificationThreshold', 80);
+  const muted = isSnoozed() ? 'snoozed' : isQuietTime(store.get('quietHours', DEFAULT_QUIET_HOURS)) ? 'quiet hours' : null;
+
+  claudeUsage.bars.forEach(bar => {
     const label = bar.label || 'Usage';
-    const percentage = bar.percentage || 0;
-    const lastNotified = lastNotifiedPercentages.get(label) || 0;
+    const key = `${account.id}:${label}`;
+    const rule = getRuleForBar(rules, label, threshold);
+    const result = evaluateBar(rule, getBarState(key), bar.percentage || 0);
+    setBarState(key, result.state);
+
+    result.events.forEach(event => {
+      const { title, body } = describeEvent(`${accountPrefix(account)}${label}`, event);
+      // Webhooks feed shared channels, so they ignore local quiet hours and snoozes
+      dispatchWebhooks({
+        ...event,
+        title,
+        message: body,
+        account: account.nickname,
+        label,
+        timestamp: claudeUsage.lastUpdated,
+      });
+      if (muted) {
+        addLog(`Notification muted (${muted}): ${body}`);
+        return;
+      }
 
-    // Notify if crossed threshold and haven't notified for this level yet
-    if (percentage >= threshold && lastNotified < threshold) {
       const { Notification } = require('electron');
       const notification = new Notification({
-        title: 'Claude Usage Alert',
-        body: `${label}: ${percentage}% used (threshold: ${threshold}%)`,
+        title,
+        body,
         icon: path.join(__dirname, '..', 'assets', 'icon.png'),
+        // Buttons only show on macOS; the tray menu offers the same snooze everywhere
+        actions: [{ type: 'button', text: 'Snooze 1 hour' }],
       });
+      notification.on('action', () => snooze(SNOOZE_OPTIONS[0].ms));
       notification.show();
-      lastNotifiedPercentages.set(label, percentage);
-      addLog(`Notification: ${label} at ${percentage}%`);
+      addLog(`Notification: ${body}`);
+    });
+  });
+}
+
+// Percentage each bar was at when its projection alert fired - cleared once the bar resets
+let projectionAlerts: Map<string, number> = new Map();
+
+function checkProjectionAndNotify(claudeUsage: ClaudeMaxUsage, account: ClaudeAccount) {
+  if (!store.get('projectionAlerts', true) || !claudeUsage.bars) return;
+
+  claudeUsage.bars.forEach(bar => {
+    const label = bar.label || 'Usage';
+    const key = `${account.id}:${label}`;
+    const alertedAt = projectionAlerts.get(key);
+
+    if (alertedAt !== undefined && bar.percentage < alertedAt) {
+      projectionAlerts.delete(key);
     }
 
-    // Reset notification if usage dropped below threshold
-    if (percentage < threshold - 10) {
-      lastNotifiedPercentages.set(label, 0);
+    const projection = bar.projection;
+    if (!projection?.exhaustsBeforeReset || !projection.exhaustsAt || bar.percentage >= 100) return;
+    if (projectionAlerts.has(key)) return;
+
+    const hitTime = new Date(projection.exhaustsAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    const margin = projection.marginMs !== null
+      ? `, ${Math.round(projection.marginMs / (60 * 60 * 1000) * 10) / 10}h before reset`
+      : '';
+
+    const { Notification } = require('electron');
+    const notification = new Notification({
+      title: 'Claude Usage Forecast',
+      body: `${accountPrefix(account)}${label}: at current pace you will hit 100% at ${hitTime}${margin}`,
+      icon: path.join(__dirname, '..', 'assets', 'icon.png'),
+    });
+    notification.show();
+    projectionAlerts.set(key, bar.percentage);
+    addLog(`Forecast: ${accountPrefix(account)}${label} hits 100% at ${hitTime}`);
+    dispatchWebhooks({
+      kind: 'forecast',
+      title: 'Claude Usage Forecast',
+      message: `${accountPrefix(account)}${label}: at current pace you will hit 100% at ${hitTime}${margin}`,
+      account: account.nickname,
+      label,
+      percentage: bar.percentage,
+      timestamp: claudeUsage.lastUpdated,
+    });
+  });
+}
+
+// Attach a burn-rate projection to each bar using the recorded history
+function attachProjections(claudeUsage: ClaudeMaxUsage, accountId: string) {
+  const now = Date.parse(claudeUsage.lastUpdated);
+  const from = new Date(now - PROJECTION_LOOKBACK_MS).toISOString();
+
+  claudeUsage.bars?.forEach(bar => {
+    if (!bar.label) return;
+    const history = queryHistory({ label: bar.label, from, accountId }).map(s => ({
+      time: Date.parse(s.timestamp),
+      value: s.bars[0].percentage,
+    }));
+    const resetsAt = bar.resetsAt ? Date.parse(bar.resetsAt) : null;
+    const projection = projectBar(history, { time: now, value: bar.percentage }, resetsAt);
+    if (projection) {
+      bar.projection = projection;
     }
   });
 }
 
+// Fetch one account's usage, logging the outcome under its nickname
+async function refreshAccountUsage(account: ClaudeAccount, prefix: string): Promise<ClaudeMaxUsage | null> {
+  try {
+    const result = await getClaudeUsage(store.get('dataSource', 'auto'), account.partition);
+    if (result) {
+      if (result.isAuthenticated) {
+        addLog(`${prefix}Usage: ${result.bars?.length || 0} bars fetched`);
+        result.parseWarnings?.forEach(warning => addLog(`${prefix}Usage warning: ${warning}`));
+        if (result.confidence === 'low') {
+          addLog(`${prefix}Usage: low confidence result (${result.source}), page layout may have changed`);
+        }
+      } else {
+        addLog(`${prefix}Usage: Not authenticated`);
+      }
+    } else {
+      addLog(`${prefix}Usage: Skipped (in progress)`);
+    }
+    return result;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    addLog(`${prefix}Usage error: ${message}`);
+    return null;
+  }
+}
+
 async function refreshAllData() {
   if (!mainWindow) return;
 
   addLog('Refreshing data...');
 
   try {
-    const [claudeUsage, billingInfo] = await Promise.all([
-      scrapeClaudeUsage().then(result => {
-        if (result) {
-          if (result.isAuthenticated) {
-            addLog(`Usage: ${result.bars?.length || 0} bars fetched`);
-            checkAndNotify(result);
-          } else {
-            addLog('Usage: Not authenticated');
-          }
-        } else {
-          addLog('Usage: Skipped (in progress)');
+    const accounts = getAccounts();
+
+    const [accountUsages, billingInfo] = await Promise.all([
+      // Accounts are scraped one after another so only one hidden window loads at a time
+      (async () => {
+        const results: AccountUsage[] = [];
+        for (const account of accounts) {
+          const prefix = accounts.length > 1 ? `[${account.nickname}] ` : '';
+          const usage = await refreshAccountUsage(account, prefix);
+          results.push({ accountId: account.id, nickname: account.nickname, usage });
         }
-        return result;
-      }).catch(err => {
-        addLog(`Usage error: ${err.message}`);
-        return null;
-      }),
+        return results;
+      })(),
       scrapeBillingInfo().then(result => {
         if (result) {
           if (result.creditBalance !== null) {
@@ -415,9 +846,29 @@ async function refreshAllData() {
       }),
     ]);
 
+    accounts.forEach((account, index) => {
+      const usage = accountUsages[index].usage;
+      if (!usage?.isAuthenticated) return;
+      // Platform credit balance isn't tied to a Claude account, record it with the first one
+      recordSnapshot(usage, index === 0 ? billingInfo : null, account.id);
+      attachProjections(usage, account.id);
+      checkAndNotify(usage, account);
+      checkProjectionAndNotify(usage, account);
+    });
+
+    const budgetReport = await getBudgetReport(billingInfo);
+    checkBudgetsAndNotify(budgetReport);
+
+    lastAccountUsages = accountUsages;
+    lastBillingInfo = billingInfo;
+    lastRefreshAt = new Date().toISOString();
+    updateTrayIcon(accountUsages);
+
     mainWindow.webContents.send('app:data-updated', {
-      claudeUsage,
+      claudeUsage: accountUsages[0]?.usage ?? null,
+      accounts: accountUsages,
       billingInfo,
+      budgetReport,
       timestamp: new Date().toISOString(),
       logs: getRecentLogs(6),
     });
@@ -427,58 +878,269 @@ async function refreshAllData() {
   }
 }
 
-async function getApiData(): Promise<ApiData | null> {
-  const adminKey = process.env.ANTHROPIC_ADMIN_KEY;
-  console.log('getApiData called, key exists:', !!adminKey);
-  console.log('Key starts with sk-ant-admin:', adminKey?.startsWith('sk-ant-admin'));
-  console.log('Key prefix:', adminKey?.substring(0, 20));
-
+// Fetch the spend reports. Each request already retries transient failures; if one
+// report still fails the other is kept, and only losing both counts as a failure.
+async function getApiData(startDate: string): Promise<{ data: ApiData; errors: unknown[] } | null> {
+  const adminKey = getAdminKey();
   if (!adminKey) {
     console.log('Admin key not configured');
     return null;
   }
 
-  // Accept both sk-ant-admin- and sk-ant-admin01- prefixes
-  if (!adminKey.startsWith('sk-ant-admin')) {
-    console.log('Invalid admin key format');
-    return null;
+  console.log('Fetching API data from:', startDate);
+
+  const [usageResult, costResult, creditResult] = await Promise.allSettled([
+    getFullUsageReport(adminKey, {
+      starting_at: startDate,
+      group_by: ['workspace_id', 'model'],
+      limit: 31,
+    }),
+    // Grouping by description is what populates the model field on cost results
+    getFullCostReport(adminKey, {
+      starting_at: startDate,
+      group_by: ['workspace_id', 'description'],
+      limit: 31,
+    }),
+    getCreditBalance(adminKey),
+  ]);
+
+  if (usageResult.status === 'rejected' && costResult.status === 'rejected') {
+    console.error('Error fetching API data:', costResult.reason);
+    throw costResult.reason;
+  }
+  if (creditResult.status === 'rejected') {
+    console.log('Credit balance not available:', toAdminApiErrorInfo(creditResult.reason).message);
+  }
+
+  const data: ApiData = {
+    usageReport: usageResult.status === 'fulfilled' ? usageResult.value : null,
+    costReport: costResult.status === 'fulfilled' ? costResult.value : null,
+    creditBalance: creditResult.status === 'fulfilled' ? creditResult.value : null,
+  };
+  const errors = [usageResult, costResult]
+    .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+    .map(result => result.reason);
+
+  console.log('Usage buckets:', data.usageReport?.data.length ?? 'failed');
+  console.log('Cost buckets:', data.costReport?.data.length ?? 'failed');
+  if (data.usageReport?.has_more || data.costReport?.has_more) {
+    console.log('Admin API page limit reached, reports are truncated');
+  }
+  console.log('Credit balance:', data.creditBalance?.available_credit || 'N/A');
+
+  return { data, errors };
+}
+
+// Admin API reports only change a few times a day, so keep the last summary around
+// instead of hitting the API on every popup refresh
+let apiSpendCache: ApiSpendSummary | null = null;
+let apiSpendFetchedAt = 0;
+let apiSpendError: AdminApiErrorInfo | null = null;
+// The raw usage report behind the summary, for the efficiency view
+let apiUsageCache: { report: UsageReportResponse; periodStart: string; periodEnd: string } | null = null;
+const API_SPEND_CACHE_MS = 5 * 60 * 1000;
+
+async function getApiSpend(force: boolean = false): Promise<ApiSpendSummary | null> {
+  if (!force && apiSpendCache && Date.now() - apiSpendFetchedAt < API_SPEND_CACHE_MS) {
+    return apiSpendCache;
   }
 
   const now = new Date();
   // Use a date from 30 days ago to now - using simple date strings
   const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
   const startDate = thirtyDaysAgo.toISOString().split('T')[0] + 'T00:00:00Z';
-  const endDateStr = new Date(now.getTime() + 24 * 60 * 60 * 1000).toISOString().split('T')[0] + 'T00:00:00Z';
 
   try {
-    console.log('Fetching API data from:', startDate, 'to:', endDateStr);
+    const result = await getApiData(startDate);
+    if (!result) {
+      apiSpendError = null;
+      return null;
+    }
 
-    const [usageReport, costReport, creditBalance] = await Promise.all([
-      getUsageReport(adminKey, {
-        starting_at: startDate,
-        group_by: ['workspace_id', 'model'],
-        limit: 31,
-      }),
-      getCostReport(adminKey, {
-        starting_at: startDate,
-        group_by: ['workspace_id'],
-        limit: 31,
-      }),
-      getCreditBalance(adminKey).catch(err => {
-        console.log('Credit balance not available:', err.message);
-        return null;
-      }),
-    ]);
+    const summary = summarizeApiData(result.data, startDate, now.toISOString());
+    // Fill in whichever report failed from the last good summary
+    if (!result.data.costReport && apiSpendCache) {
+      summary.totalCost = apiSpendCache.totalCost;
+      summary.costByModel = apiSpendCache.costByModel;
+    }
+    if (!result.data.usageReport && apiSpendCache) {
+      summary.tokenTotals = apiSpendCache.tokenTotals;
+      summary.usageByModel = apiSpendCache.usageByModel;
+    }
+    if (result.data.usageReport) {
+      apiUsageCache = { report: result.data.usageReport, periodStart: startDate, periodEnd: summary.periodEnd };
+    }
+
+    apiSpendCache = summary;
+    apiSpendFetchedAt = Date.now();
+    apiSpendError = result.errors.length > 0 ? toAdminApiErrorInfo(result.errors[0]) : null;
+    if (apiSpendError) {
+      addLog(`API spend partially updated (${apiSpendError.kind}): ${apiSpendError.message}`);
+    }
+    addLog(`API spend: $${apiSpendCache.totalCost.toFixed(2)} (30 days)`);
+    return apiSpendCache;
+  } catch (error) {
+    apiSpendError = toAdminApiErrorInfo(error);
+    addLog(`API spend error (${apiSpendError.kind}): ${apiSpendError.message}`);
+    return apiSpendCache;
+  }
+}
+
+// Cache and token-mix analytics share the spend summary's usage report and its cache
+async function getEfficiencyReport(force: boolean = false): Promise<EfficiencyReport | null> {
+  await getApiSpend(force);
+  const adminKey = getAdminKey();
+  if (!apiUsageCache || !adminKey) return null;
+  const directory = await ensureDirectory(adminKey);
+  return buildEfficiencyReport(apiUsageCache.report, apiUsageCache.periodStart, apiUsageCache.periodEnd, directory);
+}
 
-    console.log('API data fetched successfully');
-    console.log('Usage buckets:', usageReport?.data?.length || 0);
-    console.log('Cost buckets:', costReport?.data?.length || 0);
-    console.log('Credit balance:', creditBalance?.available_credit || 'N/A');
+// Month-to-date cost report behind the budget report, cached like the spend summary
+let budgetCostCache: CostReportResponse | null = null;
+let budgetCostFetchedAt = 0;
 
-    return { usageReport, costReport, creditBalance };
+async function getMonthCostReport(): Promise<CostReportResponse | null> {
+  const adminKey = getAdminKey();
+  if (!adminKey) return null;
+  if (budgetCostCache && Date.now() - budgetCostFetchedAt < API_SPEND_CACHE_MS) {
+    return budgetCostCache;
+  }
+
+  try {
+    budgetCostCache = await getFullCostReport(adminKey, {
+      starting_at: getMonthRange().start.toISOString(),
+      group_by: ['workspace_id', 'description'],
+      limit: 31,
+    });
+    budgetCostFetchedAt = Date.now();
   } catch (error) {
-    console.error('Error fetching API data:', error);
-    throw error;
+    const info = toAdminApiErrorInfo(error);
+    addLog(`Budget report error (${info.kind}): ${info.message}`);
+  }
+  return budgetCostCache;
+}
+
+// Budgets need the Admin API; the balance floor works from the scraped balance alone
+async function getBudgetReport(billingInfo: BillingInfo | null): Promise<BudgetReport> {
+  const creditBalance = billingInfo?.creditBalance ?? apiSpendCache?.creditBalance ?? null;
+  return buildBudgetReport(
+    await getMonthCostReport(),
+    store.get('budgets', []),
+    creditBalance,
+    store.get('lowBalanceThreshold', 0),
+  );
+}
+
+function checkBudgetsAndNotify(report: BudgetReport) {
+  const muted = isSnoozed() ? 'snoozed' : isQuietTime(store.get('quietHours', DEFAULT_QUIET_HOURS)) ? 'quiet hours' : null;
+
+  collectBudgetAlerts(report).forEach(alert => {
+    dispatchWebhooks({ ...alert, account: '', timestamp: report.lastUpdated });
+    if (muted) {
+      addLog(`Notification muted (${muted}): ${alert.message}`);
+      return;
+    }
+
+    const { Notification } = require('electron');
+    const notification = new Notification({
+      title: alert.title,
+      body: alert.message,
+      icon: path.join(__dirname, '..', 'assets', 'icon.png'),
+    });
+    notification.show();
+    addLog(`Notification: ${alert.message}`);
+  });
+}
+
+let statusServerError: string | null = null;
+
+function getStatusServerToken(): string {
+  let token = store.get('statusServerToken', '');
+  if (!token) {
+    token = generateToken();
+    store.set('statusServerToken', token);
+  }
+  return token;
+}
+
+// Start, restart or stop the localhost status server to match the settings
+async function applyStatusServerSettings() {
+  if (!store.get('statusServerEnabled', false)) {
+    await stopStatusServer();
+    statusServerError = null;
+    return;
+  }
+
+  const port = store.get('statusServerPort', DEFAULT_STATUS_PORT);
+  try {
+    await startStatusServer({
+      port,
+      token: getStatusServerToken(),
+      getState: () => ({ accounts: lastAccountUsages, billingInfo: lastBillingInfo, lastRefresh: lastRefreshAt }),
+      queryHistory,
+    });
+    statusServerError = null;
+    addLog(`Status server listening on 127.0.0.1:${port}`);
+  } catch (error) {
+    statusServerError = error instanceof Error ? error.message : String(error);
+    addLog(`Status server failed to start: ${statusServerError}`);
+  }
+}
+
+function getStatusServerInfo() {
+  return {
+    running: isStatusServerRunning(),
+    port: store.get('statusServerPort', DEFAULT_STATUS_PORT),
+    token: getStatusServerToken(),
+    error: statusServerError,
+  };
+}
+
+// Status as the CLI sees it - the same numbers the popup shows.
+// The CLI gives up after a few seconds, so API spend comes from the cache and a stale
+// or empty cache is refreshed in the background for the next call
+let cliApiSpendRefresh: Promise<unknown> | null = null;
+
+function getCliStatus() {
+  const hasAdminKey = !!getAdminKey();
+  if (hasAdminKey && !cliApiSpendRefresh) {
+    cliApiSpendRefresh = getApiSpend().finally(() => {
+      cliApiSpendRefresh = null;
+    });
+  }
+  return {
+    lastRefresh: lastRefreshAt,
+    accounts: lastAccountUsages,
+    billingInfo: lastBillingInfo,
+    apiSpend: hasAdminKey ? apiSpendCache : null,
+  };
+}
+
+function findAccount(nameOrId?: string): ClaudeAccount | undefined {
+  if (!nameOrId) return getAccounts()[0];
+  return getAccount(nameOrId)
+    || getAccounts().find(account => account.nickname.toLowerCase() === nameOrId.toLowerCase());
+}
+
+// Requests from the claude-usage command-line client
+async function handleControlRequest(request: ControlRequest): Promise<unknown> {
+  switch (request.command) {
+    case 'status':
+      return getCliStatus();
+    case 'refresh':
+      addLog('Refresh requested from CLI');
+      await refreshAllData();
+      return getCliStatus();
+    case 'login': {
+      const account = findAccount(request.account);
+      if (!account) throw new Error(`No account named "${request.account}"`);
+      const success = await loginAccount(account);
+      updateTrayMenu();
+      if (success) refreshAllData();
+      return success;
+    }
+    default:
+      throw new Error(`Unknown command: ${String(request.command)}`);
   }
 }
 
@@ -501,7 +1163,7 @@ function startAutoRefresh() {
 // IPC Handlers
 ipcMain.handle('claude-max:get-usage', async () => {
   try {
-    return await scrapeClaudeUsage();
+    return await getClaudeUsage(store.get('dataSource', 'auto'));
   } catch (error) {
     console.error('Failed to get Claude usage:', error);
     return null;
@@ -512,24 +1174,215 @@ ipcMain.handle('claude-max:is-authenticated', async () => {
   return isAuthenticated();
 });
 
-ipcMain.handle('claude-max:login', async () => {
-  return openLoginWindow();
+ipcMain.handle('claude-max:login', async (_event, accountId?: string) => {
+  const account = getAccount(accountId || DEFAULT_ACCOUNT_ID);
+  if (!account) return false;
+  const success = await loginAccount(account);
+  updateTrayMenu();
+  return success;
+});
+
+ipcMain.handle('accounts:list', () => {
+  return getAccounts();
+});
+
+// New accounts go straight to their own login window
+ipcMain.handle('accounts:add', async (_event, nickname: string) => {
+  const account = addAccount(nickname);
+  addLog(`Account added: ${account.nickname}`);
+  loginAccount(account).then(() => {
+    updateTrayMenu();
+    refreshAllData();
+  });
+  return account;
+});
+
+ipcMain.handle('accounts:rename', (_event, accountId: string, nickname: string) => {
+  renameAccount(accountId, nickname);
+  updateTrayMenu();
+  return getAccounts();
+});
+
+ipcMain.handle('accounts:remove', async (_event, accountId: string) => {
+  const removed = removeAccount(accountId);
+  if (removed) {
+    await logout(removed.partition);
+    removeAccountHistory(removed.id);
+    addLog(`Account removed: ${removed.nickname}`);
+    updateTrayMenu();
+    refreshAllData();
+  }
+  return getAccounts();
+});
+
+ipcMain.handle('claude-max:logout', async (_event, accountId?: string) => {
+  const account = getAccount(accountId || DEFAULT_ACCOUNT_ID);
+  if (!account) return;
+  await logout(account.partition);
+  addLog(getAccounts().length > 1 ? `Logged out of Claude (${account.nickname})` : 'Logged out of Claude');
+  updateTrayMenu();
+  refreshAllData();
 });
 
 ipcMain.handle('platform:login', async () => {
   return openPlatformLoginWindow();
 });
 
+ipcMain.handle('platform:logout', async () => {
+  await logoutPlatform();
+  addLog('Logged out of Platform');
+  updateTrayMenu();
+  refreshAllData();
+});
+
 ipcMain.handle('app:refresh-all', async () => {
   await refreshAllData();
 });
 
 ipcMain.handle('app:get-admin-key-status', () => {
-  const key = process.env.ANTHROPIC_ADMIN_KEY;
-  return {
-    configured: !!key && key.startsWith('sk-ant-admin'),
-    hint: key ? `${key.substring(0, 15)}...` : null,
-  };
+  return getAdminKeyStatus();
+});
+
+ipcMain.handle('admin-key:save', async (_event, key: string) => {
+  const result = await saveAdminKey(key);
+  if (result.success) {
+    apiSpendCache = null;
+    apiUsageCache = null;
+    clearDirectory();
+    addLog('Admin key saved');
+  } else {
+    addLog(`Admin key rejected: ${result.error}`);
+  }
+  return result;
+});
+
+ipcMain.handle('admin-key:delete', () => {
+  deleteAdminKey();
+  apiSpendCache = null;
+  apiUsageCache = null;
+  clearDirectory();
+  addLog('Admin key removed');
+  return getAdminKeyStatus();
+});
+
+// The error is reported next to the (possibly stale) summary so the popup can say why
+ipcMain.handle('admin-api:get-spend', async (_event, force?: boolean) => {
+  const summary = await getApiSpend(!!force);
+  return { summary, error: apiSpendError };
+});
+
+ipcMain.handle('admin-api:get-efficiency', async (_event, force?: boolean) => {
+  const report = await getEfficiencyReport(!!force);
+  return { report, error: apiSpendError };
+});
+
+ipcMain.handle('reports:open', () => {
+  openReportExplorer();
+});
+
+// Errors come back as data so the explorer can tell a bad key from a rate limit
+ipcMain.handle('reports:run', async (_event, query: ReportQuery) => {
+  const adminKey = getAdminKey();
+  if (!adminKey) {
+    return { result: null, error: { kind: 'auth', message: 'No Admin API key configured' } };
+  }
+  try {
+    return { result: await runReport(adminKey, query), error: null };
+  } catch (error) {
+    return { result: null, error: toAdminApiErrorInfo(error) };
+  }
+});
+
+ipcMain.handle('reports:get-presets', () => {
+  return getReportPresets();
+});
+
+ipcMain.handle('reports:save-preset', (_event, name: string, query: ReportQuery) => {
+  return saveReportPreset(name, query);
+});
+
+ipcMain.handle('reports:delete-preset', (_event, id: string) => {
+  return deleteReportPreset(id);
+});
+
+ipcMain.handle('directory:get-status', () => {
+  return getDirectoryStatus();
+});
+
+// Fetch workspace and API key names now instead of waiting for the daily refresh
+ipcMain.handle('directory:refresh', async () => {
+  const adminKey = getAdminKey();
+  if (!adminKey) return getDirectoryStatus();
+  await refreshDirectory(adminKey);
+  const status = getDirectoryStatus();
+  addLog(status.error
+    ? `Workspace and API key names not refreshed (${status.error.kind}): ${status.error.message}`
+    : `Workspace and API key names refreshed: ${status.workspaces} workspaces, ${status.apiKeys} keys`);
+  return status;
+});
+
+ipcMain.handle('pricing:get-table', () => {
+  return getPriceTable();
+});
+
+ipcMain.handle('pricing:save-version', (_event, table: Omit<PriceTableVersion, 'version'>) => {
+  try {
+    const versions = savePriceTableVersion(table);
+    addLog(`Price table version ${Math.max(...versions.map(v => v.version))} saved`);
+    return { versions, error: null };
+  } catch (error) {
+    return { versions: getPriceTable(), error: error instanceof Error ? error.message : String(error) };
+  }
+});
+
+ipcMain.handle('pricing:delete-version', (_event, version: number) => {
+  return deletePriceTableVersion(version);
+});
+
+ipcMain.handle('pricing:reset', () => {
+  return resetPriceTable();
+});
+
+ipcMain.handle('pricing:estimate', async (_event, request: EstimateRequest) => {
+  const adminKey = getAdminKey();
+  if (!adminKey) {
+    return { estimate: null, error: { kind: 'auth', message: 'No Admin API key configured' } };
+  }
+  try {
+    return { estimate: await runCostEstimate(adminKey, request), error: null };
+  } catch (error) {
+    return { estimate: null, error: toAdminApiErrorInfo(error) };
+  }
+});
+
+ipcMain.handle('history:query', (_event, query?: HistoryQuery) => {
+  return queryHistory(query);
+});
+
+ipcMain.handle('export:run', (_event, request: ExportRequest) => {
+  return exportData(request);
+});
+
+ipcMain.handle('history:clear', () => {
+  clearHistory();
+  addLog('Usage history cleared');
+});
+
+// Sends a sample alert through a webhook from the Settings form, saved or not
+ipcMain.handle('webhooks:test', async (_event, webhook: WebhookConfig) => {
+  const result = await sendWebhook(webhook, {
+    kind: 'test',
+    title: 'Claude Usage Test',
+    message: 'Webhook is working: Current session 42% used',
+    account: getAccounts()[0]?.nickname || 'Claude',
+    label: 'Current session',
+    percentage: 42,
+    timestamp: new Date().toISOString(),
+  }, { retries: 0 });
+  addLog(result.success
+    ? `Webhook ${describeWebhook(webhook)} test sent`
+    : `Webhook ${describeWebhook(webhook)} test failed: ${result.error}`);
+  return result;
 });
 
 ipcMain.handle('app:get-settings', () => {
@@ -537,13 +1390,55 @@ ipcMain.handle('app:get-settings', () => {
     refreshInterval: store.get('refreshInterval', 60),
     autoStart: store.get('autoStart', false),
     notificationThreshold: store.get('notificationThreshold', 80),
+    notificationRules: store.get('notificationRules', DEFAULT_NOTIFICATION_RULES),
+    quietHours: store.get('quietHours', DEFAULT_QUIET_HOURS),
+    webhooks: store.get('webhooks', []),
+    projectionAlerts: store.get('projectionAlerts', true),
+    dataSource: store.get('dataSource', 'auto'),
+    trayIconStyle: store.get('trayIconStyle', 'ring'),
+    trayIconShowPercentage: store.get('trayIconShowPercentage', true),
+    trayIconBar: store.get('trayIconBar', 'highest'),
+    statusServerEnabled: store.get('statusServerEnabled', false),
+    statusServerPort: store.get('statusServerPort', DEFAULT_STATUS_PORT),
+    budgets: store.get('budgets', []),
+    lowBalanceThreshold: store.get('lowBalanceThreshold', 0),
   };
 });
 
+ipcMain.handle('status-server:get-info', () => {
+  return getStatusServerInfo();
+});
+
+ipcMain.handle('status-server:regenerate-token', async () => {
+  store.set('statusServerToken', generateToken());
+  await applyStatusServerSettings();
+  return getStatusServerInfo();
+});
+
 ipcMain.handle('app:save-settings', async (_event, settings: AppSettings) => {
   store.set('refreshInterval', settings.refreshInterval);
   store.set('autoStart', settings.autoStart);
   store.set('notificationThreshold', settings.notificationThreshold);
+  store.set('notificationRules', settings.notificationRules);
+  store.set('quietHours', settings.quietHours);
+  store.set('webhooks', settings.webhooks);
+  store.set('projectionAlerts', settings.projectionAlerts);
+  store.set('dataSource', settings.dataSource);
+  store.set('trayIconStyle', settings.trayIconStyle);
+  store.set('trayIconShowPercentage', settings.trayIconShowPercentage);
+  store.set('trayIconBar', settings.trayIconBar);
+  store.set('budgets', settings.budgets);
+  store.set('lowBalanceThreshold', settings.lowBalanceThreshold);
+  // Budget changes should show up on the next refresh, not after the cache expires
+  budgetCostCache = null;
+  const statusServerChanged = settings.statusServerEnabled !== store.get('statusServerEnabled', false) ||
+    settings.statusServerPort !== store.get('statusServerPort', DEFAULT_STATUS_PORT);
+  store.set('statusServerEnabled', settings.statusServerEnabled);
+  store.set('statusServerPort', settings.statusServerPort);
+  if (statusServerChanged) {
+    await applyStatusServerSettings();
+  }
+  updateTrayIcon(lastAccountUsages);
   
   // Restart auto-refresh with new interval
   startAutoRefresh();
@@ -571,9 +1466,14 @@ ipcMain.on('window:hide', () => {
 
 // App lifecycle
 app.whenReady().then(() => {
+  initHistory(path.join(app.getPath('userData'), 'usage-history.jsonl'));
   createWindow();
   createTray();
   startAutoRefresh();
+  applyStatusServerSettings();
+  startControlServer(handleControlRequest).catch(error => {
+    addLog(`CLI socket unavailable: ${error instanceof Error ? error.message : String(error)}`);
+  });
 
   app.on('activate', () => {
     if (BrowserWindow.getAllWindows().length === 0) {
@@ -592,6 +1492,8 @@ app.on('before-quit', () => {
   if (refreshInterval) {
     clearInterval(refreshInterval);
   }
+  stopStatusServer();
+  stopControlServer();
 });
 
 // Hide dock icon on macOS (menu bar app)
@@ -0,0 +1,149 @@
+// Per-bar usage notification rules. Evaluation is pure; the state it works from is persisted
+// so a restart doesn't repeat alerts that were already shown.
+import Store from 'electron-store';
+
+export interface NotificationRule {
+  label: string;             // Bar label, matched case-insensitively
+  levels: number[];          // Percentages that each trigger one notification, lowest first
+  notifyOnIncrease: boolean; // Notify on every increase (e.g. paid extra usage)
+  notifyOnReset: boolean;    // Notify when the bar drops back after an alert
+}
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // "HH:MM", local time
+  end: string;   // "HH:MM", may be earlier than start to span midnight
+}
+
+export interface BarNotificationState {
+  level: number;          // Highest level already notified in the current window (0 = none)
+  lastPercentage: number;
+}
+
+export type NotificationEventKind = 'level' | 'increase' | 'reset';
+
+export interface NotificationEvent {
+  kind: NotificationEventKind;
+  percentage: number;
+  previous: number;
+  level?: number;
+}
+
+export const DEFAULT_NOTIFICATION_RULES: NotificationRule[] = [
+  { label: 'Current session', levels: [50, 80, 95], notifyOnIncrease: false, notifyOnReset: true },
+  { label: 'Extra usage', levels: [], notifyOnIncrease: true, notifyOnReset: false },
+];
+
+export const DEFAULT_QUIET_HOURS: QuietHours = { enabled: false, start: '22:00', end: '08:00' };
+
+// A drop this large (or to zero) means the limit window rolled over
+const RESET_DROP = 10;
+
+export function findRule(rules: NotificationRule[], label: string): NotificationRule | undefined {
+  return rules.find(rule => rule.label.toLowerCase() === label.toLowerCase());
+}
+
+// Bars without their own rule use the global threshold as a single level
+export function getRuleForBar(rules: NotificationRule[], label: string, defaultThreshold: number): NotificationRule {
+  return findRule(rules, label) || {
+    label,
+    levels: defaultThreshold > 0 ? [defaultThreshold] : [],
+    notifyOnIncrease: false,
+    notifyOnReset: false,
+  };
+}
+
+// Only the highest newly crossed level fires, so a jump from 40% to 96% is one alert
+export function evaluateBar(
+  rule: NotificationRule,
+  state: BarNotificationState | undefined,
+  percentage: number
+): { events: NotificationEvent[]; state: BarNotificationState } {
+  const previous = state?.lastPercentage ?? percentage;
+  let level = state?.level ?? 0;
+  const events: NotificationEvent[] = [];
+  const levels = [...rule.levels].sort((a, b) => a - b);
+
+  const isReset = percentage < previous && (previous - percentage >= RESET_DROP || percentage === 0);
+  if (isReset) {
+    if (rule.notifyOnReset && (level > 0 || (levels.length > 0 && previous >= levels[0]))) {
+      events.push({ kind: 'reset', percentage, previous });
+    }
+    // Re-arm every level above the new percentage
+    level = Math.max(0, ...levels.filter(l => l <= percentage));
+  }
+
+  const crossed = levels.filter(l => l > level && percentage >= l);
+  if (crossed.length > 0) {
+    level = crossed[crossed.length - 1];
+    // Nothing to announce on the very first reading, just remember where we are
+    if (state) {
+      events.push({ kind: 'level', percentage, previous, level });
+    }
+  }
+
+  if (rule.notifyOnIncrease && state && percentage > previous && crossed.length === 0) {
+    events.push({ kind: 'increase', percentage, previous });
+  }
+
+  return { events, state: { level, lastPercentage: percentage } };
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+export function isQuietTime(quietHours: QuietHours, now: Date = new Date()): boolean {
+  if (!quietHours.enabled) return false;
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  const current = now.getHours() * 60 + now.getMinutes();
+  if (start === end) return false;
+  return start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+}
+
+interface NotificationStore {
+  bars: Record<string, BarNotificationState>; // Keyed by `${accountId}:${label}`
+  snoozedUntil: number;
+}
+
+const notificationStore = new Store<NotificationStore>({
+  name: 'notification-state',
+  defaults: {
+    bars: {},
+    snoozedUntil: 0,
+  },
+});
+
+export function getBarState(key: string): BarNotificationState | undefined {
+  return notificationStore.get('bars')[key];
+}
+
+// Called for every bar on every refresh; most refreshes change nothing, so skip rewriting the file
+export function setBarState(key: string, state: BarNotificationState): void {
+  const bars = notificationStore.get('bars');
+  const current = bars[key];
+  if (current && current.level === state.level && current.lastPercentage === state.lastPercentage) return;
+  notificationStore.set('bars', { ...bars, [key]: state });
+}
+
+export function getSnoozedUntil(): number {
+  return notificationStore.get('snoozedUntil');
+}
+
+export function snoozeNotifications(durationMs: number): number {
+  const until = Date.now() + durationMs;
+  notificationStore.set('snoozedUntil', until);
+  return until;
+}
+
+export function resumeNotifications(): void {
+  notificationStore.set('snoozedUntil', 0);
+}
+
+export function isSnoozed(now: number = Date.now()): boolean {
+  return getSnoozedUntil() > now;
+}
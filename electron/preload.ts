@@ -1,14 +1,26 @@
 import { contextBridge, ipcRenderer } from 'electron';
 
+export interface BarProjection {
+  burnRatePerHour: number;
+  exhaustsAt: string | null;
+  resetsAt: string | null;
+  projectedAtReset: number | null;
+  exhaustsBeforeReset: boolean;
+  marginMs: number | null;
+}
+
 export interface ClaudeMaxUsage {
   standard: { used: number; limit: number; percentage: number };
   advanced: { used: number; limit: number; percentage: number };
-  bars?: Array<{ used: number; limit: number; percentage: number; label?: string; context?: string }>;
+  bars?: Array<{ used: number; limit: number; percentage: number; label?: string; context?: string; resetsAt?: string; projection?: BarProjection }>;
   resetDate: string | null;
   lastUpdated: string;
   isAuthenticated: boolean;
   plan?: string;
   email?: string;
+  parseWarnings?: string[];
+  source?: 'api' | 'labelled' | 'fallback';
+  confidence?: 'high' | 'medium' | 'low';
 }
 
 export interface BillingInfo {
@@ -17,24 +29,386 @@ export interface BillingInfo {
   lastUpdated: string;
 }
 
+export interface ClaudeAccount {
+  id: string;
+  nickname: string;
+  partition: string;
+}
+
+export interface AccountUsage {
+  accountId: string;
+  nickname: string;
+  usage: ClaudeMaxUsage | null;
+}
+
+export interface AdminApiErrorInfo {
+  kind: 'auth' | 'permission' | 'rate-limited' | 'server' | 'network' | 'request';
+  message: string;
+  status?: number;
+}
+
+export interface ApiSpendResult {
+  summary: ApiSpendSummary | null;
+  error: AdminApiErrorInfo | null;
+}
+
+export interface EfficiencyResult {
+  report: EfficiencyReport | null;
+  error: AdminApiErrorInfo | null;
+}
+
+export type NameState = 'active' | 'inactive' | 'archived' | 'deleted';
+
+export interface ResolvedName {
+  name: string;
+  state: NameState;
+}
+
+export type NameMap = Record<string, ResolvedName>;
+
+export interface DirectoryStatus {
+  workspaces: number;
+  apiKeys: number;
+  fetchedAt: string | null;
+  error: AdminApiErrorInfo | null;
+}
+
+export type ReportDimension = 'api_key_id' | 'workspace_id' | 'model' | 'service_tier' | 'context_window';
+export type ReportBucketWidth = '1d' | '1h' | '1m';
+export type ReportRange = 'custom' | '24h' | '7d' | '30d';
+
+export interface ReportQuery {
+  range: ReportRange;
+  from: string;
+  to: string;
+  bucketWidth: ReportBucketWidth;
+  groupBy: ReportDimension[];
+  filters: {
+    models: string[];
+    workspaceIds: string[];
+    apiKeyIds: string[];
+    serviceTiers: Array<'standard' | 'batch' | 'priority'>;
+  };
+}
+
+export interface ReportRow {
+  bucketStart: string;
+  group: Partial<Record<ReportDimension, string>>;
+  uncachedInputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  webSearchRequests: number;
+}
+
+export interface ReportResult {
+  startingAt: string;
+  endingAt: string;
+  bucketWidth: ReportBucketWidth;
+  groupBy: ReportDimension[];
+  rows: ReportRow[];
+  names: NameMap;
+  truncated: boolean;
+}
+
+export interface ReportRunResult {
+  result: ReportResult | null;
+  error: AdminApiErrorInfo | null;
+}
+
+export interface ReportPreset {
+  id: string;
+  name: string;
+  query: ReportQuery;
+}
+
+export interface ModelPrice {
+  model: string;
+  input: number;
+  output: number;
+  cacheWrite5m: number;
+  cacheWrite1h: number;
+  cacheRead: number;
+}
+
+export interface PriceTableVersion {
+  version: number;
+  effectiveFrom: string;
+  note: string;
+  batchDiscount: number;
+  webSearchPerThousand: number;
+  models: ModelPrice[];
+}
+
+export interface PriceTableSaveResult {
+  versions: PriceTableVersion[];
+  error: string | null;
+}
+
+export interface EstimateRequest {
+  range: ReportRange;
+  from: string;
+  to: string;
+  groupBy: ReportDimension[];
+}
+
+export interface EstimateRow {
+  group: Partial<Record<ReportDimension, string>>;
+  cost: number;
+  inputTokens: number;
+  outputTokens: number;
+  unpricedTokens: number;
+}
+
+export interface ReconciliationRow {
+  model: string;
+  estimated: number;
+  actual: number | null;
+  difference: number | null;
+}
+
+export interface CostEstimate {
+  startingAt: string;
+  endingAt: string;
+  groupBy: ReportDimension[];
+  rows: EstimateRow[];
+  names: NameMap;
+  estimatedTotal: number;
+  actualTotal: number | null;
+  difference: number | null;
+  byModel: ReconciliationRow[];
+  unpricedModels: string[];
+  priceVersions: number[];
+  truncated: boolean;
+}
+
+export interface CostEstimateResult {
+  estimate: CostEstimate | null;
+  error: AdminApiErrorInfo | null;
+}
+
 export interface RefreshData {
   claudeUsage: ClaudeMaxUsage | null;
+  accounts: AccountUsage[];
   billingInfo: BillingInfo | null;
+  budgetReport: BudgetReport;
+  timestamp: string;
+}
+
+export interface Budget {
+  id: string;
+  scope: 'total' | 'workspace' | 'model';
+  target: string;
+  monthlyLimit: number;
+}
+
+export interface BudgetStatus {
+  budget: Budget;
+  spent: number;
+  projected: number | null;
+  state: 'ok' | 'warning' | 'projected-over' | 'over';
+}
+
+export interface BudgetReport {
+  month: string;
+  spent: number | null;
+  projected: number | null;
+  budgets: BudgetStatus[];
+  creditBalance: number | null;
+  lowBalanceThreshold: number;
+  lowBalance: boolean;
+  lastUpdated: string;
+}
+
+export interface TokenTotals {
+  input: number;
+  output: number;
+  cached: number;
+  cacheWrite: number;
+  total: number;
+  webSearches: number;
+}
+
+export interface ApiSpendSummary {
+  periodStart: string;
+  periodEnd: string;
+  totalCost: number;
+  costByModel: Record<string, number>;
+  tokenTotals: TokenTotals;
+  usageByModel: Record<string, TokenTotals>;
+  creditBalance: number | null;
+  lastUpdated: string;
+}
+
+export interface EfficiencyMetrics {
+  uncachedInputTokens: number;
+  cacheWrite5mTokens: number;
+  cacheWrite1hTokens: number;
+  cacheReadTokens: number;
+  outputTokens: number;
+  webSearchRequests: number;
+  inputTokens: number;
+  cacheHitRatio: number | null;
+  cacheReadWriteRatio: number | null;
+  inputOutputRatio: number | null;
+}
+
+export interface EfficiencyPoint extends EfficiencyMetrics {
+  date: string;
+}
+
+export interface EfficiencyGroup {
+  key: string;
+  totals: EfficiencyMetrics;
+  daily: EfficiencyPoint[];
+}
+
+export interface EfficiencyReport {
+  periodStart: string;
+  periodEnd: string;
+  totals: EfficiencyMetrics;
+  daily: EfficiencyPoint[];
+  byModel: EfficiencyGroup[];
+  byWorkspace: EfficiencyGroup[];
+  workspaceNames: NameMap;
+  lastUpdated: string;
+}
+
+export interface AdminKeyStatus {
+  configured: boolean;
+  hint: string | null;
+  source: 'settings' | 'env' | null;
+  encryptionAvailable: boolean;
+}
+
+export interface AdminKeyResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface UsageSnapshot {
   timestamp: string;
+  accountId?: string;
+  plan?: string;
+  email?: string;
+  bars: Array<{ label: string; percentage: number; context?: string }>;
+  creditBalance: number | null;
+}
+
+export interface HistoryQuery {
+  from?: string;
+  to?: string;
+  label?: string;
+  accountId?: string;
+  limit?: number;
+}
+
+export interface ExportRequest {
+  dataset: 'usage-history' | 'daily-costs' | 'token-totals';
+  format: 'csv' | 'json';
+  from: string;
+  to: string;
+}
+
+export interface ExportResult {
+  success: boolean;
+  canceled?: boolean;
+  filePath?: string;
+  rows?: number;
+  error?: string;
+}
+
+export interface NotificationRule {
+  label: string;
+  levels: number[];
+  notifyOnIncrease: boolean;
+  notifyOnReset: boolean;
+}
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string;
+  end: string;
+}
+
+export interface WebhookConfig {
+  id: string;
+  name: string;
+  url: string;
+  format: 'json' | 'slack' | 'discord';
+  template: string;
+  enabled: boolean;
+}
+
+export interface WebhookResult {
+  success: boolean;
+  attempts: number;
+  status?: number;
+  error?: string;
 }
 
 export interface AppSettings {
   refreshInterval: number;
   autoStart: boolean;
+  notificationThreshold: number;
+  notificationRules: NotificationRule[];
+  quietHours: QuietHours;
+  webhooks: WebhookConfig[];
+  projectionAlerts: boolean;
+  dataSource: 'auto' | 'api' | 'scraper';
+  trayIconStyle: 'ring' | 'bar' | 'static';
+  trayIconShowPercentage: boolean;
+  trayIconBar: string;
+  statusServerEnabled: boolean;
+  statusServerPort: number;
+  budgets: Budget[];
+  lowBalanceThreshold: number;
+}
+
+export interface StatusServerInfo {
+  running: boolean;
+  port: number;
+  token: string;
+  error: string | null;
 }
 
 export interface ElectronAPI {
   getClaudeMaxUsage: () => Promise<ClaudeMaxUsage | null>;
   isClaudeAuthenticated: () => Promise<boolean>;
-  openClaudeLogin: () => Promise<boolean>;
+  openClaudeLogin: (accountId?: string) => Promise<boolean>;
+  logoutClaude: (accountId?: string) => Promise<void>;
   openPlatformLogin: () => Promise<boolean>;
+  logoutPlatform: () => Promise<void>;
   refreshAll: () => Promise<void>;
   onDataRefresh: (callback: (data: RefreshData) => void) => () => void;
+  getAccounts: () => Promise<ClaudeAccount[]>;
+  addAccount: (nickname: string) => Promise<ClaudeAccount>;
+  renameAccount: (accountId: string, nickname: string) => Promise<ClaudeAccount[]>;
+  removeAccount: (accountId: string) => Promise<ClaudeAccount[]>;
+  getAdminKeyStatus: () => Promise<AdminKeyStatus>;
+  saveAdminKey: (key: string) => Promise<AdminKeyResult>;
+  deleteAdminKey: () => Promise<AdminKeyStatus>;
+  getApiSpend: (force?: boolean) => Promise<ApiSpendResult>;
+  getEfficiencyReport: (force?: boolean) => Promise<EfficiencyResult>;
+  openReportExplorer: () => Promise<void>;
+  runReport: (query: ReportQuery) => Promise<ReportRunResult>;
+  getReportPresets: () => Promise<ReportPreset[]>;
+  saveReportPreset: (name: string, query: ReportQuery) => Promise<ReportPreset[]>;
+  deleteReportPreset: (id: string) => Promise<ReportPreset[]>;
+  getDirectoryStatus: () => Promise<DirectoryStatus>;
+  refreshDirectory: () => Promise<DirectoryStatus>;
+  getPriceTable: () => Promise<PriceTableVersion[]>;
+  savePriceTableVersion: (table: Omit<PriceTableVersion, 'version'>) => Promise<PriceTableSaveResult>;
+  deletePriceTableVersion: (version: number) => Promise<PriceTableVersion[]>;
+  resetPriceTable: () => Promise<PriceTableVersion[]>;
+  estimateCost: (request: EstimateRequest) => Promise<CostEstimateResult>;
+  getHistory: (query?: HistoryQuery) => Promise<UsageSnapshot[]>;
+  clearHistory: () => Promise<void>;
+  exportData: (request: ExportRequest) => Promise<ExportResult>;
+  testWebhook: (webhook: WebhookConfig) => Promise<WebhookResult>;
+  getStatusServerInfo: () => Promise<StatusServerInfo>;
+  regenerateStatusServerToken: () => Promise<StatusServerInfo>;
   getSettings: () => Promise<AppSettings>;
   saveSettings: (settings: AppSettings) => Promise<void>;
   setAutoStart: (enabled: boolean) => Promise<void>;
@@ -44,8 +418,10 @@ export interface ElectronAPI {
 const electronAPI: ElectronAPI = {
   getClaudeMaxUsage: () => ipcRenderer.invoke('claude-max:get-usage'),
   isClaudeAuthenticated: () => ipcRenderer.invoke('claude-max:is-authenticated'),
-  openClaudeLogin: () => ipcRenderer.invoke('claude-max:login'),
+  openClaudeLogin: (accountId?: string) => ipcRenderer.invoke('claude-max:login', accountId),
+  logoutClaude: (accountId?: string) => ipcRenderer.invoke('claude-max:logout', accountId),
   openPlatformLogin: () => ipcRenderer.invoke('platform:login'),
+  logoutPlatform: () => ipcRenderer.invoke('platform:logout'),
   refreshAll: () => ipcRenderer.invoke('app:refresh-all'),
   onDataRefresh: (callback: (data: RefreshData) => void) => {
     const listener = (_event: Electron.IpcRendererEvent, data: RefreshData) => callback(data);
@@ -54,6 +430,33 @@ const electronAPI: ElectronAPI = {
       ipcRenderer.removeListener('app:data-updated', listener);
     };
   },
+  getAccounts: () => ipcRenderer.invoke('accounts:list'),
+  addAccount: (nickname: string) => ipcRenderer.invoke('accounts:add', nickname),
+  renameAccount: (accountId: string, nickname: string) => ipcRenderer.invoke('accounts:rename', accountId, nickname),
+  removeAccount: (accountId: string) => ipcRenderer.invoke('accounts:remove', accountId),
+  getAdminKeyStatus: () => ipcRenderer.invoke('app:get-admin-key-status'),
+  saveAdminKey: (key: string) => ipcRenderer.invoke('admin-key:save', key),
+  deleteAdminKey: () => ipcRenderer.invoke('admin-key:delete'),
+  getApiSpend: (force?: boolean) => ipcRenderer.invoke('admin-api:get-spend', force),
+  getEfficiencyReport: (force?: boolean) => ipcRenderer.invoke('admin-api:get-efficiency', force),
+  openReportExplorer: () => ipcRenderer.invoke('reports:open'),
+  runReport: (query: ReportQuery) => ipcRenderer.invoke('reports:run', query),
+  getReportPresets: () => ipcRenderer.invoke('reports:get-presets'),
+  saveReportPreset: (name: string, query: ReportQuery) => ipcRenderer.invoke('reports:save-preset', name, query),
+  deleteReportPreset: (id: string) => ipcRenderer.invoke('reports:delete-preset', id),
+  getDirectoryStatus: () => ipcRenderer.invoke('directory:get-status'),
+  refreshDirectory: () => ipcRenderer.invoke('directory:refresh'),
+  getPriceTable: () => ipcRenderer.invoke('pricing:get-table'),
+  savePriceTableVersion: (table: Omit<PriceTableVersion, 'version'>) => ipcRenderer.invoke('pricing:save-version', table),
+  deletePriceTableVersion: (version: number) => ipcRenderer.invoke('pricing:delete-version', version),
+  resetPriceTable: () => ipcRenderer.invoke('pricing:reset'),
+  estimateCost: (request: EstimateRequest) => ipcRenderer.invoke('pricing:estimate', request),
+  getHistory: (query?: HistoryQuery) => ipcRenderer.invoke('history:query', query),
+  clearHistory: () => ipcRenderer.invoke('history:clear'),
+  exportData: (request: ExportRequest) => ipcRenderer.invoke('export:run', request),
+  testWebhook: (webhook: WebhookConfig) => ipcRenderer.invoke('webhooks:test', webhook),
+  getStatusServerInfo: () => ipcRenderer.invoke('status-server:get-info'),
+  regenerateStatusServerToken: () => ipcRenderer.invoke('status-server:regenerate-token'),
   getSettings: () => ipcRenderer.invoke('app:get-settings'),
   saveSettings: (settings: AppSettings) => ipcRenderer.invoke('app:save-settings', settings),
   setAutoStart: (enabled: boolean) => ipcRenderer.invoke('app:set-auto-start', enabled),
@@ -0,0 +1,324 @@
+// Estimated cost from token usage with a local, user-editable price table. The cost report
+// can't be grouped by API key, so spend per key (or any other usage dimension) is estimated
+// here and the estimate is checked against the real cost report for the same days.
+import Store from 'electron-store';
+import {
+  getFullUsageReport, getFullCostReport, getCostByModel, calculateTotalCost,
+  UsageReportResponse, UsageResult, CostReportResponse, AdminApiOptions,
+} from './adminApi';
+import type { ReportDimension, ReportRange } from './reportExplorer';
+import { ensureDirectory, buildNameMap, Directory, NameMap } from './directory';
+
+// USD per million tokens
+export interface ModelPrice {
+  model: string; // Prefix of the model name; the longest matching prefix wins
+  input: number;
+  output: number;
+  cacheWrite5m: number;
+  cacheWrite1h: number;
+  cacheRead: number;
+}
+
+// Prices change over time, so each edit is saved as a new version that applies from
+// effectiveFrom on. Usage is priced with the version in effect on its day.
+export interface PriceTableVersion {
+  version: number;
+  effectiveFrom: string; // YYYY-MM-DD, UTC
+  note: string;
+  batchDiscount: number;        // Share taken off batch usage, 0.5 = half price
+  webSearchPerThousand: number; // USD per 1,000 web searches
+  models: ModelPrice[];
+}
+
+export interface EstimateRequest {
+  range: ReportRange;
+  from: string; // ISO timestamps, used when range is 'custom'
+  to: string;
+  groupBy: ReportDimension[];
+}
+
+export interface EstimateRow {
+  group: Partial<Record<ReportDimension, string>>;
+  cost: number; // USD
+  inputTokens: number;
+  outputTokens: number;
+  unpricedTokens: number; // Tokens of models missing from the price table
+}
+
+export interface ReconciliationRow {
+  model: string;
+  estimated: number;
+  actual: number | null; // Null when the cost report has nothing under this model
+  difference: number | null; // estimated - actual
+}
+
+export interface CostEstimate {
+  startingAt: string;
+  endingAt: string;
+  groupBy: ReportDimension[];
+  rows: EstimateRow[]; // Largest cost first
+  names: NameMap;      // Workspace and API key names for the grouped ids
+  estimatedTotal: number;
+  actualTotal: number | null; // Null when the cost report failed
+  difference: number | null;
+  byModel: ReconciliationRow[];
+  unpricedModels: string[];
+  priceVersions: number[]; // Versions used for the range
+  truncated: boolean;
+}
+
+const MILLION = 1_000_000;
+const DAY = 24 * 60 * 60 * 1000;
+
+// List prices when this table was written; edit them in the report window as they change
+export const DEFAULT_PRICE_TABLE: PriceTableVersion = {
+  version: 1,
+  effectiveFrom: '2024-01-01',
+  note: 'Built-in list prices',
+  batchDiscount: 0.5,
+  webSearchPerThousand: 10,
+  models: [
+    { model: 'claude-opus-4-5', input: 5, output: 25, cacheWrite5m: 6.25, cacheWrite1h: 10, cacheRead: 0.5 },
+    { model: 'claude-opus-4', input: 15, output: 75, cacheWrite5m: 18.75, cacheWrite1h: 30, cacheRead: 1.5 },
+    { model: 'claude-sonnet-4', input: 3, output: 15, cacheWrite5m: 3.75, cacheWrite1h: 6, cacheRead: 0.3 },
+    { model: 'claude-3-7-sonnet', input: 3, output: 15, cacheWrite5m: 3.75, cacheWrite1h: 6, cacheRead: 0.3 },
+    { model: 'claude-haiku-4-5', input: 1, output: 5, cacheWrite5m: 1.25, cacheWrite1h: 2, cacheRead: 0.1 },
+    { model: 'claude-3-5-haiku', input: 0.8, output: 4, cacheWrite5m: 1, cacheWrite1h: 1.6, cacheRead: 0.08 },
+    { model: 'claude-3-haiku', input: 0.25, output: 1.25, cacheWrite5m: 0.3, cacheWrite1h: 0.5, cacheRead: 0.03 },
+  ],
+};
+
+interface PriceTableStore {
+  versions: PriceTableVersion[];
+}
+
+const priceTableStore = new Store<PriceTableStore>({
+  name: 'price-table',
+  defaults: {
+    versions: [DEFAULT_PRICE_TABLE],
+  },
+});
+
+// Oldest first
+export function getPriceTable(): PriceTableVersion[] {
+  const versions = priceTableStore.get('versions');
+  return (versions.length > 0 ? versions : [DEFAULT_PRICE_TABLE])
+    .slice()
+    .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom) || a.version - b.version);
+}
+
+function isValidPrice(price: ModelPrice): boolean {
+  return !!price.model.trim()
+    && [price.input, price.output, price.cacheWrite5m, price.cacheWrite1h, price.cacheRead]
+      .every(value => Number.isFinite(value) && value >= 0);
+}
+
+// Saving never rewrites an earlier version; it adds the next version number
+export function savePriceTableVersion(table: Omit<PriceTableVersion, 'version'>): PriceTableVersion[] {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(table.effectiveFrom)) {
+    throw new Error('The effective date must be YYYY-MM-DD');
+  }
+  const models = table.models
+    .map(price => ({ ...price, model: price.model.trim() }))
+    .filter(price => price.model);
+  if (!models.every(isValidPrice)) {
+    throw new Error('Prices must be zero or more');
+  }
+
+  const versions = getPriceTable();
+  const version: PriceTableVersion = {
+    ...table,
+    version: Math.max(0, ...versions.map(v => v.version)) + 1,
+    batchDiscount: Math.min(Math.max(table.batchDiscount, 0), 1),
+    webSearchPerThousand: Math.max(table.webSearchPerThousand, 0),
+    models,
+  };
+  priceTableStore.set('versions', [...versions, version]);
+  return getPriceTable();
+}
+
+// The last remaining version can't be deleted
+export function deletePriceTableVersion(version: number): PriceTableVersion[] {
+  const versions = getPriceTable();
+  if (versions.length > 1) {
+    priceTableStore.set('versions', versions.filter(v => v.version !== version));
+  }
+  return getPriceTable();
+}
+
+export function resetPriceTable(): PriceTableVersion[] {
+  priceTableStore.set('versions', [DEFAULT_PRICE_TABLE]);
+  return getPriceTable();
+}
+
+// The latest version in effect on a date; usage from before the first version uses the first
+export function getPriceVersion(versions: PriceTableVersion[], date: string): PriceTableVersion {
+  let current = versions[0];
+  for (const version of versions) {
+    if (version.effectiveFrom <= date) current = version;
+  }
+  return current;
+}
+
+export function findModelPrice(version: PriceTableVersion, model: string): ModelPrice | null {
+  const name = model.toLowerCase();
+  let best: ModelPrice | null = null;
+  for (const price of version.models) {
+    if (name.startsWith(price.model.toLowerCase()) && (!best || price.model.length > best.model.length)) {
+      best = price;
+    }
+  }
+  return best;
+}
+
+// USD for one usage result, or null if its model has no price
+export function priceUsageResult(result: UsageResult, version: PriceTableVersion): number | null {
+  const price = result.model ? findModelPrice(version, result.model) : null;
+  if (!price) return null;
+
+  const tokens = (result.uncached_input_tokens || 0) * price.input
+    + (result.output_tokens || 0) * price.output
+    + (result.cache_creation?.ephemeral_5m_input_tokens || 0) * price.cacheWrite5m
+    + (result.cache_creation?.ephemeral_1h_input_tokens || 0) * price.cacheWrite1h
+    + (result.cache_read_input_tokens || 0) * price.cacheRead;
+  const discount = result.service_tier === 'batch' ? 1 - version.batchDiscount : 1;
+  const searches = (result.server_tool_use?.web_search_requests || 0) * version.webSearchPerThousand / 1000;
+
+  return tokens / MILLION * discount + searches;
+}
+
+function inputTokens(result: UsageResult): number {
+  return (result.uncached_input_tokens || 0)
+    + (result.cache_creation?.ephemeral_5m_input_tokens || 0)
+    + (result.cache_creation?.ephemeral_1h_input_tokens || 0)
+    + (result.cache_read_input_tokens || 0);
+}
+
+// Expects a daily usage report grouped by model and service_tier as well as groupBy
+export function estimateCost(
+  usageReport: UsageReportResponse,
+  costReport: CostReportResponse | null,
+  groupBy: ReportDimension[],
+  versions: PriceTableVersion[],
+  range: { startingAt: string; endingAt: string },
+  directory?: Directory
+): CostEstimate {
+  const rows = new Map<string, EstimateRow>();
+  const estimatedByModel: Record<string, number> = {};
+  const unpriced = new Set<string>();
+  const used = new Set<number>();
+
+  for (const bucket of usageReport.data) {
+    const version = getPriceVersion(versions, bucket.starting_at.split('T')[0]);
+    used.add(version.version);
+
+    for (const result of bucket.results) {
+      const group: Partial<Record<ReportDimension, string>> = {};
+      for (const dimension of groupBy) {
+        // A null workspace is the organization's default workspace
+        group[dimension] = result[dimension] || (dimension === 'workspace_id' ? 'default' : 'unknown');
+      }
+      const key = groupBy.map(dimension => group[dimension]).join('\u0000');
+      const row = rows.get(key) || { group, cost: 0, inputTokens: 0, outputTokens: 0, unpricedTokens: 0 };
+      rows.set(key, row);
+
+      const cost = priceUsageResult(result, version);
+      const model = result.model || 'unknown';
+      row.inputTokens += inputTokens(result);
+      row.outputTokens += result.output_tokens || 0;
+      if (cost === null) {
+        row.unpricedTokens += inputTokens(result) + (result.output_tokens || 0);
+        if (inputTokens(result) + (result.output_tokens || 0) > 0) unpriced.add(model);
+        continue;
+      }
+      row.cost += cost;
+      estimatedByModel[model] = (estimatedByModel[model] || 0) + cost;
+    }
+  }
+
+  const estimatedTotal = Object.values(estimatedByModel).reduce((sum, cost) => sum + cost, 0);
+  // Cost report amounts are in cents
+  const actualTotal = costReport ? calculateTotalCost(costReport) / 100 : null;
+  const actualByModel: Record<string, number> = {};
+  if (costReport) {
+    for (const [model, cents] of Object.entries(getCostByModel(costReport))) {
+      actualByModel[model] = cents / 100;
+    }
+  }
+
+  const models = new Set([...Object.keys(estimatedByModel), ...Object.keys(actualByModel)]);
+  const byModel = [...models].map(model => {
+    const estimated = estimatedByModel[model] || 0;
+    const actual = costReport ? actualByModel[model] ?? null : null;
+    return { model, estimated, actual, difference: actual === null ? null : estimated - actual };
+  }).sort((a, b) => Math.max(b.estimated, b.actual || 0) - Math.max(a.estimated, a.actual || 0));
+
+  const sortedRows = [...rows.values()].sort((a, b) => b.cost - a.cost);
+  return {
+    startingAt: range.startingAt,
+    endingAt: range.endingAt,
+    groupBy,
+    rows: sortedRows,
+    names: directory ? buildNameMap(directory, sortedRows.map(row => row.group)) : {},
+    estimatedTotal,
+    actualTotal,
+    difference: actualTotal === null ? null : estimatedTotal - actualTotal,
+    byModel,
+    unpricedModels: [...unpriced].sort(),
+    priceVersions: [...used].sort((a, b) => a - b),
+    truncated: usageReport.has_more || !!costReport?.has_more,
+  };
+}
+
+const RANGE_DAYS: Record<Exclude<ReportRange, 'custom'>, number> = { '24h': 1, '7d': 7, '30d': 30 };
+
+// Whole UTC days, so the usage and cost reports cover exactly the same buckets
+export function resolveEstimateRange(request: EstimateRequest, now: Date = new Date()): { startingAt: string; endingAt: string } {
+  const startOfDay = (time: number) => Math.floor(time / DAY) * DAY;
+  let start: number;
+  let end: number;
+  if (request.range === 'custom') {
+    start = startOfDay(Date.parse(request.from));
+    end = Math.ceil(Date.parse(request.to) / DAY) * DAY;
+  } else {
+    end = startOfDay(now.getTime()) + DAY;
+    start = end - RANGE_DAYS[request.range] * DAY;
+  }
+  if (!(end > start)) {
+    throw new Error('The estimate range must end after it starts');
+  }
+  return { startingAt: new Date(start).toISOString(), endingAt: new Date(end).toISOString() };
+}
+
+// The cost report is only for reconciliation, so the estimate still comes back without it
+export async function runCostEstimate(
+  adminKey: string,
+  request: EstimateRequest,
+  options?: AdminApiOptions
+): Promise<CostEstimate> {
+  const range = resolveEstimateRange(request);
+  const groupBy = Array.from(new Set<ReportDimension>([...request.groupBy, 'model', 'service_tier']));
+
+  const [usageReport, costReport, directory] = await Promise.all([
+    getFullUsageReport(adminKey, {
+      starting_at: range.startingAt,
+      ending_at: range.endingAt,
+      bucket_width: '1d',
+      group_by: groupBy,
+      limit: 31,
+    }, undefined, options),
+    getFullCostReport(adminKey, {
+      starting_at: range.startingAt,
+      ending_at: range.endingAt,
+      // Grouping by description is what populates the model field on cost results
+      group_by: ['workspace_id', 'description'],
+      limit: 31,
+    }, undefined, options).catch(error => {
+      console.log('Cost report not available for reconciliation:', error instanceof Error ? error.message : error);
+      return null;
+    }),
+    ensureDirectory(adminKey, options),
+  ]);
+
+  return estimateCost(usageReport, costReport, request.groupBy, getPriceTable(), range, directory);
+}
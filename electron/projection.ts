@@ -0,0 +1,83 @@
+// Burn-rate projection - estimates when each usage bar will reach 100% at the current pace
+
+export interface BarProjection {
+  burnRatePerHour: number;        // Percentage points per hour
+  exhaustsAt: string | null;      // When the bar reaches 100% at the current pace
+  resetsAt: string | null;
+  projectedAtReset: number | null; // Percentage expected when the limit resets
+  exhaustsBeforeReset: boolean;
+  marginMs: number | null;        // How long before the reset the limit is hit
+}
+
+export interface UsagePoint {
+  time: number;
+  value: number;
+}
+
+// Only the recent pace matters - older points describe a different work session
+export const PROJECTION_LOOKBACK_MS = 60 * 60 * 1000;
+const MIN_SPAN_MS = 5 * 60 * 1000;
+const HOUR = 60 * 60 * 1000;
+
+// Drop everything up to the last reset (a drop in percentage), so the pace isn't
+// computed across two limit windows
+function sinceLastReset(points: UsagePoint[]): UsagePoint[] {
+  for (let i = points.length - 1; i > 0; i--) {
+    if (points[i].value < points[i - 1].value) {
+      return points.slice(i);
+    }
+  }
+  return points;
+}
+
+// Least-squares slope in percentage points per millisecond
+function slope(points: UsagePoint[]): number {
+  const n = points.length;
+  const meanT = points.reduce((sum, p) => sum + p.time, 0) / n;
+  const meanV = points.reduce((sum, p) => sum + p.value, 0) / n;
+  let num = 0;
+  let den = 0;
+  for (const p of points) {
+    num += (p.time - meanT) * (p.value - meanV);
+    den += (p.time - meanT) ** 2;
+  }
+  return den === 0 ? 0 : num / den;
+}
+
+export function projectBar(
+  history: UsagePoint[],
+  current: UsagePoint,
+  resetsAt: number | null
+): BarProjection | null {
+  const points = sinceLastReset(
+    [...history.filter(p => p.time < current.time && p.time >= current.time - PROJECTION_LOOKBACK_MS), current]
+      .sort((a, b) => a.time - b.time)
+  );
+
+  if (points.length < 2 || current.time - points[0].time < MIN_SPAN_MS) {
+    return null;
+  }
+
+  const ratePerMs = Math.max(slope(points), 0);
+  const remaining = Math.max(100 - current.value, 0);
+
+  let exhaustsAt: number | null = null;
+  if (remaining === 0) {
+    exhaustsAt = current.time;
+  } else if (ratePerMs > 0) {
+    exhaustsAt = current.time + remaining / ratePerMs;
+  }
+
+  const exhaustsBeforeReset = exhaustsAt !== null && (resetsAt === null || exhaustsAt < resetsAt);
+
+  return {
+    burnRatePerHour: ratePerMs * HOUR,
+    exhaustsAt: exhaustsAt !== null ? new Date(exhaustsAt).toISOString() : null,
+    resetsAt: resetsAt !== null ? new Date(resetsAt).toISOString() : null,
+    projectedAtReset: resetsAt !== null
+      ? Math.min(current.value + ratePerMs * Math.max(resetsAt - current.time, 0), 100)
+      : null,
+    exhaustsBeforeReset,
+    marginMs: exhaustsAt !== null && resetsAt !== null ? resetsAt - exhaustsAt : null,
+  };
+}
@@ -0,0 +1,189 @@
+// Ad-hoc Admin API usage reports for the report explorer window: turns a query from the
+// form into usage report parameters, flattens the buckets into table rows, and keeps the
+// user's named presets.
+import Store from 'electron-store';
+import { randomUUID } from 'crypto';
+import { getFullUsageReport, UsageReportParams, UsageReportResponse, AdminApiOptions } from './adminApi';
+import { ensureDirectory, buildNameMap, NameMap } from './directory';
+
+export type ReportDimension = 'api_key_id' | 'workspace_id' | 'model' | 'service_tier' | 'context_window';
+export type ReportBucketWidth = '1d' | '1h' | '1m';
+export type ReportRange = 'custom' | '24h' | '7d' | '30d';
+
+export interface ReportFilters {
+  models: string[];
+  workspaceIds: string[];
+  apiKeyIds: string[];
+  serviceTiers: Array<'standard' | 'batch' | 'priority'>;
+}
+
+export interface ReportQuery {
+  range: ReportRange; // Relative ranges are resolved when the report runs, so presets stay current
+  from: string;       // ISO timestamp, used when range is 'custom'
+  to: string;
+  bucketWidth: ReportBucketWidth;
+  groupBy: ReportDimension[];
+  filters: ReportFilters;
+}
+
+export interface ReportRow {
+  bucketStart: string;
+  group: Partial<Record<ReportDimension, string>>; // Only the grouped dimensions
+  uncachedInputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  webSearchRequests: number;
+}
+
+export interface ReportResult {
+  startingAt: string;
+  endingAt: string;
+  bucketWidth: ReportBucketWidth;
+  groupBy: ReportDimension[];
+  rows: ReportRow[];
+  names: NameMap; // Workspace and API key names for the grouped ids
+  truncated: boolean; // The page limit was hit before the whole range was read
+}
+
+export interface ReportPreset {
+  id: string;
+  name: string;
+  query: ReportQuery;
+}
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const RANGE_MS: Record<Exclude<ReportRange, 'custom'>, number> = {
+  '24h': DAY,
+  '7d': 7 * DAY,
+  '30d': 30 * DAY,
+};
+
+// Most buckets the API returns per page for each width
+const BUCKET_LIMITS: Record<ReportBucketWidth, number> = { '1d': 31, '1h': 168, '1m': 1440 };
+
+// Minute buckets are meant for zooming in; a week of them would be 10k buckets per group
+const MAX_MINUTE_RANGE_MS = DAY;
+
+export function resolveReportRange(query: ReportQuery, now: Date = new Date()): { startingAt: string; endingAt: string } {
+  if (query.range === 'custom') {
+    return { startingAt: new Date(query.from).toISOString(), endingAt: new Date(query.to).toISOString() };
+  }
+  return {
+    startingAt: new Date(now.getTime() - RANGE_MS[query.range]).toISOString(),
+    endingAt: now.toISOString(),
+  };
+}
+
+export function buildUsageParams(query: ReportQuery, now: Date = new Date()): UsageReportParams {
+  const { startingAt, endingAt } = resolveReportRange(query, now);
+  const span = Date.parse(endingAt) - Date.parse(startingAt);
+  if (!(span > 0)) {
+    throw new Error('The report range must end after it starts');
+  }
+  if (query.bucketWidth === '1m' && span > MAX_MINUTE_RANGE_MS) {
+    throw new Error('Minute buckets are limited to a 24 hour range');
+  }
+
+  const nonEmpty = <T>(values: T[]) => (values.length > 0 ? values : undefined);
+  return {
+    starting_at: startingAt,
+    ending_at: endingAt,
+    bucket_width: query.bucketWidth,
+    group_by: nonEmpty(query.groupBy),
+    models: nonEmpty(query.filters.models),
+    workspace_ids: nonEmpty(query.filters.workspaceIds),
+    api_key_ids: nonEmpty(query.filters.apiKeyIds),
+    service_tiers: nonEmpty(query.filters.serviceTiers),
+    limit: BUCKET_LIMITS[query.bucketWidth],
+  };
+}
+
+// One row per bucket and group, skipping groups that used nothing in that bucket
+export function flattenUsageReport(report: UsageReportResponse, groupBy: ReportDimension[]): ReportRow[] {
+  const rows: ReportRow[] = [];
+
+  for (const bucket of report.data) {
+    for (const result of bucket.results) {
+      const cacheCreation = (result.cache_creation?.ephemeral_5m_input_tokens || 0)
+        + (result.cache_creation?.ephemeral_1h_input_tokens || 0);
+      const row: ReportRow = {
+        bucketStart: bucket.starting_at,
+        group: {},
+        uncachedInputTokens: result.uncached_input_tokens || 0,
+        cacheCreationTokens: cacheCreation,
+        cacheReadTokens: result.cache_read_input_tokens || 0,
+        outputTokens: result.output_tokens || 0,
+        totalTokens: 0,
+        webSearchRequests: result.server_tool_use?.web_search_requests || 0,
+      };
+      row.totalTokens = row.uncachedInputTokens + row.cacheCreationTokens + row.cacheReadTokens + row.outputTokens;
+      if (row.totalTokens === 0 && row.webSearchRequests === 0) continue;
+
+      for (const dimension of groupBy) {
+        // A null workspace is the organization's default workspace
+        row.group[dimension] = result[dimension] || (dimension === 'workspace_id' ? 'default' : 'unknown');
+      }
+      rows.push(row);
+    }
+  }
+
+  return rows;
+}
+
+export async function runReport(adminKey: string, query: ReportQuery, options?: AdminApiOptions): Promise<ReportResult> {
+  const params = buildUsageParams(query);
+  const [report, directory] = await Promise.all([
+    getFullUsageReport(adminKey, params, undefined, options),
+    ensureDirectory(adminKey, options),
+  ]);
+  const rows = flattenUsageReport(report, query.groupBy);
+  return {
+    startingAt: params.starting_at,
+    endingAt: params.ending_at as string,
+    bucketWidth: query.bucketWidth,
+    groupBy: query.groupBy,
+    rows,
+    names: buildNameMap(directory, rows.map(row => row.group)),
+    truncated: report.has_more,
+  };
+}
+
+interface PresetStore {
+  presets: ReportPreset[];
+}
+
+const presetStore = new Store<PresetStore>({
+  name: 'report-presets',
+  defaults: {
+    presets: [],
+  },
+});
+
+export function getReportPresets(): ReportPreset[] {
+  return presetStore.get('presets');
+}
+
+// Saving under an existing name replaces that preset
+export function saveReportPreset(name: string, query: ReportQuery): ReportPreset[] {
+  const trimmed = name.trim();
+  if (!trimmed) return getReportPresets();
+
+  const presets = getReportPresets();
+  const existing = presets.find(preset => preset.name.toLowerCase() === trimmed.toLowerCase());
+  const preset: ReportPreset = { id: existing?.id || randomUUID(), name: trimmed, query };
+  const next = existing
+    ? presets.map(p => (p.id === existing.id ? preset : p))
+    : [...presets, preset];
+  presetStore.set('presets', next);
+  return next;
+}
+
+export function deleteReportPreset(id: string): ReportPreset[] {
+  const next = getReportPresets().filter(preset => preset.id !== id);
+  presetStore.set('presets', next);
+  return next;
+}
@@ -0,0 +1,141 @@
+// Turns the reset text scraped from claude.ai into an absolute timestamp.
+// Handles the English and Korean variants seen on the usage page, e.g.
+//   "Resets in 4 hr 18 min"      "4시간 18분 후 재설정"
+//   "Resets Sat 4:00 PM"         "(토) 오후 4:00에 재설정"
+//   "Resets Nov 1"               "11월 1일에 재설정"
+// Relative times are measured from the scrape time, absolute ones use the local timezone.
+
+export interface ResetParseResult {
+  resetsAt: string | null;
+  error?: string;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const ENGLISH_WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const KOREAN_WEEKDAYS = ['일', '월', '화', '수', '목', '금', '토'];
+const ENGLISH_MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// "in 4 hr 18 min", "in 3 days" / "4시간 18분 후", "2일 후"
+function parseRelative(text: string): number | null {
+  const isEnglish = /\bin\s+\d/i.test(text);
+  const isKorean = /\d+\s*(?:일|시간|분)\s*후/.test(text);
+  if (!isEnglish && !isKorean) return null;
+
+  const units: Array<{ pattern: RegExp; ms: number }> = isEnglish
+    ? [
+        { pattern: /(\d+)\s*(?:d|days?)\b/i, ms: DAY },
+        { pattern: /(\d+)\s*(?:h|hrs?|hours?)\b/i, ms: HOUR },
+        { pattern: /(\d+)\s*(?:m|mins?|minutes?)\b/i, ms: MINUTE },
+      ]
+    : [
+        { pattern: /(\d+)\s*일/, ms: DAY },
+        { pattern: /(\d+)\s*시간/, ms: HOUR },
+        { pattern: /(\d+)\s*분/, ms: MINUTE },
+      ];
+
+  let total = 0;
+  let matched = false;
+  for (const unit of units) {
+    const match = text.match(unit.pattern);
+    if (match) {
+      total += parseInt(match[1], 10) * unit.ms;
+      matched = true;
+    }
+  }
+  return matched ? total : null;
+}
+
+// "4:00 PM", "4 PM", "16:00" / "오후 4:00", "오후 4시", "오전 9시 30분"
+function parseTimeOfDay(text: string): { hours: number; minutes: number } | null {
+  const korean = text.match(/(오전|오후)\s*(\d{1,2})(?::(\d{2})|\s*시(?:\s*(\d{1,2})\s*분)?)/);
+  if (korean) {
+    let hours = parseInt(korean[2], 10) % 12;
+    if (korean[1] === '오후') hours += 12;
+    return { hours, minutes: parseInt(korean[3] || korean[4] || '0', 10) };
+  }
+
+  const english = text.match(/\b(\d{1,2})(?::(\d{2}))?\s*(am|pm)\b/i);
+  if (english) {
+    let hours = parseInt(english[1], 10) % 12;
+    if (english[3].toLowerCase() === 'pm') hours += 12;
+    return { hours, minutes: parseInt(english[2] || '0', 10) };
+  }
+
+  const twentyFourHour = text.match(/\b([01]?\d|2[0-3]):([0-5]\d)\b/);
+  if (twentyFourHour) {
+    return { hours: parseInt(twentyFourHour[1], 10), minutes: parseInt(twentyFourHour[2], 10) };
+  }
+
+  return null;
+}
+
+function parseWeekday(text: string): number | null {
+  // Full names and the usual abbreviations only, so "month" or "satisfy" aren't weekdays
+  const english = text.match(/\b(sun(?:day)?|mon(?:day)?|tue(?:s(?:day)?)?|wed(?:nesday)?|thu(?:r(?:s(?:day)?)?)?|fri(?:day)?|sat(?:urday)?)\b/i);
+  if (english) return ENGLISH_WEEKDAYS.indexOf(english[1].slice(0, 3).toLowerCase());
+
+  // "(토)" or "토요일"
+  const korean = text.match(/\(([일월화수목금토])\)|([일월화수목금토])요일/);
+  if (korean) return KOREAN_WEEKDAYS.indexOf(korean[1] || korean[2]);
+
+  return null;
+}
+
+// "Nov 1", "November 1" / "11월 1일"
+function parseMonthDay(text: string): { month: number; day: number } | null {
+  const english = text.match(/\b(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\b\.?\s+(\d{1,2})\b/i);
+  if (english) {
+    return { month: ENGLISH_MONTHS.indexOf(english[1].slice(0, 3).toLowerCase()), day: parseInt(english[2], 10) };
+  }
+
+  const korean = text.match(/(\d{1,2})\s*월\s*(\d{1,2})\s*일/);
+  if (korean) {
+    return { month: parseInt(korean[1], 10) - 1, day: parseInt(korean[2], 10) };
+  }
+
+  return null;
+}
+
+export function parseResetTime(text: string | undefined | null, scrapedAt: Date = new Date()): ResetParseResult {
+  if (!text || !text.trim()) {
+    return { resetsAt: null, error: 'empty reset text' };
+  }
+
+  const relative = parseRelative(text);
+  if (relative !== null) {
+    return { resetsAt: new Date(scrapedAt.getTime() + relative).toISOString() };
+  }
+
+  const time = parseTimeOfDay(text);
+  const monthDay = parseMonthDay(text);
+  const weekday = monthDay ? null : parseWeekday(text);
+
+  if (!time && !monthDay && weekday === null) {
+    return { resetsAt: null, error: `unrecognized reset text "${text}"` };
+  }
+
+  const result = new Date(scrapedAt);
+  result.setHours(time?.hours ?? 0, time?.minutes ?? 0, 0, 0);
+
+  if (monthDay) {
+    result.setMonth(monthDay.month, monthDay.day);
+    // A date earlier than today refers to next year (e.g. "Jan 1" scraped in December)
+    if (result.getTime() < scrapedAt.getTime() - DAY) {
+      result.setFullYear(result.getFullYear() + 1);
+    }
+  } else if (weekday !== null) {
+    let daysAhead = (weekday - scrapedAt.getDay() + 7) % 7;
+    if (daysAhead === 0 && result.getTime() <= scrapedAt.getTime()) {
+      daysAhead = 7;
+    }
+    result.setDate(result.getDate() + daysAhead);
+  } else if (result.getTime() <= scrapedAt.getTime()) {
+    // Time only - the next occurrence of that time
+    result.setDate(result.getDate() + 1);
+  }
+
+  return { resetsAt: result.toISOString() };
+}
@@ -1,4 +1,9 @@
 import { BrowserWindow, session } from 'electron';
+import type { BarProjection } from './projection';
+import { parseUsageText, parseBillingText, assessConfidence } from './usageParser';
+import { fetchUsageFromApi } from './usageApi';
+import { recordDiagnostics } from './diagnostics';
+import { DEFAULT_PARTITION } from './accounts';
 
 export interface UsageBar {
   used: number;
@@ -6,6 +11,8 @@ export interface UsageBar {
   percentage: number;
   label?: string;
   context?: string;
+  resetsAt?: string; // Absolute reset time parsed from context
+  projection?: BarProjection;
 }
 
 export interface ClaudeMaxUsage {
@@ -17,31 +24,68 @@ export interface ClaudeMaxUsage {
   isAuthenticated: boolean;
   plan?: string;
   email?: string;
+  parseWarnings?: string[];
+  source?: UsageStrategy;
+  confidence?: UsageConfidence;
 }
 
+// Which extraction path produced a result, and how much to trust it
+export type UsageStrategy = 'api' | 'labelled' | 'fallback';
+export type UsageConfidence = 'high' | 'medium' | 'low';
+
 export interface BillingInfo {
   creditBalance: number | null;
   currency: string;
   lastUpdated: string;
 }
 
-let scraperWindow: BrowserWindow | null = null;
+// Where subscription usage comes from: the JSON API, the rendered page, or the API
+// with the page scraper as fallback
+export type UsageDataSource = 'auto' | 'api' | 'scraper';
+
+// Usage scraping and claude.ai login are per account, keyed by session partition
+const scraperWindows = new Map<string, BrowserWindow>();
+const loginWindows = new Map<string, BrowserWindow>();
+const scrapingPartitions = new Set<string>();
 let billingWindow: BrowserWindow | null = null;
-let loginWindow: BrowserWindow | null = null;
 let platformLoginWindow: BrowserWindow | null = null;
-let isScrapingUsage = false;
 let isScrapingBilling = false;
 const CLAUDE_USAGE_URL = 'https://claude.ai/settings/usage';
 const CLAUDE_BILLING_URL = 'https://platform.claude.com/settings/billing';
-const CLAUDE_SESSION_NAME = 'claude-session';
 
-function getSession() {
-  return session.fromPartition(`persist:${CLAUDE_SESSION_NAME}`);
+function getSession(partition: string = DEFAULT_PARTITION) {
+  return session.fromPartition(partition);
+}
+
+// claude.ai and the platform console share the default partition, so logging out of
+// one only clears the cookies and storage that belong to it
+const CLAUDE_DOMAINS = ['claude.ai'];
+const CLAUDE_ORIGINS = ['https://claude.ai'];
+const PLATFORM_DOMAINS = ['claude.com', 'anthropic.com'];
+const PLATFORM_ORIGINS = ['https://platform.claude.com', 'https://console.anthropic.com'];
+
+async function getCookies(ses: Electron.Session, domains: string[]): Promise<Electron.Cookie[]> {
+  const cookies = await Promise.all(domains.map(domain => ses.cookies.get({ domain })));
+  return cookies.flat();
+}
+
+async function clearSiteData(ses: Electron.Session, domains: string[], origins: string[]): Promise<void> {
+  for (const cookie of await getCookies(ses, domains)) {
+    const host = (cookie.domain || '').replace(/^\./, '');
+    await ses.cookies.remove(`https://${host}${cookie.path || '/'}`, cookie.name);
+  }
+
+  for (const origin of origins) {
+    await ses.clearStorageData({
+      origin,
+      storages: ['cookies', 'localstorage', 'indexdb', 'serviceworkers', 'cachestorage'],
+    });
+  }
 }
 
-export async function isAuthenticated(): Promise<boolean> {
-  const ses = getSession();
-  const cookies = await ses.cookies.get({ domain: '.claude.ai' });
+export async function isAuthenticated(partition: string = DEFAULT_PARTITION): Promise<boolean> {
+  const ses = getSession(partition);
+  const cookies = await getCookies(ses, CLAUDE_DOMAINS);
   // Check for various session cookies that indicate authentication
   const hasSession = cookies.some(c =>
     c.name === 'sessionKey' ||
@@ -55,10 +99,7 @@ export async function isAuthenticated(): Promise<boolean> {
 }
 
 export async function isPlatformAuthenticated(): Promise<boolean> {
-  const ses = getSession();
-  const cookies = await ses.cookies.get({ domain: '.anthropic.com' });
-  const platformCookies = await ses.cookies.get({ domain: '.platform.claude.com' });
-  const allCookies = [...cookies, ...platformCookies];
+  const allCookies = await getCookies(getSession(), PLATFORM_DOMAINS);
   
   const hasSession = allCookies.some(c =>
     c.name.includes('session') ||
@@ -69,52 +110,84 @@ export async function isPlatformAuthenticated(): Promise<boolean> {
   return hasSession;
 }
 
-export async function logout(): Promise<void> {
-  const ses = getSession();
-  
-  // Clear all cookies for claude.ai and platform.claude.com
-  const domains = ['.claude.ai', 'claude.ai', '.anthropic.com', 'anthropic.com', '.platform.claude.com', 'platform.claude.com'];
-  
-  for (const domain of domains) {
-    const cookies = await ses.cookies.get({ domain });
-    for (const cookie of cookies) {
-      await ses.cookies.remove(`https://${domain}`, cookie.name);
-    }
+// Log a Claude account out without touching the platform console login
+export async function logout(partition: string = DEFAULT_PARTITION): Promise<void> {
+  await clearSiteData(getSession(partition), CLAUDE_DOMAINS, CLAUDE_ORIGINS);
+  console.log('Logged out of Claude');
+}
+
+export async function logoutPlatform(): Promise<void> {
+  await clearSiteData(getSession(), PLATFORM_DOMAINS, PLATFORM_ORIGINS);
+  console.log('Logged out of Platform');
+}
+
+export async function getClaudeUsage(
+  source: UsageDataSource = 'auto',
+  partition: string = DEFAULT_PARTITION
+): Promise<ClaudeMaxUsage | null> {
+  if (source === 'scraper') {
+    return scrapeClaudeUsage(partition);
+  }
+
+  try {
+    const ses = getSession(partition);
+    const [orgCookie] = await ses.cookies.get({ url: 'https://claude.ai', name: 'lastActiveOrg' });
+    const usage = await fetchUsageFromApi({
+      fetch: (url, init) => ses.fetch(url, init),
+      orgId: orgCookie?.value,
+    });
+    usage.source = 'api';
+    // fetchUsageFromApi throws when it finds no usage windows, so an API result always has bars
+    usage.confidence = 'high';
+    recordDiagnostics({
+      timestamp: usage.lastUpdated,
+      url: 'claude.ai/api/organizations/<org>/usage',
+      strategy: 'api',
+      confidence: usage.confidence,
+      bars: (usage.bars || []).map(({ label, percentage, context }) => ({ label, percentage, context })),
+      parseWarnings: [],
+    });
+    return usage;
+  } catch (error) {
+    if (source === 'api') throw error;
+    const message = error instanceof Error ? error.message : String(error);
+    console.log('Usage API failed, falling back to page scraper:', message);
+    return scrapeClaudeUsage(partition);
   }
-  
-  // Clear cache and storage
-  await ses.clearCache();
-  await ses.clearStorageData({
-    storages: ['cookies', 'localstorage']
-  });
-  
-  console.log('Logged out - all sessions cleared');
 }
 
-export async function scrapeClaudeUsage(): Promise<ClaudeMaxUsage | null> {
-  // Prevent concurrent scrapes
-  if (isScrapingUsage) {
+export async function scrapeClaudeUsage(partition: string = DEFAULT_PARTITION): Promise<ClaudeMaxUsage | null> {
+  // Prevent concurrent scrapes of the same account
+  if (scrapingPartitions.has(partition)) {
     console.log('Usage scrape already in progress, skipping...');
     return null;
   }
-  isScrapingUsage = true;
+  scrapingPartitions.add(partition);
   console.log('Starting Claude usage scrape...');
 
   return new Promise((resolve) => {
-    if (scraperWindow && !scraperWindow.isDestroyed()) {
-      scraperWindow.close();
+    const previousWindow = scraperWindows.get(partition);
+    if (previousWindow && !previousWindow.isDestroyed()) {
+      previousWindow.close();
     }
 
-    scraperWindow = new BrowserWindow({
+    let scraperWindow: BrowserWindow | null = new BrowserWindow({
       width: 1000,
       height: 800,
       show: false, // Set to true to debug
       webPreferences: {
-        session: getSession(),
+        session: getSession(partition),
         nodeIntegration: false,
         contextIsolation: true,
       },
     });
+    const ownWindow = scraperWindow;
+    scraperWindows.set(partition, ownWindow);
+    ownWindow.on('closed', () => {
+      if (scraperWindows.get(partition) === ownWindow) {
+        scraperWindows.delete(partition);
+      }
+    });
 
     let resolved = false;
 
@@ -122,7 +195,7 @@ export async function scrapeClaudeUsage(): Promise<ClaudeMaxUsage | null> {
       if (!resolved) {
         console.log('Scraper timeout reached');
         resolved = true;
-        isScrapingUsage = false;
+        scrapingPartitions.delete(partition);
         scraperWindow?.close();
         scraperWindow = null;
         resolve(null);
@@ -136,7 +209,7 @@ export async function scrapeClaudeUsage(): Promise<ClaudeMaxUsage | null> {
         console.log('Redirected to login - not authenticated');
         if (!resolved) {
           resolved = true;
-          isScrapingUsage = false;
+          scrapingPartitions.delete(partition);
           clearTimeout(timeout);
           scraperWindow?.close();
           scraperWindow = null;
@@ -161,7 +234,7 @@ export async function scrapeClaudeUsage(): Promise<ClaudeMaxUsage | null> {
       // If we're on login page, user is not authenticated
       if (currentUrl.includes('/login') || currentUrl.includes('/signup')) {
         resolved = true;
-        isScrapingUsage = false;
+        scrapingPartitions.delete(partition);
         clearTimeout(timeout);
         scraperWindow?.close();
         scraperWindow = null;
@@ -182,232 +255,14 @@ export async function scrapeClaudeUsage(): Promise<ClaudeMaxUsage | null> {
       if (resolved || !scraperWindow || scraperWindow.isDestroyed()) return;
 
       try {
+        // Only the page text is read in the renderer - parsing happens in usageParser
         const result = await scraperWindow.webContents.executeJavaScript(`
           (function() {
             // Note: avoid console.log here as it can cause EPIPE errors when window closes
-
-            const usage = {
-              bars: [],
-              resetDate: null,
-              isAuthenticated: true,
-              rawText: '',
-              plan: null,
-              email: null
-            };
-
-            // Check if on login page
-            if (window.location.href.includes('/login') ||
-                window.location.href.includes('/signup') ||
-                document.body.innerText.includes('Welcome back') && document.body.innerText.includes('Continue with')) {
-              usage.isAuthenticated = false;
-              return JSON.stringify(usage);
-            }
-
-            const text = document.body.innerText;
-            usage.rawText = text.substring(0, 2000);
-
-            // Parse the structured usage sections from Claude's settings page
-            // The page structure is:
-            // - Current session / Resets in X hr Y min / X% used
-            // - All models / Resets Day Time / X% used
-            // - Sonnet only / Resets Day Time / X% used
-            // - Extra usage / Resets Month Day / X% used
-
-            const lines = text.split('\\n').map(l => l.trim()).filter(l => l);
-
-            // Define the section labels we're looking for (English and Korean)
-            const sectionLabels = [
-              'Current session',
-              'All models',
-              'Sonnet only',
-              'Sonnet만',
-              'Extra usage',
-              'Weekly limit',
-              'Weekly limits',
-              'Daily limit',
-              'Monthly limit',
-              'Standard',
-              'Advanced',
-              '주간 한도',
-              '일일 한도',
-              '월간 한도'
-            ];
-
-            for (let i = 0; i < lines.length; i++) {
-              const line = lines[i];
-
-              // Check if this line matches a section label (case insensitive)
-              const isLabel = sectionLabels.some(label =>
-                line.toLowerCase() === label.toLowerCase()
-              );
-
-              if (isLabel) {
-                const label = line;
-                let percentage = 0;
-                let resetInfo = '';
-                let foundPercentage = false;
-
-                // Look at next few lines for reset info and percentage
-                for (let j = i + 1; j < Math.min(i + 8, lines.length); j++) {
-                  const nextLine = lines[j];
-
-                  // Look for "Resets ..." pattern
-                  if (nextLine.toLowerCase().startsWith('reset')) {
-                    resetInfo = nextLine;
-                  }
-
-                  // Look for "X% used" pattern
-                  const pctMatch = nextLine.match(/(\\d+)%\\s*used/i);
-                  if (pctMatch) {
-                    percentage = parseInt(pctMatch[1], 10);
-                    foundPercentage = true;
-                    break;
-                  }
-                  
-                  // Also look for just "X%" pattern
-                  const pctOnlyMatch = nextLine.match(/^(\\d+)%$/);
-                  if (pctOnlyMatch) {
-                    percentage = parseInt(pctOnlyMatch[1], 10);
-                    foundPercentage = true;
-                    break;
-                  }
-                }
-
-                // Only add if we found meaningful data
-                if (foundPercentage || resetInfo) {
-                  // Skip "Weekly limits" header if we have individual models
-                  if (line.toLowerCase() === 'weekly limits') continue;
-
-                  usage.bars.push({
-                    value: percentage,
-                    max: 100,
-                    label: label,
-                    resetInfo: resetInfo,
-                    percentage: percentage
-                  });
-                }
-              }
-            }
-
-            // Fallback: if no bars found, try to find percentages with better label detection
-            if (usage.bars.length === 0) {
-              const defaultLabels = ['Current Session', 'All models', 'Sonnet only', 'Extra usage'];
-              const foundPercentages = new Set();
-              
-              // Find all percentage matches with their positions
-              const percentMatches = [];
-              const regex = /(\\d+)%/g;
-              let match;
-              while ((match = regex.exec(text)) !== null) {
-                const pct = parseInt(match[1], 10);
-                if (pct >= 0 && pct <= 100 && !foundPercentages.has(pct)) {
-                  percentMatches.push({
-                    percentage: pct,
-                    index: match.index
-                  });
-                  foundPercentages.add(pct);
-                }
-              }
-              
-              // For each percentage, find the closest label before it
-              for (let i = 0; i < Math.min(percentMatches.length, 4); i++) {
-                const pctMatch = percentMatches[i];
-                const beforeText = text.substring(Math.max(0, pctMatch.index - 150), pctMatch.index);
-                const afterText = text.substring(pctMatch.index, Math.min(text.length, pctMatch.index + 50));
-                
-                // Find the closest section label before this percentage
-                let label = defaultLabels[i] || 'Usage ' + (i + 1);
-                let closestDistance = Infinity;
-                
-                for (const labelOption of sectionLabels) {
-                  const labelIndex = beforeText.toLowerCase().lastIndexOf(labelOption.toLowerCase());
-                  if (labelIndex !== -1) {
-                    const distance = beforeText.length - labelIndex;
-                    if (distance < closestDistance) {
-                      closestDistance = distance;
-                      label = labelOption;
-                    }
-                  }
-                }
-                
-                // Normalize Korean labels to English
-                if (label === 'Sonnet만') label = 'Sonnet only';
-                if (label === '주간 한도') label = 'Weekly limit';
-                if (label === '일일 한도') label = 'Daily limit';
-                if (label === '월간 한도') label = 'Monthly limit';
-                
-                // Find reset info (Korean or English) - search only in beforeText for better accuracy
-                // Korean patterns: "4시간 18분 후 재설정", "(토) 오후 4:00에 재설정"
-                // English patterns: "Resets in 4 hr 18 min", "Resets Sat 4:00 PM"
-                let resetInfo = '';
-                
-                // Search in beforeText first (more accurate for the current item)
-                const koreanResetMatch = beforeText.match(/[^\\n]*(?:후|에)\\s*재설정/gi);
-                const englishResetMatch = beforeText.match(/Resets?[^\\n]*/gi);
-                
-                // Get the last match (closest to the percentage)
-                if (koreanResetMatch && koreanResetMatch.length > 0) {
-                  resetInfo = koreanResetMatch[koreanResetMatch.length - 1].trim();
-                } else if (englishResetMatch && englishResetMatch.length > 0) {
-                  resetInfo = englishResetMatch[englishResetMatch.length - 1].trim();
-                }
-                
-                usage.bars.push({
-                  value: pctMatch.percentage,
-                  max: 100,
-                  label: label,
-                  resetInfo: resetInfo,
-                  context: resetInfo,  // Also set context for UI display
-                  percentage: pctMatch.percentage
-                });
-              }
-            }
-
-            // Find general reset date as fallback
-            const resetPatterns = [
-              /Resets\\s+in\\s+(\\d+\\s*hr?\\s*\\d*\\s*min[^\\n]*)/i,
-              /Resets\\s+(Mon|Tue|Wed|Thu|Fri|Sat|Sun)[^\\n]*/i,
-              /resets?\\s*(?:on|in|:)?\\s*([A-Za-z]+\\s+\\d+)/i,
-              /in\\s+(\\d+)\\s*days?/i
-            ];
-
-            for (const pattern of resetPatterns) {
-              const match = text.match(pattern);
-              if (match) {
-                usage.resetDate = match[0].trim();
-                break;
-              }
-            }
-
-            // Try to extract plan name (Max, Pro, Free, etc.)
-            const planPatterns = [
-              /Claude\\s+(Max|Pro|Team|Enterprise|Free)/i,
-              /(Max|Pro|Team|Enterprise)\\s+Plan/i,
-              /Plan:\\s*(Max|Pro|Team|Enterprise|Free)/i
-            ];
-            for (const pattern of planPatterns) {
-              const match = text.match(pattern);
-              if (match) {
-                usage.plan = match[1];
-                break;
-              }
-            }
-            // Fallback: check for plan indicators in the page
-            if (!usage.plan) {
-              if (text.includes('Extra usage') || text.includes('All models')) {
-                usage.plan = 'Max';
-              } else if (text.includes('Pro features')) {
-                usage.plan = 'Pro';
-              }
-            }
-
-            // Try to extract email from the page
-            const emailMatch = text.match(/[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\\.[a-zA-Z]{2,}/);
-            if (emailMatch) {
-              usage.email = emailMatch[0];
-            }
-
-            return JSON.stringify(usage);
+            return JSON.stringify({
+              url: window.location.href,
+              text: document.body.innerText
+            });
           })();
         `);
 
@@ -416,18 +271,29 @@ export async function scrapeClaudeUsage(): Promise<ClaudeMaxUsage | null> {
         console.log('Usage scrape raw result:', result ? 'got data' : 'no data');
 
         if (result) {
-          const parsed = JSON.parse(result);
-          console.log('Parsed usage data - bars:', parsed.bars?.length, 'auth:', parsed.isAuthenticated);
-          
+          const page = JSON.parse(result);
+          const scrapedAt = new Date();
+          const parsed = parseUsageText(page.text || '', page.url || '', scrapedAt);
+          const confidence = assessConfidence(parsed);
+          console.log('Parsed usage data - bars:', parsed.bars.length, 'auth:', parsed.isAuthenticated, 'strategy:', parsed.strategy, 'confidence:', confidence);
+
+          recordDiagnostics({
+            timestamp: scrapedAt.toISOString(),
+            url: page.url || '',
+            strategy: parsed.strategy,
+            confidence,
+            bars: parsed.bars.map(({ label, percentage, context }) => ({ label, percentage, context })),
+            parseWarnings: parsed.parseWarnings,
+            rawText: parsed.rawText,
+          });
+
           // Log each bar for debugging
-          if (parsed.bars) {
-            parsed.bars.forEach((bar: any, idx: number) => {
-              console.log(`  Bar ${idx}: ${bar.label} - ${bar.percentage}% (${bar.value}/${bar.max})`);
-            });
-          }
+          parsed.bars.forEach((bar, idx) => {
+            console.log(`  Bar ${idx}: ${bar.label} - ${bar.percentage}% (${bar.used}/${bar.limit})`);
+          });
 
           resolved = true;
-          isScrapingUsage = false;
+          scrapingPartitions.delete(partition);
           clearTimeout(timeout);
 
           // Safely close window
@@ -436,15 +302,7 @@ export async function scrapeClaudeUsage(): Promise<ClaudeMaxUsage | null> {
           }
           scraperWindow = null;
 
-          // Convert bars array to our format
-          const bars: UsageBar[] = parsed.bars.map((bar: { value: number; max: number; percentage: number; label?: string; context?: string; resetInfo?: string }) => ({
-            used: bar.value,
-            limit: bar.max,
-            percentage: bar.percentage,
-            label: bar.label,
-            context: bar.resetInfo || bar.context  // Use resetInfo as context for display
-          }));
-
+          const bars = parsed.bars;
           const standardBar = bars[0] || { used: 0, limit: 0, percentage: 0 };
           const advancedBar = bars[1] || { used: 0, limit: 0, percentage: 0 };
 
@@ -453,10 +311,13 @@ export async function scrapeClaudeUsage(): Promise<ClaudeMaxUsage | null> {
             advanced: advancedBar,
             bars: bars,  // Pass all bars for dynamic display
             resetDate: parsed.resetDate,
-            lastUpdated: new Date().toISOString(),
+            lastUpdated: scrapedAt.toISOString(),
             isAuthenticated: parsed.isAuthenticated,
             plan: parsed.plan || undefined,
             email: parsed.email || undefined,
+            parseWarnings: parsed.parseWarnings.length > 0 ? parsed.parseWarnings : undefined,
+            source: parsed.strategy,
+            confidence,
           });
         }
       } catch (error) {
@@ -467,7 +328,7 @@ export async function scrapeClaudeUsage(): Promise<ClaudeMaxUsage | null> {
         }
         if (!resolved) {
           resolved = true;
-          isScrapingUsage = false;
+          scrapingPartitions.delete(partition);
           clearTimeout(timeout);
           if (scraperWindow && !scraperWindow.isDestroyed()) {
             scraperWindow.close();
@@ -482,28 +343,31 @@ export async function scrapeClaudeUsage(): Promise<ClaudeMaxUsage | null> {
   });
 }
 
-export function openLoginWindow(): Promise<boolean> {
+export function openLoginWindow(partition: string = DEFAULT_PARTITION, title: string = 'Login to Claude'): Promise<boolean> {
   return new Promise((resolve) => {
-    if (loginWindow && !loginWindow.isDestroyed()) {
-      loginWindow.focus();
+    const existingWindow = loginWindows.get(partition);
+    if (existingWindow && !existingWindow.isDestroyed()) {
+      existingWindow.focus();
       resolve(false);
       return;
     }
 
-    loginWindow = new BrowserWindow({
+    let loginWindow: BrowserWindow | null = new BrowserWindow({
       width: 500,
       height: 700,
-      title: 'Login to Claude',
+      title,
       webPreferences: {
-        session: getSession(),
+        session: getSession(partition),
         nodeIntegration: false,
         contextIsolation: true,
       },
     });
+    loginWindows.set(partition, loginWindow);
 
     loginWindow.on('closed', async () => {
       loginWindow = null;
-      const auth = await isAuthenticated();
+      loginWindows.delete(partition);
+      const auth = await isAuthenticated(partition);
       resolve(auth);
     });
 
@@ -590,46 +454,14 @@ export async function scrapeBillingInfo(): Promise<BillingInfo | null> {
       try {
         const result = await billingWindow.webContents.executeJavaScript(`
           (function() {
-            const billing = {
-              creditBalance: null,
-              currency: 'USD',
-              needsLogin: false
-            };
-
-            const text = document.body.innerText;
-
-            // Check if this is a login page
-            if (text.includes('Sign in or create a developer account') ||
-                text.includes('Continue with Google') && text.includes('Continue with email')) {
-              billing.needsLogin = true;
-              return JSON.stringify(billing);
-            }
-
-            // Look for credit balance patterns
-            // Common formats: "$X.XX", "US$X.XX", "$X.XX remaining", "Credit balance: $X.XX"
-            const balancePatterns = [
-              /(?:Credit\\s*balance|Balance|Remaining)[:\\s]*\\$?([\\d,]+\\.\\d{2})/i,
-              /\\$([\\d,]+\\.\\d{2})\\s*(?:remaining|credit|balance)/i,
-              /US\\$([\\d,]+\\.\\d{2})/,
-              /\\$([\\d,]+\\.\\d{2})/
-            ];
-
-            for (const pattern of balancePatterns) {
-              const match = text.match(pattern);
-              if (match) {
-                billing.creditBalance = parseFloat(match[1].replace(/,/g, ''));
-                break;
-              }
-            }
-
-            return JSON.stringify(billing);
+            return JSON.stringify({ text: document.body.innerText });
           })();
         `);
 
         if (resolved) return;
 
         if (result) {
-          const parsed = JSON.parse(result);
+          const parsed = parseBillingText(JSON.parse(result).text || '');
           resolved = true;
           isScrapingBilling = false;
           clearTimeout(timeout);
@@ -650,7 +482,7 @@ export async function scrapeBillingInfo(): Promise<BillingInfo | null> {
 
           resolve({
             creditBalance: parsed.creditBalance,
-            currency: parsed.currency || 'USD',
+            currency: parsed.currency,
             lastUpdated: new Date().toISOString(),
           });
         }
@@ -0,0 +1,185 @@
+// Opt-in localhost HTTP server so status bars, shell prompts and Prometheus can read the
+// latest refresh without going through the popup
+import * as http from 'http';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import type { ClaudeMaxUsage, BillingInfo } from './scraper';
+import type { UsageSnapshot, HistoryQuery } from './history';
+
+export interface StatusAccount {
+  accountId: string;
+  nickname: string;
+  usage: ClaudeMaxUsage | null;
+}
+
+export interface StatusState {
+  accounts: StatusAccount[];
+  billingInfo: BillingInfo | null;
+  lastRefresh: string | null;
+}
+
+export interface StatusServerOptions {
+  port: number;
+  token: string;
+  getState: () => StatusState;
+  queryHistory: (query: HistoryQuery) => UsageSnapshot[];
+}
+
+export const DEFAULT_STATUS_PORT = 47821;
+
+const ALLOWED_HOSTS = ['127.0.0.1', 'localhost'];
+
+let server: http.Server | null = null;
+let startedAt = 0;
+
+export function generateToken(): string {
+  return randomBytes(24).toString('hex');
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+// Prometheus text exposition format, one gauge family per metric
+export function formatMetrics(state: StatusState): string {
+  const families: Record<string, { help: string; samples: string[] }> = {
+    claude_usage_percent: { help: 'Usage of each limit in percent', samples: [] },
+    claude_usage_resets_at_seconds: { help: 'When each limit resets, as a Unix timestamp', samples: [] },
+    claude_usage_authenticated: { help: 'Whether the account is logged in (1) or not (0)', samples: [] },
+    claude_credit_balance_usd: { help: 'Platform API credit balance in USD', samples: [] },
+    claude_usage_last_refresh_seconds: { help: 'Time of the last refresh, as a Unix timestamp', samples: [] },
+  };
+
+  for (const { nickname, usage } of state.accounts) {
+    const account = `account="${escapeLabel(nickname)}"`;
+    families.claude_usage_authenticated.samples.push(`{${account}} ${usage?.isAuthenticated ? 1 : 0}`);
+    if (!usage?.isAuthenticated) continue;
+
+    (usage.bars || []).forEach((bar, index) => {
+      const labels = `{${account},bar="${escapeLabel(bar.label || `Usage ${index + 1}`)}"}`;
+      families.claude_usage_percent.samples.push(`${labels} ${bar.percentage}`);
+      if (bar.resetsAt) {
+        families.claude_usage_resets_at_seconds.samples.push(`${labels} ${Math.floor(Date.parse(bar.resetsAt) / 1000)}`);
+      }
+    });
+  }
+
+  if (state.billingInfo?.creditBalance !== null && state.billingInfo?.creditBalance !== undefined) {
+    families.claude_credit_balance_usd.samples.push(` ${state.billingInfo.creditBalance}`);
+  }
+  if (state.lastRefresh) {
+    families.claude_usage_last_refresh_seconds.samples.push(` ${Math.floor(Date.parse(state.lastRefresh) / 1000)}`);
+  }
+
+  const lines: string[] = [];
+  for (const [name, family] of Object.entries(families)) {
+    if (family.samples.length === 0) continue;
+    lines.push(`# HELP ${name} ${family.help}`, `# TYPE ${name} gauge`);
+    family.samples.forEach(sample => lines.push(`${name}${sample}`));
+  }
+  return lines.join('\n') + '\n';
+}
+
+function isAuthorized(req: http.IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'content-type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body, null, 2));
+}
+
+function handleRequest(options: StatusServerOptions, req: http.IncomingMessage, res: http.ServerResponse) {
+  // Reject requests for other host names so a web page can't reach us via DNS rebinding
+  const host = (req.headers.host || '').replace(/:\d+$/, '');
+  if (!ALLOWED_HOSTS.includes(host)) {
+    sendJson(res, 403, { error: 'Forbidden host' });
+    return;
+  }
+  if (req.method !== 'GET') {
+    sendJson(res, 405, { error: 'Method not allowed' });
+    return;
+  }
+
+  const url = new URL(req.url || '/', 'http://localhost');
+
+  // Health carries no usage data, so it stays open for liveness checks
+  if (url.pathname === '/health') {
+    const state = options.getState();
+    sendJson(res, 200, {
+      status: 'ok',
+      uptimeSeconds: Math.floor((Date.now() - startedAt) / 1000),
+      lastRefresh: state.lastRefresh,
+    });
+    return;
+  }
+
+  if (!isAuthorized(req, options.token)) {
+    res.setHeader('www-authenticate', 'Bearer');
+    sendJson(res, 401, { error: 'Missing or invalid bearer token' });
+    return;
+  }
+
+  const state = options.getState();
+  switch (url.pathname) {
+    case '/usage':
+      sendJson(res, 200, { lastRefresh: state.lastRefresh, accounts: state.accounts });
+      return;
+    case '/billing':
+      sendJson(res, 200, { lastRefresh: state.lastRefresh, billingInfo: state.billingInfo });
+      return;
+    case '/history': {
+      const limit = Number(url.searchParams.get('limit'));
+      sendJson(res, 200, options.queryHistory({
+        from: url.searchParams.get('from') || undefined,
+        to: url.searchParams.get('to') || undefined,
+        label: url.searchParams.get('label') || undefined,
+        accountId: url.searchParams.get('accountId') || undefined,
+        limit: Number.isFinite(limit) && limit > 0 ? limit : undefined,
+      }));
+      return;
+    }
+    case '/metrics':
+      res.writeHead(200, { 'content-type': 'text/plain; version=0.0.4; charset=utf-8' });
+      res.end(formatMetrics(state));
+      return;
+    default:
+      sendJson(res, 404, { error: 'Not found', endpoints: ['/usage', '/billing', '/history', '/health', '/metrics'] });
+  }
+}
+
+export function startStatusServer(options: StatusServerOptions): Promise<void> {
+  return stopStatusServer().then(() => new Promise((resolve, reject) => {
+    const newServer = http.createServer((req, res) => handleRequest(options, req, res));
+    newServer.once('error', reject);
+    // Loopback only - never reachable from the network
+    newServer.listen(options.port, '127.0.0.1', () => {
+      newServer.off('error', reject);
+      server = newServer;
+      startedAt = Date.now();
+      console.log(`Status server listening on http://127.0.0.1:${options.port}`);
+      resolve();
+    });
+  }));
+}
+
+export function stopStatusServer(): Promise<void> {
+  return new Promise(resolve => {
+    if (!server) {
+      resolve();
+      return;
+    }
+    const closing = server;
+    server = null;
+    closing.close(() => resolve());
+    closing.closeAllConnections();
+  });
+}
+
+export function isStatusServerRunning(): boolean {
+  return server !== null;
+}
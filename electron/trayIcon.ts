@@ -0,0 +1,242 @@
+// Tray icon rendered from the latest usage. Everything here is pure so the drawing can be
+// checked without Electron - main.ts turns the pixels into a nativeImage.
+import type { ClaudeMaxUsage, UsageBar } from './scraper';
+
+export type TrayIconStyle = 'ring' | 'bar' | 'static';
+
+export interface TrayIconOptions {
+  style: Exclude<TrayIconStyle, 'static'>;
+  showPercentage: boolean;
+  warningAt: number;  // Amber from this percentage
+  criticalAt: number; // Red from this percentage
+}
+
+export interface TrayIconImage {
+  width: number;
+  height: number;
+  scaleFactor: number; // Drawn at 2x so it stays sharp on high-DPI menu bars
+  rgba: Buffer;
+}
+
+export interface TrayAccountUsage {
+  nickname: string;
+  usage: ClaudeMaxUsage | null;
+}
+
+type Color = [number, number, number];
+
+const SIZE = 32;
+const SCALE_FACTOR = 2;
+const SUPERSAMPLE = 4;
+
+const COLOR_OK: Color = [34, 197, 94];
+const COLOR_WARNING: Color = [245, 158, 11];
+const COLOR_CRITICAL: Color = [239, 68, 68];
+const COLOR_INACTIVE: Color = [128, 128, 128];
+const TRACK_ALPHA = 0.3;
+
+// 3x5 pixel digits, one string per row
+const DIGITS: Record<string, string[]> = {
+  '0': ['111', '101', '101', '101', '111'],
+  '1': ['010', '110', '010', '010', '111'],
+  '2': ['111', '001', '111', '100', '111'],
+  '3': ['111', '001', '111', '001', '111'],
+  '4': ['101', '101', '111', '001', '001'],
+  '5': ['111', '100', '111', '001', '111'],
+  '6': ['111', '100', '111', '101', '111'],
+  '7': ['111', '001', '001', '001', '001'],
+  '8': ['111', '101', '111', '101', '111'],
+  '9': ['111', '101', '111', '001', '111'],
+};
+
+export function getUsageColor(percentage: number | null, options: Pick<TrayIconOptions, 'warningAt' | 'criticalAt'>): Color {
+  if (percentage === null) return COLOR_INACTIVE;
+  if (percentage >= options.criticalAt) return COLOR_CRITICAL;
+  if (percentage >= options.warningAt) return COLOR_WARNING;
+  return COLOR_OK;
+}
+
+class Canvas {
+  readonly rgba = Buffer.alloc(SIZE * SIZE * 4);
+
+  // Blend a color over the pixel with the given coverage (0-1)
+  blend(x: number, y: number, color: Color, alpha: number) {
+    if (x < 0 || y < 0 || x >= SIZE || y >= SIZE || alpha <= 0) return;
+    const i = (y * SIZE + x) * 4;
+    const dstA = this.rgba[i + 3] / 255;
+    const outA = alpha + dstA * (1 - alpha);
+    for (let c = 0; c < 3; c++) {
+      const blended = (color[c] * alpha + this.rgba[i + c] * dstA * (1 - alpha)) / outA;
+      this.rgba[i + c] = Math.round(blended);
+    }
+    this.rgba[i + 3] = Math.round(outA * 255);
+  }
+
+  // Fill each pixel by the share of its subsamples that fall inside the shape
+  fillShape(color: Color, alpha: number, inside: (x: number, y: number) => boolean) {
+    for (let y = 0; y < SIZE; y++) {
+      for (let x = 0; x < SIZE; x++) {
+        let hits = 0;
+        for (let sy = 0; sy < SUPERSAMPLE; sy++) {
+          for (let sx = 0; sx < SUPERSAMPLE; sx++) {
+            if (inside(x + (sx + 0.5) / SUPERSAMPLE, y + (sy + 0.5) / SUPERSAMPLE)) hits++;
+          }
+        }
+        this.blend(x, y, color, alpha * hits / (SUPERSAMPLE * SUPERSAMPLE));
+      }
+    }
+  }
+
+  // Draw digits centered on (cx, top) with each font pixel scaled up
+  drawNumber(text: string, cx: number, top: number, scale: number, color: Color) {
+    const width = text.length * 3 * scale + (text.length - 1) * scale;
+    let left = Math.round(cx - width / 2);
+    for (const char of text) {
+      const glyph = DIGITS[char];
+      if (!glyph) continue;
+      glyph.forEach((row, gy) => {
+        [...row].forEach((bit, gx) => {
+          if (bit !== '1') return;
+          for (let py = 0; py < scale; py++) {
+            for (let px = 0; px < scale; px++) {
+              this.blend(left + gx * scale + px, top + gy * scale + py, color, 1);
+            }
+          }
+        });
+      });
+      left += 4 * scale;
+    }
+  }
+}
+
+function drawRing(canvas: Canvas, percentage: number | null, color: Color, showPercentage: boolean) {
+  const center = SIZE / 2;
+  const outer = SIZE / 2 - 1;
+  const inner = outer - (showPercentage ? 3.5 : 6);
+  const fraction = percentage === null ? 0 : Math.min(Math.max(percentage, 0), 100) / 100;
+
+  const inRing = (x: number, y: number) => {
+    const d = Math.hypot(x - center, y - center);
+    return d >= inner && d <= outer;
+  };
+  // Angle measured clockwise from 12 o'clock, as a fraction of a full turn
+  const turn = (x: number, y: number) => {
+    const angle = Math.atan2(x - center, center - y);
+    return (angle < 0 ? angle + 2 * Math.PI : angle) / (2 * Math.PI);
+  };
+
+  canvas.fillShape(color, TRACK_ALPHA, (x, y) => inRing(x, y) && turn(x, y) >= fraction);
+  canvas.fillShape(color, 1, (x, y) => inRing(x, y) && turn(x, y) < fraction);
+
+  if (showPercentage && percentage !== null) {
+    canvas.drawNumber(String(Math.round(Math.min(percentage, 100))), center, center - 5, 2, color);
+  }
+}
+
+function drawBar(canvas: Canvas, percentage: number | null, color: Color, showPercentage: boolean) {
+  const left = 2;
+  const right = SIZE - 2;
+  const top = showPercentage ? 20 : 10;
+  const bottom = showPercentage ? 29 : 22;
+  const fraction = percentage === null ? 0 : Math.min(Math.max(percentage, 0), 100) / 100;
+  const fillEnd = left + (right - left) * fraction;
+
+  const inBar = (x: number, y: number) => x >= left && x <= right && y >= top && y <= bottom;
+  canvas.fillShape(color, TRACK_ALPHA, (x, y) => inBar(x, y) && x >= fillEnd);
+  canvas.fillShape(color, 1, (x, y) => inBar(x, y) && x < fillEnd);
+
+  if (showPercentage && percentage !== null) {
+    // "100" doesn't fit at the larger digit size
+    const text = String(Math.round(Math.min(percentage, 100)));
+    const scale = text.length > 2 ? 2 : 3;
+    canvas.drawNumber(text, SIZE / 2, 3 + (3 - scale) * 2, scale, color);
+  }
+}
+
+// Render the gauge for one percentage; null draws an empty grey gauge (not logged in)
+export function renderTrayIcon(percentage: number | null, options: TrayIconOptions): TrayIconImage {
+  const canvas = new Canvas();
+  const color = getUsageColor(percentage, options);
+
+  if (options.style === 'bar') {
+    drawBar(canvas, percentage, color, options.showPercentage);
+  } else {
+    drawRing(canvas, percentage, color, options.showPercentage);
+  }
+
+  return { width: SIZE, height: SIZE, scaleFactor: SCALE_FACTOR, rgba: canvas.rgba };
+}
+
+// nativeImage.createFromBuffer expects the platform's BGRA byte order
+export function rgbaToBgra(rgba: Buffer): Buffer {
+  const bgra = Buffer.from(rgba);
+  for (let i = 0; i < bgra.length; i += 4) {
+    bgra[i] = rgba[i + 2];
+    bgra[i + 2] = rgba[i];
+  }
+  return bgra;
+}
+
+function usageBars(usage: ClaudeMaxUsage): UsageBar[] {
+  return usage.bars && usage.bars.length > 0
+    ? usage.bars
+    : [usage.standard, usage.advanced].filter(b => b.percentage > 0 || b.limit > 0);
+}
+
+// Percentage the icon shows: the chosen bar ('highest' = whichever is closest to its
+// limit), taken from the account that is furthest along. Null when nobody is logged in.
+export function pickTrayPercentage(accounts: TrayAccountUsage[], barLabel: string): number | null {
+  let result: number | null = null;
+
+  for (const { usage } of accounts) {
+    if (!usage?.isAuthenticated) continue;
+    const bars = usageBars(usage);
+    const candidates = barLabel === 'highest'
+      ? bars
+      : bars.filter(bar => bar.label?.toLowerCase() === barLabel.toLowerCase());
+    for (const bar of candidates) {
+      result = Math.max(result ?? 0, bar.percentage);
+    }
+    if (candidates.length === 0 && result === null) {
+      result = 0;
+    }
+  }
+
+  return result;
+}
+
+function formatReset(resetsAt: string, now: Date): string {
+  const reset = new Date(resetsAt);
+  const time = reset.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return reset.toDateString() === now.toDateString()
+    ? time
+    : `${reset.toLocaleDateString([], { weekday: 'short' })} ${time}`;
+}
+
+function highestPercentage(usage: ClaudeMaxUsage | null): number {
+  if (!usage?.isAuthenticated) return -1;
+  return Math.max(0, ...usageBars(usage).map(bar => bar.percentage || 0));
+}
+
+// One line per bar with its reset time, grouped by account with the worst account first
+export function buildTrayTooltip(accounts: TrayAccountUsage[], now: Date = new Date()): string {
+  const lines = ['Claude Usage Tool'];
+  const sorted = [...accounts].sort((a, b) => highestPercentage(b.usage) - highestPercentage(a.usage));
+
+  for (const account of sorted) {
+    const indent = accounts.length > 1 ? '  ' : '';
+    if (accounts.length > 1) {
+      lines.push(account.nickname);
+    }
+    if (!account.usage?.isAuthenticated) {
+      lines.push(`${indent}Not logged in`);
+      continue;
+    }
+    usageBars(account.usage).forEach((bar, index) => {
+      const reset = bar.resetsAt ? ` (resets ${formatReset(bar.resetsAt, now)})` : '';
+      lines.push(`${indent}${bar.label || `Usage ${index + 1}`}: ${Math.round(bar.percentage)}%${reset}`);
+    });
+  }
+
+  return lines.join('\n');
+}
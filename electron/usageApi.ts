@@ -0,0 +1,142 @@
+// Reads subscription usage from the same JSON endpoints claude.ai's settings page uses,
+// instead of rendering the page in a hidden window
+import type { ClaudeMaxUsage, UsageBar } from './scraper';
+
+// Overridable so the client can be pointed at a local mock server
+const BASE_URL = process.env.CLAUDE_WEB_BASE_URL || 'https://claude.ai';
+
+export type FetchLike = (url: string, init?: RequestInit) => Promise<Response>;
+
+interface Organization {
+  uuid: string;
+  name?: string;
+  capabilities?: string[];
+}
+
+interface UsageWindow {
+  utilization: number | null;
+  resets_at: string | null;
+}
+
+interface UsageResponse {
+  five_hour?: UsageWindow | null;
+  seven_day?: UsageWindow | null;
+  seven_day_sonnet?: UsageWindow | null;
+  seven_day_opus?: UsageWindow | null;
+  extra_usage?: UsageWindow | null;
+}
+
+interface AccountResponse {
+  email_address?: string;
+}
+
+// Map the API's usage windows to the labels shown on the settings page
+const WINDOW_LABELS: Array<[keyof UsageResponse, string]> = [
+  ['five_hour', 'Current session'],
+  ['seven_day', 'All models'],
+  ['seven_day_sonnet', 'Sonnet only'],
+  ['seven_day_opus', 'Opus only'],
+  ['extra_usage', 'Extra usage'],
+];
+
+const PLAN_CAPABILITIES: Array<[string, string]> = [
+  ['claude_max', 'Max'],
+  ['claude_pro', 'Pro'],
+  ['raven', 'Team'],
+];
+
+export interface UsageApiOptions {
+  fetch: FetchLike;
+  orgId?: string;
+  baseUrl?: string;
+}
+
+// Returns null for a logged-out session and throws on any other failure,
+// so callers can fall back to the page scraper
+async function getJson<T>(fetchFn: FetchLike, url: string): Promise<T | null> {
+  const response = await fetchFn(url, {
+    method: 'GET',
+    headers: { accept: 'application/json' },
+  });
+
+  if (response.status === 401 || response.status === 403) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Usage API Error: ${response.status} - ${url}`);
+  }
+  return response.json();
+}
+
+function notAuthenticated(): ClaudeMaxUsage {
+  return {
+    standard: { used: 0, limit: 0, percentage: 0 },
+    advanced: { used: 0, limit: 0, percentage: 0 },
+    resetDate: null,
+    lastUpdated: new Date().toISOString(),
+    isAuthenticated: false,
+  };
+}
+
+function getPlan(org: Organization): string | undefined {
+  const capabilities = org.capabilities || [];
+  return PLAN_CAPABILITIES.find(([capability]) => capabilities.includes(capability))?.[1];
+}
+
+export function usageResponseToBars(usage: UsageResponse): UsageBar[] {
+  const bars: UsageBar[] = [];
+
+  for (const [key, label] of WINDOW_LABELS) {
+    const usageWindow = usage[key];
+    if (!usageWindow || usageWindow.utilization === null || usageWindow.utilization === undefined) continue;
+
+    const percentage = Math.round(usageWindow.utilization);
+    bars.push({
+      used: percentage,
+      limit: 100,
+      percentage,
+      label,
+      resetsAt: usageWindow.resets_at ? new Date(usageWindow.resets_at).toISOString() : undefined,
+    });
+  }
+
+  return bars;
+}
+
+export async function fetchUsageFromApi(options: UsageApiOptions): Promise<ClaudeMaxUsage> {
+  const baseUrl = options.baseUrl || BASE_URL;
+
+  const orgs = await getJson<Organization[]>(options.fetch, `${baseUrl}/api/organizations`);
+  if (!orgs) return notAuthenticated();
+  if (orgs.length === 0) {
+    throw new Error('Usage API Error: no organizations found');
+  }
+
+  // Prefer the organization the user last had open in claude.ai
+  const org = orgs.find(o => o.uuid === options.orgId) || orgs[0];
+
+  const [usage, account] = await Promise.all([
+    getJson<UsageResponse>(options.fetch, `${baseUrl}/api/organizations/${org.uuid}/usage`),
+    getJson<AccountResponse>(options.fetch, `${baseUrl}/api/account`).catch(() => null),
+  ]);
+  if (!usage) return notAuthenticated();
+
+  // An org without any usage windows has nothing to show; let the caller try the page instead
+  const bars = usageResponseToBars(usage);
+  if (bars.length === 0) {
+    throw new Error('Usage API Error: no usage windows found');
+  }
+  const standardBar = bars[0] || { used: 0, limit: 0, percentage: 0 };
+  const advancedBar = bars[1] || { used: 0, limit: 0, percentage: 0 };
+
+  return {
+    standard: standardBar,
+    advanced: advancedBar,
+    bars,
+    resetDate: bars[0]?.resetsAt || null,
+    lastUpdated: new Date().toISOString(),
+    isAuthenticated: true,
+    plan: getPlan(org),
+    email: account?.email_address,
+  };
+}
@@ -0,0 +1,338 @@
+// Pure parsers for the text of claude.ai's usage page and the platform billing page.
+// The scraper only grabs document.body.innerText; everything below runs in the main process.
+import { parseResetTime } from './resetParser';
+import type { UsageBar, UsageConfidence } from './scraper';
+
+export interface ParsedUsagePage {
+  isAuthenticated: boolean;
+  strategy: 'labelled' | 'fallback';
+  bars: UsageBar[];
+  resetDate: string | null;
+  plan: string | null;
+  email: string | null;
+  rawText: string;
+  parseWarnings: string[];
+}
+
+export interface ParsedBillingPage {
+  creditBalance: number | null;
+  currency: string;
+  needsLogin: boolean;
+}
+
+// Section labels on the usage page (English and Korean)
+const SECTION_LABELS = [
+  'Current session',
+  'All models',
+  'Sonnet only',
+  'Sonnet만',
+  'Extra usage',
+  'Weekly limit',
+  'Weekly limits',
+  'Daily limit',
+  'Monthly limit',
+  'Standard',
+  'Advanced',
+  '현재 세션',
+  '모든 모델',
+  '추가 사용량',
+  '주간 한도',
+  '일일 한도',
+  '월간 한도'
+];
+
+const DEFAULT_LABELS = ['Current Session', 'All models', 'Sonnet only', 'Extra usage'];
+
+const KOREAN_LABELS: Record<string, string> = {
+  '현재 세션': 'Current session',
+  '모든 모델': 'All models',
+  '추가 사용량': 'Extra usage',
+  'Sonnet만': 'Sonnet only',
+  '주간 한도': 'Weekly limit',
+  '일일 한도': 'Daily limit',
+  '월간 한도': 'Monthly limit',
+};
+
+export function isUsageLoginPage(text: string, url: string = ''): boolean {
+  return url.includes('/login') ||
+    url.includes('/signup') ||
+    (text.includes('Welcome back') && text.includes('Continue with'));
+}
+
+function isSectionLabel(line: string): boolean {
+  return SECTION_LABELS.some(label => line.toLowerCase() === label.toLowerCase());
+}
+
+// Parse the structured usage sections from Claude's settings page
+// The page structure is:
+// - Current session / Resets in X hr Y min / X% used
+// - All models / Resets Day Time / X% used
+// - Sonnet only / Resets Day Time / X% used
+// - Extra usage / Resets Month Day / X% used
+// Korean pages use the same layout with "... 재설정" and "X% 사용됨" lines
+function parseLabelledSections(text: string): UsageBar[] {
+  const bars: UsageBar[] = [];
+  const lines = text.split('\n').map(l => l.trim()).filter(l => l);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Check if this line matches a section label (case insensitive)
+    if (!isSectionLabel(line)) continue;
+
+    let percentage = 0;
+    let resetInfo = '';
+    let foundPercentage = false;
+
+    // Look at next few lines for reset info and percentage
+    for (let j = i + 1; j < Math.min(i + 8, lines.length); j++) {
+      const nextLine = lines[j];
+
+      // The next section starts, so this one (e.g. a "Weekly limits" header) has no data of its own
+      if (isSectionLabel(nextLine)) break;
+
+      // Look for "Resets ..." / "... 재설정" pattern
+      if (nextLine.toLowerCase().startsWith('reset') || nextLine.includes('재설정')) {
+        resetInfo = nextLine;
+      }
+
+      // Look for "X% used" / "X% 사용됨" pattern
+      const pctMatch = nextLine.match(/(\d+)%\s*(?:used|사용)/i);
+      if (pctMatch) {
+        percentage = parseInt(pctMatch[1], 10);
+        foundPercentage = true;
+        break;
+      }
+
+      // Also look for just "X%" pattern
+      const pctOnlyMatch = nextLine.match(/^(\d+)%$/);
+      if (pctOnlyMatch) {
+        percentage = parseInt(pctOnlyMatch[1], 10);
+        foundPercentage = true;
+        break;
+      }
+    }
+
+    // Only add if we found meaningful data
+    if (!foundPercentage && !resetInfo) continue;
+    // Skip "Weekly limits" header if we have individual models
+    if (line.toLowerCase() === 'weekly limits') continue;
+
+    bars.push({
+      used: percentage,
+      limit: 100,
+      percentage,
+      label: KOREAN_LABELS[line] || line,
+      context: resetInfo || undefined,
+    });
+  }
+
+  return bars;
+}
+
+// Fallback when no labelled sections are found: take the first few distinct
+// percentages on the page and guess their labels from the nearby text
+function parseFallbackPercentages(text: string): UsageBar[] {
+  const bars: UsageBar[] = [];
+  const foundPercentages = new Set<number>();
+
+  // Find all percentage matches with their positions
+  const percentMatches: Array<{ percentage: number; index: number }> = [];
+  const regex = /(\d+)%/g;
+  let match;
+  while ((match = regex.exec(text)) !== null) {
+    const pct = parseInt(match[1], 10);
+    if (pct >= 0 && pct <= 100 && !foundPercentages.has(pct)) {
+      percentMatches.push({ percentage: pct, index: match.index });
+      foundPercentages.add(pct);
+    }
+  }
+
+  // For each percentage, find the closest label before it
+  for (let i = 0; i < Math.min(percentMatches.length, 4); i++) {
+    const pctMatch = percentMatches[i];
+    const beforeText = text.substring(Math.max(0, pctMatch.index - 150), pctMatch.index);
+
+    let label = DEFAULT_LABELS[i] || 'Usage ' + (i + 1);
+    let closestDistance = Infinity;
+
+    for (const labelOption of SECTION_LABELS) {
+      const labelIndex = beforeText.toLowerCase().lastIndexOf(labelOption.toLowerCase());
+      if (labelIndex !== -1) {
+        const distance = beforeText.length - labelIndex;
+        if (distance < closestDistance) {
+          closestDistance = distance;
+          label = labelOption;
+        }
+      }
+    }
+
+    // Normalize Korean labels to English
+    label = KOREAN_LABELS[label] || label;
+
+    // Find reset info (Korean or English) - search only in beforeText for better accuracy
+    // Korean patterns: "4시간 18분 후 재설정", "(토) 오후 4:00에 재설정"
+    // English patterns: "Resets in 4 hr 18 min", "Resets Sat 4:00 PM"
+    let resetInfo = '';
+    const koreanResetMatch = beforeText.match(/[^\n]*(?:후|에)\s*재설정/gi);
+    const englishResetMatch = beforeText.match(/Resets?[^\n]*/gi);
+
+    // Get the last match (closest to the percentage)
+    if (koreanResetMatch && koreanResetMatch.length > 0) {
+      resetInfo = koreanResetMatch[koreanResetMatch.length - 1].trim();
+    } else if (englishResetMatch && englishResetMatch.length > 0) {
+      resetInfo = englishResetMatch[englishResetMatch.length - 1].trim();
+    }
+
+    bars.push({
+      used: pctMatch.percentage,
+      limit: 100,
+      percentage: pctMatch.percentage,
+      label,
+      context: resetInfo || undefined,
+    });
+  }
+
+  return bars;
+}
+
+function parseResetDate(text: string): string | null {
+  const resetPatterns = [
+    /Resets\s+in\s+(\d+\s*hr?\s*\d*\s*min[^\n]*)/i,
+    /Resets\s+(Mon|Tue|Wed|Thu|Fri|Sat|Sun)[^\n]*/i,
+    /resets?\s*(?:on|in|:)?\s*([A-Za-z]+\s+\d+)/i,
+    /in\s+(\d+)\s*days?/i
+  ];
+
+  for (const pattern of resetPatterns) {
+    const match = text.match(pattern);
+    if (match) {
+      return match[0].trim();
+    }
+  }
+  return null;
+}
+
+function parsePlan(text: string): string | null {
+  const planPatterns = [
+    /Claude\s+(Max|Pro|Team|Enterprise|Free)/i,
+    /(Max|Pro|Team|Enterprise)\s+Plan/i,
+    /Plan:\s*(Max|Pro|Team|Enterprise|Free)/i
+  ];
+  for (const pattern of planPatterns) {
+    const match = text.match(pattern);
+    if (match) {
+      return match[1];
+    }
+  }
+
+  // Fallback: check for plan indicators in the page
+  if (text.includes('Extra usage') || text.includes('All models')) {
+    return 'Max';
+  }
+  if (text.includes('Pro features')) {
+    return 'Pro';
+  }
+  return null;
+}
+
+export function parseUsageText(text: string, url: string = '', scrapedAt: Date = new Date()): ParsedUsagePage {
+  const page: ParsedUsagePage = {
+    isAuthenticated: true,
+    strategy: 'labelled',
+    bars: [],
+    resetDate: null,
+    plan: null,
+    email: null,
+    rawText: '',
+    parseWarnings: [],
+  };
+
+  if (isUsageLoginPage(text, url)) {
+    page.isAuthenticated = false;
+    return page;
+  }
+
+  page.rawText = text.substring(0, 2000);
+
+  page.bars = parseLabelledSections(text);
+  if (page.bars.length === 0) {
+    page.strategy = 'fallback';
+    page.bars = parseFallbackPercentages(text);
+    page.parseWarnings.push(
+      page.bars.length > 0
+        ? 'No labelled usage sections found, labels guessed from page percentages'
+        : 'No usage data found on page'
+    );
+  }
+
+  // Resolve reset text into absolute times, reporting anything we can't read
+  for (const bar of page.bars) {
+    if (!bar.context) {
+      page.parseWarnings.push(`${bar.label || 'Usage'}: no reset time found`);
+      continue;
+    }
+    const reset = parseResetTime(bar.context, scrapedAt);
+    if (reset.resetsAt) {
+      bar.resetsAt = reset.resetsAt;
+    } else {
+      page.parseWarnings.push(`${bar.label || 'Usage'}: ${reset.error}`);
+    }
+  }
+
+  page.resetDate = parseResetDate(text);
+  page.plan = parsePlan(text);
+
+  const emailMatch = text.match(/[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/);
+  if (emailMatch) {
+    page.email = emailMatch[0];
+  }
+
+  return page;
+}
+
+// How much to trust a parsed page: labelled sections with readable reset times are
+// what the parser was written for, anything else means the page layout may have changed
+export function assessConfidence(page: ParsedUsagePage): UsageConfidence {
+  if (!page.isAuthenticated) return 'high';
+  if (page.strategy === 'fallback' || page.bars.length === 0) return 'low';
+  if (page.parseWarnings.length > 0 || page.bars.some(bar => !bar.resetsAt)) return 'medium';
+  return 'high';
+}
+
+export function isBillingLoginPage(text: string): boolean {
+  return text.includes('Sign in or create a developer account') ||
+    (text.includes('Continue with Google') && text.includes('Continue with email'));
+}
+
+export function parseBillingText(text: string): ParsedBillingPage {
+  const billing: ParsedBillingPage = {
+    creditBalance: null,
+    currency: 'USD',
+    needsLogin: false,
+  };
+
+  if (isBillingLoginPage(text)) {
+    billing.needsLogin = true;
+    return billing;
+  }
+
+  // Look for credit balance patterns
+  // Common formats: "$X.XX", "US$X.XX", "$X.XX remaining", "Credit balance: $X.XX"
+  const balancePatterns = [
+    /(?:Credit\s*balance|Balance|Remaining)[:\s]*\$?([\d,]+\.\d{2})/i,
+    /\$([\d,]+\.\d{2})\s*(?:remaining|credit|balance)/i,
+    /US\$([\d,]+\.\d{2})/,
+    /\$([\d,]+\.\d{2})/
+  ];
+
+  for (const pattern of balancePatterns) {
+    const match = text.match(pattern);
+    if (match) {
+      billing.creditBalance = parseFloat(match[1].replace(/,/g, ''));
+      break;
+    }
+  }
+
+  return billing;
+}
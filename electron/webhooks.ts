@@ -0,0 +1,137 @@
+// Outbound webhooks for usage alerts - the same events that raise a local notification,
+// posted as generic JSON or in Slack / Discord incoming-webhook format
+import type { FetchLike } from './usageApi';
+
+export type WebhookFormat = 'json' | 'slack' | 'discord';
+
+export interface WebhookConfig {
+  id: string;
+  name: string;
+  url: string;
+  format: WebhookFormat;
+  template: string; // Message text with {{placeholders}}, see renderTemplate
+  enabled: boolean;
+}
+
+export type AlertEventKind = 'level' | 'increase' | 'reset' | 'forecast' | 'budget' | 'balance' | 'test';
+
+export interface AlertEvent {
+  kind: AlertEventKind;
+  title: string;
+  message: string;
+  account: string; // Empty for alerts not tied to a Claude account (budgets, balance)
+  label: string;
+  percentage: number;
+  previous?: number;
+  level?: number;
+  timestamp: string;
+}
+
+export interface WebhookResult {
+  success: boolean;
+  attempts: number;
+  status?: number;
+  error?: string;
+}
+
+export interface WebhookSendOptions {
+  fetch?: FetchLike;
+  retries?: number;     // Extra attempts after the first one
+  baseDelayMs?: number; // Doubled after every failed attempt
+  timeoutMs?: number;
+}
+
+export const DEFAULT_WEBHOOK_TEMPLATE = '{{title}}: {{message}}';
+
+const DEFAULT_RETRIES = 3;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_TIMEOUT_MS = 10000;
+
+// Placeholders: {{title}} {{message}} {{account}} {{label}} {{percentage}} {{previous}}
+// {{level}} {{kind}} {{timestamp}} - unknown names are left as they are
+export function renderTemplate(template: string, event: AlertEvent): string {
+  const values: Record<string, string> = {
+    title: event.title,
+    message: event.message,
+    account: event.account,
+    label: event.label,
+    percentage: String(event.percentage),
+    previous: event.previous !== undefined ? String(event.previous) : '',
+    level: event.level !== undefined ? String(event.level) : '',
+    kind: event.kind,
+    timestamp: event.timestamp,
+  };
+  return (template || DEFAULT_WEBHOOK_TEMPLATE).replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    name in values ? values[name] : match
+  );
+}
+
+export function buildPayload(format: WebhookFormat, text: string, event: AlertEvent): Record<string, unknown> {
+  switch (format) {
+    case 'slack':
+      return { text };
+    case 'discord':
+      return { content: text };
+    default:
+      return { text, event };
+  }
+}
+
+// Rate limits and server errors are worth retrying, other client errors are not
+function isRetryable(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export async function sendWebhook(
+  config: WebhookConfig,
+  event: AlertEvent,
+  options: WebhookSendOptions = {}
+): Promise<WebhookResult> {
+  const fetchFn: FetchLike = options.fetch || ((url, init) => fetch(url, init));
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const baseDelay = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const body = JSON.stringify(buildPayload(config.format, renderTemplate(config.template, event), event));
+
+  let lastError = '';
+  let lastStatus: number | undefined;
+  let attempts = 0;
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    attempts = attempt + 1;
+    if (attempt > 0) {
+      await sleep(baseDelay * 2 ** (attempt - 1));
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    try {
+      const response = await fetchFn(config.url, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body,
+        signal: controller.signal,
+      });
+      lastStatus = response.status;
+      if (response.ok) {
+        return { success: true, attempts, status: response.status };
+      }
+      lastError = `HTTP ${response.status}`;
+      if (!isRetryable(response.status)) break;
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  return { success: false, attempts, status: lastStatus, error: lastError };
+}
+
+// Webhook URLs often embed a secret token, so results are reported by name only
+export function describeWebhook(config: WebhookConfig): string {
+  return config.name || `${config.format} webhook`;
+}
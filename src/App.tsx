@@ -1,9 +1,12 @@
 import { useState, useEffect, useCallback } from 'react';
 import { ClaudeMaxUsage } from './components/ClaudeMaxUsage';
 import { ApiCosts } from './components/ApiCosts';
+import { ApiSpend } from './components/ApiSpend';
+import { HistoryView } from './components/HistoryView';
+import { EfficiencyView } from './components/EfficiencyView';
 import { Settings } from './components/Settings';
 import { useLanguage } from './i18n/LanguageContext';
-import type { ClaudeMaxUsage as ClaudeMaxUsageType, BillingInfo, RefreshData, LogEntry } from './types';
+import type { ClaudeMaxUsage as ClaudeMaxUsageType, AccountUsage, BillingInfo, BudgetReport, RefreshData, LogEntry } from './types';
 
 // Check if running inside Electron
 const isElectron = typeof window !== 'undefined' && window.electronAPI !== undefined;
@@ -21,6 +24,18 @@ function App() {
     }
   });
   
+  const [accounts, setAccounts] = useState<AccountUsage[]>(() => {
+    try {
+      const cached = localStorage.getItem('accounts');
+      return cached ? JSON.parse(cached) : [];
+    } catch {
+      return [];
+    }
+  });
+  const [selectedAccountId, setSelectedAccountId] = useState<string | null>(
+    () => localStorage.getItem('selectedAccountId')
+  );
+
   const [billingInfo, setBillingInfo] = useState<BillingInfo | null>(() => {
     try {
       const cached = localStorage.getItem('billingInfo');
@@ -30,6 +45,8 @@ function App() {
     }
   });
   
+  const [budgetReport, setBudgetReport] = useState<BudgetReport | null>(null);
+
   const [lastUpdated, setLastUpdated] = useState<Date | null>(() => {
     try {
       const cached = localStorage.getItem('lastUpdated');
@@ -42,7 +59,9 @@ function App() {
   const [loading, setLoading] = useState(true);
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [showSettings, setShowSettings] = useState(false);
+  const [activeTab, setActiveTab] = useState<'usage' | 'history' | 'efficiency'>('usage');
   const [refreshInterval, setRefreshInterval] = useState(60);
+  const [adminKeyConfigured, setAdminKeyConfigured] = useState(false);
 
   const refreshData = useCallback(async () => {
     if (!isElectron) {
@@ -59,6 +78,14 @@ function App() {
     // Don't set loading to false here - let the data update event do it
   }, []);
 
+  // Only show the API Spend section when an Admin API key is available
+  const loadAdminKeyStatus = useCallback(async () => {
+    if (window.electronAPI?.getAdminKeyStatus) {
+      const status = await window.electronAPI.getAdminKeyStatus();
+      setAdminKeyConfigured(status.configured);
+    }
+  }, []);
+
   useEffect(() => {
     if (!isElectron) {
       setLoading(false);
@@ -74,13 +101,17 @@ function App() {
     };
     loadSettings();
 
+    loadAdminKeyStatus();
+
     // Initial data load
     refreshData();
 
     // Listen for auto-refresh updates
     const unsubscribe = window.electronAPI.onDataRefresh((data: RefreshData) => {
       setClaudeUsage(data.claudeUsage);
+      setAccounts(data.accounts || []);
       setBillingInfo(data.billingInfo);
+      setBudgetReport(data.budgetReport ?? null);
       setLastUpdated(new Date(data.timestamp));
       if (data.logs) {
         setLogs(data.logs);
@@ -92,6 +123,9 @@ function App() {
         if (data.claudeUsage) {
           localStorage.setItem('claudeUsage', JSON.stringify(data.claudeUsage));
         }
+        if (data.accounts) {
+          localStorage.setItem('accounts', JSON.stringify(data.accounts));
+        }
         if (data.billingInfo) {
           localStorage.setItem('billingInfo', JSON.stringify(data.billingInfo));
         }
@@ -104,16 +138,37 @@ function App() {
     return () => {
       unsubscribe();
     };
-  }, [refreshData]);
+  }, [refreshData, loadAdminKeyStatus]);
+
+  // With several accounts the popup shows one at a time, picked from the account pills
+  const selectedAccount = accounts.find(a => a.accountId === selectedAccountId) || accounts[0];
+  const displayedUsage = accounts.length > 1 && selectedAccount ? selectedAccount.usage : claudeUsage;
+
+  const selectAccount = (accountId: string) => {
+    setSelectedAccountId(accountId);
+    localStorage.setItem('selectedAccountId', accountId);
+  };
 
   const handleLogin = async () => {
     if (!isElectron) return;
-    const success = await window.electronAPI.openClaudeLogin();
+    const success = await window.electronAPI.openClaudeLogin(selectedAccount?.accountId);
     if (success) {
       refreshData();
     }
   };
 
+  const handleLogout = async () => {
+    if (!window.electronAPI?.logoutClaude) return;
+    setLoading(true);
+    await window.electronAPI.logoutClaude(selectedAccount?.accountId);
+  };
+
+  const handlePlatformLogout = async () => {
+    if (!window.electronAPI?.logoutPlatform) return;
+    setLoading(true);
+    await window.electronAPI.logoutPlatform();
+  };
+
   const handlePlatformLogin = async () => {
     if (!isElectron) return;
     const success = await window.electronAPI.openPlatformLogin();
@@ -138,7 +193,7 @@ function App() {
   }
 
   // Build header title - Claude "Plan" Plan Usage
-  const planName = claudeUsage?.plan || 'Max';
+  const planName = displayedUsage?.plan || 'Max';
   const headerTitle = language === 'ko' 
     ? `Claude ${planName} ${t.planUsage}` 
     : `Claude "${planName}" ${t.planUsage}`;
@@ -203,19 +258,89 @@ function App() {
           </div>
         </div>
 
-      {/* Claude Max Usage Section */}
-      <ClaudeMaxUsage
-        usage={claudeUsage}
-        onLogin={handleLogin}
-        loading={loading}
-      />
+      {/* Tabs */}
+      <div style={{ display: 'flex', borderBottom: '1px solid var(--border)' }}>
+        {/* Efficiency needs the Admin API usage report */}
+        {(adminKeyConfigured ? ['usage', 'history', 'efficiency'] as const : ['usage', 'history'] as const).map(tab => (
+          <button
+            key={tab}
+            onClick={() => setActiveTab(tab)}
+            style={{
+              flex: 1,
+              background: 'none',
+              border: 'none',
+              borderBottom: activeTab === tab ? '2px solid var(--accent)' : '2px solid transparent',
+              color: activeTab === tab ? 'var(--text-primary)' : 'var(--text-secondary)',
+              fontSize: 11,
+              padding: '6px 0',
+              cursor: 'pointer'
+            }}
+          >
+            {tab === 'usage' ? t.usageTab : tab === 'history' ? t.historyTab : t.efficiencyTab}
+          </button>
+        ))}
+      </div>
 
-      {/* Credit Balance Section */}
-      <ApiCosts
-        billingInfo={billingInfo}
-        loading={loading}
-        onPlatformLogin={handlePlatformLogin}
-      />
+      {/* Account pills */}
+      {accounts.length > 1 && (
+        <div style={{ display: 'flex', gap: 4, padding: '6px 10px 0', flexWrap: 'wrap' }}>
+          {accounts.map(account => {
+            const active = account.accountId === selectedAccount?.accountId;
+            return (
+              <button
+                key={account.accountId}
+                onClick={() => selectAccount(account.accountId)}
+                style={{
+                  background: active ? 'var(--accent)' : 'var(--bg-tertiary)',
+                  color: active ? '#fff' : 'var(--text-secondary)',
+                  border: 'none',
+                  borderRadius: 10,
+                  fontSize: 10,
+                  padding: '2px 8px',
+                  cursor: 'pointer'
+                }}
+              >
+                {account.nickname}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {activeTab === 'history' ? (
+        <HistoryView
+          refreshKey={lastUpdated ? lastUpdated.getTime() : null}
+          accountId={selectedAccount?.accountId}
+        />
+      ) : activeTab === 'efficiency' && adminKeyConfigured ? (
+        <EfficiencyView refreshKey={lastUpdated ? lastUpdated.getTime() : null} />
+      ) : (
+        <>
+        {/* Claude Max Usage Section */}
+        <ClaudeMaxUsage
+          usage={displayedUsage}
+          onLogin={handleLogin}
+          onLogout={handleLogout}
+          loading={loading}
+          onResetReached={refreshData}
+          accountId={selectedAccount?.accountId}
+        />
+
+        {/* Credit Balance Section */}
+        <ApiCosts
+          billingInfo={billingInfo}
+          budgetReport={budgetReport}
+          loading={loading}
+          onPlatformLogin={handlePlatformLogin}
+          onPlatformLogout={handlePlatformLogout}
+        />
+
+        {/* Admin API Spend Section */}
+        {adminKeyConfigured && (
+          <ApiSpend refreshKey={lastUpdated ? lastUpdated.getTime() : null} />
+        )}
+        </>
+      )}
 
       {/* Footer with logs */}
       <div style={{
@@ -256,7 +381,15 @@ function App() {
       </div>
     </div>
     
-    {showSettings && <Settings onClose={() => setShowSettings(false)} />}
+    {showSettings && (
+      <Settings
+        onClose={() => {
+          setShowSettings(false);
+          // The admin key may have been added or removed in Settings
+          loadAdminKeyStatus();
+        }}
+      />
+    )}
     </>
   );
 }
@@ -1,13 +1,93 @@
 import { useLanguage } from '../i18n/LanguageContext';
-import type { BillingInfo } from '../types';
+import type { BillingInfo, BudgetReport, BudgetStatus, BudgetState } from '../types';
 
 interface Props {
   billingInfo: BillingInfo | null;
+  budgetReport?: BudgetReport | null;
   loading: boolean;
   onPlatformLogin: () => void;
+  onPlatformLogout?: () => void;
 }
 
-export function ApiCosts({ billingInfo, loading, onPlatformLogin }: Props) {
+const STATE_COLORS: Record<BudgetState, string> = {
+  ok: 'var(--success)',
+  warning: 'var(--warning)',
+  'projected-over': 'var(--warning)',
+  over: 'var(--error)',
+};
+
+function BudgetRow({ status }: { status: BudgetStatus }) {
+  const { t } = useLanguage();
+  const { budget, spent, projected, state } = status;
+  const name = budget.scope === 'total'
+    ? t.budgetTotal
+    : budget.scope === 'workspace' ? `${t.budgetWorkspace} ${budget.target}` : budget.target;
+  const note = state === 'over'
+    ? t.budgetOver
+    : state === 'projected-over'
+      ? `${t.budgetOnPaceFor} $${projected?.toFixed(2)}`
+      : null;
+
+  return (
+    <div style={{ marginTop: 6 }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 11, marginBottom: 2 }}>
+        <span style={{
+          color: 'var(--text-secondary)',
+          overflow: 'hidden',
+          textOverflow: 'ellipsis',
+          whiteSpace: 'nowrap',
+          marginRight: 8
+        }}>
+          {name}
+        </span>
+        <span style={{ color: 'var(--text-primary)', flexShrink: 0 }}>
+          ${spent.toFixed(2)} / ${budget.monthlyLimit.toFixed(2)}
+        </span>
+      </div>
+      <div className="progress-bar" style={{ height: 4, borderRadius: 2 }}>
+        <div
+          className="progress-fill"
+          style={{
+            width: `${Math.min(spent / budget.monthlyLimit * 100, 100)}%`,
+            background: STATE_COLORS[state],
+            height: '100%',
+            borderRadius: 2,
+          }}
+        />
+      </div>
+      {note && (
+        <div style={{ fontSize: 10, color: STATE_COLORS[state], marginTop: 2 }}>
+          ⚠ {note}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Month-to-date spend against the configured budgets
+function BudgetSummary({ report }: { report: BudgetReport }) {
+  const { t } = useLanguage();
+  if (report.spent === null) return null;
+
+  return (
+    <div style={{ marginTop: 8 }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 11 }}>
+        <span className="stat-label">{t.thisMonth}</span>
+        <span style={{ color: 'var(--text-primary)' }}>
+          ${report.spent.toFixed(2)}
+          {report.projected !== null && (
+            <span style={{ color: 'var(--text-muted)' }}> · {t.projected} ${report.projected.toFixed(2)}</span>
+          )}
+        </span>
+      </div>
+      {report.budgets.map(status => (
+        <BudgetRow key={status.budget.id} status={status} />
+      ))}
+    </div>
+  );
+}
+
+export function ApiCosts({ billingInfo, budgetReport, loading, onPlatformLogin, onPlatformLogout }: Props) {
   const { t } = useLanguage();
   
   if (loading && !billingInfo) {
@@ -37,6 +117,7 @@ export function ApiCosts({ billingInfo, loading, onPlatformLogin }: Props) {
             {t.loginToPlatformButton}
           </button>
         </div>
+        {budgetReport && <BudgetSummary report={budgetReport} />}
       </div>
     );
   }
@@ -68,6 +149,23 @@ export function ApiCosts({ billingInfo, loading, onPlatformLogin }: Props) {
           {t.remainingBalance}
         </div>
       </div>
+      {budgetReport?.lowBalance && (
+        <div className="error" style={{ fontSize: 10, padding: '6px 8px', marginTop: 8 }}>
+          ⚠ {t.lowBalanceWarning} (US${budgetReport.lowBalanceThreshold.toFixed(2)})
+        </div>
+      )}
+      {budgetReport && <BudgetSummary report={budgetReport} />}
+      {onPlatformLogout && (
+        <div style={{ textAlign: 'right', marginTop: 6 }}>
+          <button
+            className="btn btn-secondary"
+            onClick={onPlatformLogout}
+            style={{ padding: '2px 6px', fontSize: 9 }}
+          >
+            {t.logoutPlatform}
+          </button>
+        </div>
+      )}
     </div>
   );
 }
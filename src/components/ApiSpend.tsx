@@ -0,0 +1,201 @@
+import { useState, useEffect } from 'react';
+import { useLanguage } from '../i18n/LanguageContext';
+import type { ApiSpendSummary, AdminApiErrorInfo } from '../types';
+import type { Translations } from '../i18n/translations';
+
+interface Props {
+  // Changes whenever the app refreshes so the summary is re-requested
+  refreshKey: number | null;
+}
+
+function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}K`;
+  return String(count);
+}
+
+function formatCost(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+function Row({ label, value }: { label: string; value: string }) {
+  return (
+    <div style={{
+      display: 'flex',
+      justifyContent: 'space-between',
+      fontSize: 11,
+      padding: '2px 0'
+    }}>
+      <span style={{
+        color: 'var(--text-secondary)',
+        overflow: 'hidden',
+        textOverflow: 'ellipsis',
+        whiteSpace: 'nowrap',
+        marginRight: 8
+      }}>
+        {label}
+      </span>
+      <span style={{ color: 'var(--text-primary)', flexShrink: 0 }}>{value}</span>
+    </div>
+  );
+}
+
+function describeError(error: AdminApiErrorInfo, t: Translations): string {
+  switch (error.kind) {
+    case 'auth':
+      return t.adminApiAuthError;
+    case 'permission':
+      return t.adminApiPermissionError;
+    case 'rate-limited':
+      return t.adminApiRateLimited;
+    case 'server':
+      return `${t.adminApiServerError}${error.status ? ` (${error.status})` : ''}`;
+    case 'network':
+      return t.adminApiNetworkError;
+    default:
+      return error.message;
+  }
+}
+
+function ErrorNote({ error }: { error: AdminApiErrorInfo }) {
+  const { t } = useLanguage();
+  return (
+    <div className="error" style={{ fontSize: 10, padding: '6px 8px', marginBottom: 8 }} title={error.message}>
+      ⚠ {describeError(error, t)}
+    </div>
+  );
+}
+
+export function ApiSpend({ refreshKey }: Props) {
+  const { t } = useLanguage();
+  const [summary, setSummary] = useState<ApiSpendSummary | null>(null);
+  const [error, setError] = useState<AdminApiErrorInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadSpend = async () => {
+      if (!window.electronAPI?.getApiSpend) {
+        setLoading(false);
+        return;
+      }
+      try {
+        const result = await window.electronAPI.getApiSpend();
+        if (!cancelled) {
+          setSummary(result.summary);
+          setError(result.error);
+        }
+      } catch (error) {
+        console.error('Failed to load API spend:', error);
+      }
+      if (!cancelled) setLoading(false);
+    };
+    loadSpend();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  if (loading && !summary) {
+    return (
+      <div className="section">
+        <div className="section-title">{t.apiSpend}</div>
+        <div className="loading">{t.loading}</div>
+      </div>
+    );
+  }
+
+  if (!summary) {
+    return (
+      <div className="section" style={{ paddingTop: 8, paddingBottom: 8 }}>
+        <div className="section-title">{t.apiSpend}</div>
+        {error ? (
+          <ErrorNote error={error} />
+        ) : (
+          <div style={{ color: 'var(--text-muted)', fontSize: 11 }}>
+            {t.noApiSpendData}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const modelCosts = Object.entries(summary.costByModel).sort((a, b) => b[1] - a[1]);
+  const modelTokens = Object.entries(summary.usageByModel).sort((a, b) => b[1].total - a[1].total);
+
+  return (
+    <div className="section" style={{ paddingTop: 8, paddingBottom: 8 }}>
+      <div className="section-title">{t.apiSpend}</div>
+      {error && <ErrorNote error={error} />}
+
+      {/* Total cost card */}
+      <div style={{
+        background: 'var(--bg-tertiary)',
+        borderRadius: 10,
+        padding: 12,
+        textAlign: 'center',
+        marginBottom: 8
+      }}>
+        <div style={{
+          fontSize: 22,
+          fontWeight: 400,
+          color: 'var(--text-primary)',
+          marginBottom: 2,
+          letterSpacing: '-0.5px'
+        }}>
+          {formatCost(summary.totalCost)}
+        </div>
+        <div style={{ fontSize: 11, color: 'var(--text-muted)' }}>
+          {t.last30Days}
+        </div>
+      </div>
+
+      {modelCosts.length > 0 && (
+        <div style={{ marginBottom: 8 }}>
+          <div className="stat-label" style={{ marginBottom: 2 }}>{t.costByModel}</div>
+          {modelCosts.map(([model, cost]) => (
+            <Row key={model} label={model} value={formatCost(cost)} />
+          ))}
+        </div>
+      )}
+
+      <div style={{ marginBottom: 8 }}>
+        <div className="stat-label" style={{ marginBottom: 2 }}>
+          {t.tokens} · {formatTokens(summary.tokenTotals.total)}
+        </div>
+        <Row label={t.inputTokens} value={formatTokens(summary.tokenTotals.input)} />
+        <Row label={t.outputTokens} value={formatTokens(summary.tokenTotals.output)} />
+        <Row label={t.cachedTokens} value={formatTokens(summary.tokenTotals.cached)} />
+        <Row label={t.cacheWriteTokens} value={formatTokens(summary.tokenTotals.cacheWrite)} />
+        {summary.tokenTotals.webSearches > 0 && (
+          <Row label={t.webSearches} value={summary.tokenTotals.webSearches.toLocaleString()} />
+        )}
+      </div>
+
+      {modelTokens.length > 0 && (
+        <div>
+          <div className="stat-label" style={{ marginBottom: 2 }}>{t.tokensByModel}</div>
+          {modelTokens.map(([model, totals]) => (
+            <Row
+              key={model}
+              label={model}
+              value={`${formatTokens(totals.input)} / ${formatTokens(totals.output)} / ${formatTokens(totals.cached)}`}
+            />
+          ))}
+        </div>
+      )}
+
+      {window.electronAPI?.openReportExplorer && (
+        <button
+          onClick={() => window.electronAPI?.openReportExplorer?.()}
+          className="btn btn-secondary"
+          style={{ width: '100%', marginTop: 8, padding: '4px 8px', fontSize: 10 }}
+        >
+          {t.reportOpen}
+        </button>
+      )}
+    </div>
+  );
+}
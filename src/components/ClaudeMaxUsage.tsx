@@ -1,37 +1,196 @@
+import { useState, useEffect, useRef } from 'react';
 import { useLanguage } from '../i18n/LanguageContext';
-import type { ClaudeMaxUsage as ClaudeMaxUsageType, UsageBar as UsageBarType } from '../types';
+import type { Translations } from '../i18n/translations';
+import { UsageChart } from './UsageChart';
+import type { ClaudeMaxUsage as ClaudeMaxUsageType, UsageBar as UsageBarType, BarProjection } from '../types';
 
 interface Props {
   usage: ClaudeMaxUsageType | null;
   onLogin: () => void;
+  onLogout?: () => void;
   loading: boolean;
+  onResetReached?: () => void;
+  accountId?: string;
+}
+
+const RESET_TRIGGER_WINDOW_MS = 60 * 1000;
+
+// Current time, updated every second so countdowns tick between refreshes
+function useNow(intervalMs: number = 1000): number {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+  return now;
+}
+
+// The session limit resets every 5 hours, the weekly limits every 7 days
+function getChartWindowMs(label: string): number {
+  const lower = label.toLowerCase();
+  if (lower.includes('session') || lower.includes('세션')) {
+    return 5 * 60 * 60 * 1000;
+  }
+  return 7 * 24 * 60 * 60 * 1000;
+}
+
+function BarHistoryChart({ label, refreshKey, accountId }: { label: string; refreshKey?: string; accountId?: string }) {
+  const [points, setPoints] = useState<Array<{ time: number; value: number }>>([]);
+  const [range, setRange] = useState(() => {
+    const to = Date.now();
+    return { from: to - getChartWindowMs(label), to };
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    const to = Date.now();
+    const from = to - getChartWindowMs(label);
+
+    const loadHistory = async () => {
+      if (!window.electronAPI?.getHistory) return;
+      const snapshots = await window.electronAPI.getHistory({
+        label,
+        accountId,
+        from: new Date(from).toISOString(),
+      });
+      if (cancelled) return;
+      setRange({ from, to });
+      setPoints(snapshots.map(s => ({
+        time: Date.parse(s.timestamp),
+        value: s.bars[0]?.percentage ?? 0,
+      })));
+    };
+    loadHistory();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [label, refreshKey, accountId]);
+
+  return (
+    <div style={{ marginTop: 6 }}>
+      <UsageChart
+        series={[{ label, color: 'var(--accent)', points }]}
+        from={range.from}
+        to={range.to}
+        height={50}
+      />
+    </div>
+  );
+}
+
+function formatDuration(ms: number, t: Translations): string {
+  const totalMinutes = Math.max(Math.round(ms / 60000), 0);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}${t.unitHours} ${minutes}${t.unitMinutes}` : `${minutes}${t.unitMinutes}`;
+}
+
+function formatCountdown(ms: number, t: Translations): string {
+  const totalSeconds = Math.max(Math.floor(ms / 1000), 0);
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+
+  if (days > 0) return `${days}${t.unitDays} ${hours}${t.unitHours}`;
+  if (hours > 0) return `${hours}${t.unitHours} ${minutes}${t.unitMinutes}`;
+  return `${minutes}${t.unitMinutes} ${seconds}${t.unitSeconds}`;
+}
+
+function ResetCountdown({ resetsAt, now }: { resetsAt: string; now: number }) {
+  const { t } = useLanguage();
+  const resetTime = Date.parse(resetsAt);
+  const remaining = resetTime - now;
+  const absolute = new Date(resetTime).toLocaleString([], {
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+  const text = remaining <= 0 ? t.resetRefreshing : t.resetsIn(formatCountdown(remaining, t));
+
+  return (
+    <div
+      title={absolute}
+      style={{
+        fontSize: 10,
+        color: 'var(--text-muted)',
+        marginTop: 2
+      }}
+    >
+      {text}
+    </div>
+  );
+}
+
+function ProjectionInfo({ projection }: { projection: BarProjection }) {
+  const { t } = useLanguage();
+
+  if (projection.exhaustsBeforeReset && projection.exhaustsAt) {
+    const time = new Date(projection.exhaustsAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    const margin = projection.marginMs !== null ? formatDuration(projection.marginMs, t) : null;
+    return (
+      <div style={{ fontSize: 10, color: 'var(--warning)', marginTop: 2 }}>
+        {t.projectionHitsLimit(time, margin)}
+      </div>
+    );
+  }
+
+  if (projection.projectedAtReset !== null && projection.burnRatePerHour > 0) {
+    const pct = Math.round(projection.projectedAtReset);
+    return (
+      <div style={{ fontSize: 10, color: 'var(--text-muted)', marginTop: 2 }}>
+        {t.projectionAtReset(pct)}
+      </div>
+    );
+  }
+
+  return null;
 }
 
 function UsageBarComponent({
   bar,
   label,
-  resetInfo
+  resetInfo,
+  expanded,
+  onToggle,
+  refreshKey,
+  accountId,
+  now
 }: {
   bar: UsageBarType;
   label: string;
   resetInfo?: string;
+  expanded: boolean;
+  onToggle: () => void;
+  refreshKey?: string;
+  accountId?: string;
+  now: number;
 }) {
   const displayLabel = bar.label || label;
   const percentage = Math.round(bar.percentage);
 
   return (
     <div style={{ marginBottom: 10 }}>
-      <div style={{
-        display: 'flex',
-        justifyContent: 'space-between',
-        alignItems: 'baseline',
-        marginBottom: 4
-      }}>
+      <div
+        onClick={onToggle}
+        style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'baseline',
+          marginBottom: 4,
+          cursor: 'pointer'
+        }}
+      >
         <span style={{
           fontSize: 12,
           color: 'var(--text-primary)',
           fontWeight: 400
         }}>
+          <span style={{ fontSize: 8, color: 'var(--text-muted)', marginRight: 4 }}>
+            {expanded ? '▼' : '▶'}
+          </span>
           {displayLabel}
         </span>
         <span style={{
@@ -53,7 +212,9 @@ function UsageBarComponent({
           }}
         />
       </div>
-      {resetInfo && (
+      {bar.resetsAt ? (
+        <ResetCountdown resetsAt={bar.resetsAt} now={now} />
+      ) : resetInfo && (
         <div style={{
           fontSize: 10,
           color: 'var(--text-muted)',
@@ -62,12 +223,44 @@ function UsageBarComponent({
           {resetInfo}
         </div>
       )}
+      {bar.projection && <ProjectionInfo projection={bar.projection} />}
+      {expanded && <BarHistoryChart label={displayLabel} refreshKey={refreshKey} accountId={accountId} />}
     </div>
   );
 }
 
-export function ClaudeMaxUsage({ usage, onLogin, loading }: Props) {
+export function ClaudeMaxUsage({ usage, onLogin, onLogout, loading, onResetReached, accountId }: Props) {
   const { t } = useLanguage();
+  const [expandedLabels, setExpandedLabels] = useState<Set<string>>(new Set());
+  const now = useNow();
+  // Reset times that already triggered a refresh, so each one only fires once
+  const triggeredResets = useRef<Set<string>>(new Set());
+
+  // When a limit resets, refresh right away so the bar drops back to 0%.
+  // Resets that passed long ago (e.g. stale cached data) are left to the regular refresh.
+  useEffect(() => {
+    if (!onResetReached || !usage?.bars) return;
+    const expired = usage.bars.filter(bar => {
+      if (!bar.resetsAt || triggeredResets.current.has(bar.resetsAt)) return false;
+      const sinceReset = now - Date.parse(bar.resetsAt);
+      return sinceReset >= 0 && sinceReset < RESET_TRIGGER_WINDOW_MS;
+    });
+    if (expired.length === 0) return;
+    expired.forEach(bar => triggeredResets.current.add(bar.resetsAt!));
+    onResetReached();
+  }, [now, usage, onResetReached]);
+
+  const toggleExpanded = (label: string) => {
+    setExpandedLabels(prev => {
+      const next = new Set(prev);
+      if (next.has(label)) {
+        next.delete(label);
+      } else {
+        next.add(label);
+      }
+      return next;
+    });
+  };
   
   // Show loading first if we don't have data yet
   if (loading && !usage) {
@@ -120,19 +313,43 @@ export function ClaudeMaxUsage({ usage, onLogin, loading }: Props) {
 
   return (
     <div className="section" style={{ paddingTop: 8 }}>
+      {usage.confidence === 'low' && (
+        <div className="error" style={{ fontSize: 10, padding: '6px 8px', marginBottom: 8 }}>
+          ⚠ {t.lowConfidenceWarning}
+        </div>
+      )}
       {bars.length === 0 ? (
         <div style={{ color: 'var(--text-muted)', fontSize: 12, padding: '8px 0' }}>
           {t.noUsageData}
         </div>
       ) : (
-        bars.map((bar, index) => (
-          <UsageBarComponent
-            key={index}
-            bar={bar}
-            label={getLabel(bar, index)}
-            resetInfo={getResetInfo(bar)}
-          />
-        ))
+        bars.map((bar, index) => {
+          const label = getLabel(bar, index);
+          return (
+            <UsageBarComponent
+              key={index}
+              bar={bar}
+              label={label}
+              resetInfo={getResetInfo(bar)}
+              expanded={expandedLabels.has(label)}
+              onToggle={() => toggleExpanded(label)}
+              refreshKey={usage.lastUpdated}
+              accountId={accountId}
+              now={now}
+            />
+          );
+        })
+      )}
+      {onLogout && (
+        <div style={{ textAlign: 'right' }}>
+          <button
+            className="btn btn-secondary"
+            onClick={onLogout}
+            style={{ padding: '2px 6px', fontSize: 9 }}
+          >
+            {t.logoutClaude}
+          </button>
+        </div>
       )}
     </div>
   );
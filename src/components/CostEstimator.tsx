@@ -0,0 +1,213 @@
+import { useState } from 'react';
+import { useLanguage } from '../i18n/LanguageContext';
+import { EntityName } from './EntityName';
+import type { EstimateRequest, CostEstimate, ReportDimension, ReportRange, AdminApiErrorInfo } from '../types';
+
+interface Props {
+  dimensionLabel: (dimension: ReportDimension) => string;
+}
+
+const DIMENSIONS: ReportDimension[] = ['api_key_id', 'workspace_id', 'model', 'service_tier', 'context_window'];
+
+function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}K`;
+  return String(count);
+}
+
+function formatCost(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+function formatDifference(difference: number | null, actual: number | null): string {
+  if (difference === null) return '-';
+  const sign = difference >= 0 ? '+' : '-';
+  const percent = actual ? ` (${sign}${Math.abs(difference / actual * 100).toFixed(1)}%)` : '';
+  return `${sign}${formatCost(Math.abs(difference))}${percent}`;
+}
+
+// Whole UTC days are estimated, so the range is picked as dates and includes the last day
+function toDateInput(iso: string): string {
+  return iso ? iso.slice(0, 10) : '';
+}
+
+export function CostEstimator({ dimensionLabel }: Props) {
+  const { t } = useLanguage();
+  const [request, setRequest] = useState<EstimateRequest>({ range: '30d', from: '', to: '', groupBy: ['api_key_id'] });
+  const [estimate, setEstimate] = useState<CostEstimate | null>(null);
+  const [error, setError] = useState<AdminApiErrorInfo | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const runEstimate = async () => {
+    if (!window.electronAPI?.estimateCost) return;
+    setRunning(true);
+    setError(null);
+    const response = await window.electronAPI.estimateCost(request);
+    setRunning(false);
+    setEstimate(response.estimate);
+    setError(response.error);
+  };
+
+  const setRange = (range: ReportRange) => {
+    setRequest(prev => {
+      if (range !== 'custom' || prev.from) return { ...prev, range };
+      const today = new Date().toISOString().slice(0, 10);
+      return { ...prev, range, from: `${today}T00:00:00.000Z`, to: `${today}T23:59:59.999Z` };
+    });
+  };
+
+  const toggleDimension = (dimension: ReportDimension) => {
+    setRequest(prev => ({
+      ...prev,
+      groupBy: prev.groupBy.includes(dimension)
+        ? prev.groupBy.filter(d => d !== dimension)
+        : DIMENSIONS.filter(d => d === dimension || prev.groupBy.includes(d)),
+    }));
+  };
+
+  const cellStyle = { padding: '4px 8px', fontSize: 11, borderBottom: '1px solid var(--border)', whiteSpace: 'nowrap' as const };
+  const numberCell = { ...cellStyle, textAlign: 'right' as const };
+  const fieldLabel = { fontSize: 10, color: 'var(--text-muted)', marginBottom: 2 };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 12, alignItems: 'flex-end' }}>
+        <div>
+          <div style={fieldLabel}>{t.reportRange}</div>
+          <select value={request.range} onChange={(e) => setRange(e.target.value as ReportRange)} className="settings-select">
+            <option value="7d">{t.reportLast7d}</option>
+            <option value="30d">{t.reportLast30d}</option>
+            <option value="custom">{t.reportCustom}</option>
+          </select>
+        </div>
+        {request.range === 'custom' && (
+          <>
+            <div>
+              <div style={fieldLabel}>{t.reportFrom}</div>
+              <input
+                type="date"
+                value={toDateInput(request.from)}
+                onChange={(e) => setRequest(prev => ({ ...prev, from: `${e.target.value}T00:00:00.000Z` }))}
+                className="settings-input"
+              />
+            </div>
+            <div>
+              <div style={fieldLabel}>{t.reportTo}</div>
+              <input
+                type="date"
+                value={toDateInput(request.to)}
+                onChange={(e) => setRequest(prev => ({ ...prev, to: `${e.target.value}T23:59:59.999Z` }))}
+                className="settings-input"
+              />
+            </div>
+          </>
+        )}
+        <div>
+          <div style={fieldLabel}>{t.reportGroupBy}</div>
+          <div style={{ display: 'flex', gap: 10, height: 26, alignItems: 'center' }}>
+            {DIMENSIONS.map(dimension => (
+              <label key={dimension} style={{ fontSize: 11, display: 'flex', alignItems: 'center', gap: 4 }}>
+                <input
+                  type="checkbox"
+                  checked={request.groupBy.includes(dimension)}
+                  onChange={() => toggleDimension(dimension)}
+                />
+                {dimensionLabel(dimension)}
+              </label>
+            ))}
+          </div>
+        </div>
+        <button onClick={runEstimate} disabled={running} className="btn btn-primary">
+          {running ? t.loading : t.reportRun}
+        </button>
+      </div>
+
+      {error && (
+        <div className="error" style={{ fontSize: 11, padding: '6px 8px' }}>⚠ {error.message}</div>
+      )}
+
+      {estimate && (
+        <>
+          <div style={{ display: 'flex', gap: 8 }}>
+            {[
+              [t.estimatedCost, formatCost(estimate.estimatedTotal)],
+              [t.actualCost, estimate.actualTotal === null ? '-' : formatCost(estimate.actualTotal)],
+              [t.costDifference, formatDifference(estimate.difference, estimate.actualTotal)],
+            ].map(([label, value]) => (
+              <div key={label} style={{ flex: 1, background: 'var(--bg-tertiary)', borderRadius: 8, padding: 10, textAlign: 'center' }}>
+                <div style={{ fontSize: 18, color: 'var(--text-primary)' }}>{value}</div>
+                <div style={{ fontSize: 10, color: 'var(--text-muted)', marginTop: 2 }}>{label}</div>
+              </div>
+            ))}
+          </div>
+          <div style={{ fontSize: 10, color: 'var(--text-muted)' }}>
+            {estimate.startingAt.slice(0, 10)} – {new Date(Date.parse(estimate.endingAt) - 1).toISOString().slice(0, 10)} UTC · {t.priceVersionsUsed} {estimate.priceVersions.join(', ')}
+          </div>
+          {estimate.unpricedModels.length > 0 && (
+            <div style={{ fontSize: 11, color: 'var(--warning)' }}>⚠ {t.unpricedModels} {estimate.unpricedModels.join(', ')}</div>
+          )}
+          {estimate.truncated && (
+            <div style={{ fontSize: 11, color: 'var(--warning)' }}>⚠ {t.reportTruncated}</div>
+          )}
+
+          {estimate.rows.length === 0 ? (
+            <div style={{ fontSize: 11, color: 'var(--text-muted)' }}>{t.reportNoRows}</div>
+          ) : (
+            <table style={{ borderCollapse: 'collapse', width: '100%' }}>
+              <thead>
+                <tr style={{ color: 'var(--text-secondary)', textAlign: 'left' }}>
+                  {estimate.groupBy.map(dimension => (
+                    <th key={dimension} style={cellStyle}>{dimensionLabel(dimension)}</th>
+                  ))}
+                  <th style={numberCell}>{t.inputTokens}</th>
+                  <th style={numberCell}>{t.outputTokens}</th>
+                  <th style={numberCell}>{t.estimatedCost}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {estimate.rows.map((row, index) => (
+                  <tr key={index}>
+                    {estimate.groupBy.map(dimension => (
+                      <td key={dimension} style={cellStyle}>
+                        <EntityName id={row.group[dimension] || ''} names={estimate.names} />
+                      </td>
+                    ))}
+                    <td style={numberCell}>{formatTokens(row.inputTokens)}</td>
+                    <td style={numberCell}>{formatTokens(row.outputTokens)}</td>
+                    <td style={{ ...numberCell, color: 'var(--text-primary)' }} title={row.unpricedTokens > 0 ? t.unpricedModels : undefined}>
+                      {formatCost(row.cost)}{row.unpricedTokens > 0 ? ' *' : ''}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <div>
+            <div className="stat-label" style={{ marginBottom: 4 }}>{t.reconciliation}</div>
+            <table style={{ borderCollapse: 'collapse', width: '100%' }}>
+              <thead>
+                <tr style={{ color: 'var(--text-secondary)', textAlign: 'left' }}>
+                  <th style={cellStyle}>{t.reportModel}</th>
+                  <th style={numberCell}>{t.estimatedCost}</th>
+                  <th style={numberCell}>{t.actualCost}</th>
+                  <th style={numberCell}>{t.costDifference}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {estimate.byModel.map(row => (
+                  <tr key={row.model}>
+                    <td style={{ ...cellStyle, fontFamily: 'monospace' }}>{row.model}</td>
+                    <td style={numberCell}>{formatCost(row.estimated)}</td>
+                    <td style={numberCell}>{row.actual === null ? '-' : formatCost(row.actual)}</td>
+                    <td style={numberCell}>{formatDifference(row.difference, row.actual)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
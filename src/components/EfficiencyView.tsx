@@ -0,0 +1,193 @@
+import { useState, useEffect, useMemo, ReactNode } from 'react';
+import { useLanguage } from '../i18n/LanguageContext';
+import { UsageChart, ChartSeries } from './UsageChart';
+import { EntityName, entityLabel } from './EntityName';
+import type { EfficiencyReport, EfficiencyMetrics, EfficiencyGroup, AdminApiErrorInfo } from '../types';
+
+interface Props {
+  // Changes whenever the app refreshes so the report is re-requested
+  refreshKey: number | null;
+}
+
+const SERIES_COLORS = ['#d97706', '#3b82f6', '#22c55e', '#a855f7', '#ef4444', '#14b8a6'];
+const DAY = 24 * 60 * 60 * 1000;
+
+function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}K`;
+  return String(count);
+}
+
+function formatPercent(ratio: number | null): string {
+  return ratio === null ? '-' : `${Math.round(ratio * 100)}%`;
+}
+
+function formatRatio(ratio: number | null): string {
+  return ratio === null ? '-' : `${ratio >= 10 ? ratio.toFixed(0) : ratio.toFixed(1)}:1`;
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div style={{ flex: 1, background: 'var(--bg-tertiary)', borderRadius: 8, padding: '8px 6px', textAlign: 'center' }}>
+      <div style={{ fontSize: 16, color: 'var(--text-primary)' }}>{value}</div>
+      <div style={{ fontSize: 9, color: 'var(--text-muted)', marginTop: 2 }}>{label}</div>
+    </div>
+  );
+}
+
+function MixRow({ label, metrics }: { label: ReactNode; metrics: EfficiencyMetrics }) {
+  return (
+    <div style={{ display: 'flex', fontSize: 10, padding: '2px 0', gap: 6 }}>
+      <span style={{
+        flex: 1,
+        color: 'var(--text-secondary)',
+        overflow: 'hidden',
+        textOverflow: 'ellipsis',
+        whiteSpace: 'nowrap'
+      }}>
+        {label}
+      </span>
+      <span style={{ width: 34, textAlign: 'right', color: 'var(--text-primary)' }}>{formatPercent(metrics.cacheHitRatio)}</span>
+      <span style={{ width: 44, textAlign: 'right' }}>{formatTokens(metrics.cacheReadTokens)}</span>
+      <span style={{ width: 44, textAlign: 'right' }}>{formatTokens(metrics.cacheWrite5mTokens + metrics.cacheWrite1hTokens)}</span>
+      <span style={{ width: 38, textAlign: 'right' }}>{formatRatio(metrics.inputOutputRatio)}</span>
+    </div>
+  );
+}
+
+export function EfficiencyView({ refreshKey }: Props) {
+  const { t } = useLanguage();
+  const [report, setReport] = useState<EfficiencyReport | null>(null);
+  const [error, setError] = useState<AdminApiErrorInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [groupBy, setGroupBy] = useState<'model' | 'workspace'>('model');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadReport = async () => {
+      if (!window.electronAPI?.getEfficiencyReport) {
+        setLoading(false);
+        return;
+      }
+      try {
+        const result = await window.electronAPI.getEfficiencyReport();
+        if (!cancelled) {
+          setReport(result.report);
+          setError(result.error);
+        }
+      } catch (error) {
+        console.error('Failed to load efficiency report:', error);
+      }
+      if (!cancelled) setLoading(false);
+    };
+    loadReport();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  const groups: EfficiencyGroup[] = report ? (groupBy === 'model' ? report.byModel : report.byWorkspace) : [];
+
+  // Daily cache hit ratio of the largest groups; days without input leave a gap
+  const series = useMemo<ChartSeries[]>(() => groups.slice(0, SERIES_COLORS.length).map((group, index) => ({
+    label: groupBy === 'workspace' && report ? entityLabel(group.key, report.workspaceNames) : group.key,
+    color: SERIES_COLORS[index],
+    points: group.daily
+      .filter(point => point.cacheHitRatio !== null)
+      .map(point => ({ time: Date.parse(`${point.date}T00:00:00Z`), value: (point.cacheHitRatio as number) * 100 })),
+  })), [groups, groupBy, report]);
+
+  if (loading && !report) {
+    return <div className="section"><div className="loading">{t.loading}</div></div>;
+  }
+
+  if (!report) {
+    return (
+      <div className="section" style={{ color: 'var(--text-muted)', fontSize: 11 }}>
+        {error ? `⚠ ${error.message}` : t.noApiSpendData}
+      </div>
+    );
+  }
+
+  const { totals } = report;
+  const from = report.daily.length > 0 ? Date.parse(`${report.daily[0].date}T00:00:00Z`) : Date.parse(report.periodStart);
+  const to = report.daily.length > 0
+    ? Date.parse(`${report.daily[report.daily.length - 1].date}T00:00:00Z`) + DAY
+    : Date.parse(report.periodEnd);
+
+  return (
+    <div className="section" style={{ paddingTop: 8, paddingBottom: 8 }}>
+      <div className="section-title">{t.efficiency}</div>
+      {error && (
+        <div className="error" style={{ fontSize: 10, padding: '6px 8px', marginBottom: 8 }}>⚠ {error.message}</div>
+      )}
+
+      <div style={{ display: 'flex', gap: 6, marginBottom: 8 }}>
+        <Stat label={t.cacheHitRatio} value={formatPercent(totals.cacheHitRatio)} />
+        <Stat label={t.cacheReadsPerWrite} value={formatRatio(totals.cacheReadWriteRatio)} />
+        <Stat label={t.inputOutputRatio} value={formatRatio(totals.inputOutputRatio)} />
+      </div>
+
+      <div style={{ marginBottom: 8 }}>
+        <div className="stat-label" style={{ marginBottom: 2 }}>{t.tokenMix} · {t.last30Days}</div>
+        {[
+          [t.uncachedInput, totals.uncachedInputTokens],
+          [t.cacheRead, totals.cacheReadTokens],
+          [t.cacheWrite5m, totals.cacheWrite5mTokens],
+          [t.cacheWrite1h, totals.cacheWrite1hTokens],
+          [t.outputTokens, totals.outputTokens],
+        ].map(([label, count]) => (
+          <div key={label as string} style={{ display: 'flex', justifyContent: 'space-between', fontSize: 11, padding: '2px 0' }}>
+            <span style={{ color: 'var(--text-secondary)' }}>{label}</span>
+            <span style={{ color: 'var(--text-primary)' }}>{formatTokens(count as number)}</span>
+          </div>
+        ))}
+        <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 11, padding: '2px 0' }}>
+          <span style={{ color: 'var(--text-secondary)' }}>{t.webSearches}</span>
+          <span style={{ color: 'var(--text-primary)' }}>{totals.webSearchRequests.toLocaleString()}</span>
+        </div>
+      </div>
+
+      <div style={{ display: 'flex', gap: 6, marginBottom: 6 }}>
+        {(['model', 'workspace'] as const).map(option => (
+          <button
+            key={option}
+            onClick={() => setGroupBy(option)}
+            className={`btn ${groupBy === option ? 'btn-primary' : 'btn-secondary'}`}
+            style={{ flex: 1, padding: '3px 6px', fontSize: 10 }}
+          >
+            {option === 'model' ? t.byModel : t.byWorkspace}
+          </button>
+        ))}
+      </div>
+
+      <div className="stat-label" style={{ marginBottom: 2 }}>{t.dailyCacheHitRatio}</div>
+      <UsageChart series={series} from={from} to={to} />
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 8, margin: '4px 0 8px' }}>
+        {series.map(s => (
+          <span key={s.label} style={{ fontSize: 9, color: 'var(--text-secondary)', display: 'flex', alignItems: 'center', gap: 3 }}>
+            <span style={{ width: 6, height: 6, borderRadius: 3, background: s.color }} />
+            {s.label}
+          </span>
+        ))}
+      </div>
+
+      <div style={{ display: 'flex', fontSize: 9, color: 'var(--text-muted)', gap: 6, marginBottom: 2 }}>
+        <span style={{ flex: 1 }} />
+        <span style={{ width: 34, textAlign: 'right' }}>{t.cacheHitShort}</span>
+        <span style={{ width: 44, textAlign: 'right' }}>{t.cacheRead}</span>
+        <span style={{ width: 44, textAlign: 'right' }}>{t.cacheWriteShort}</span>
+        <span style={{ width: 38, textAlign: 'right' }}>{t.inputOutputShort}</span>
+      </div>
+      {groups.map(group => (
+        <MixRow
+          key={group.key}
+          label={groupBy === 'workspace' ? <EntityName id={group.key} names={report.workspaceNames} /> : <span title={group.key}>{group.key}</span>}
+          metrics={group.totals}
+        />
+      ))}
+    </div>
+  );
+}
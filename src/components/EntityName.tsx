@@ -0,0 +1,45 @@
+import { useLanguage } from '../i18n/LanguageContext';
+import type { NameMap } from '../types';
+
+interface Props {
+  id: string;
+  names: NameMap;
+}
+
+// A workspace or API key name in place of its id, with the id on hover and a marker
+// for archived, inactive or deleted ones. Ids without a known name are shown as is.
+export function EntityName({ id, names }: Props) {
+  const { t } = useLanguage();
+  const resolved = names[id];
+  if (!resolved) return <span style={{ fontFamily: 'monospace' }}>{id}</span>;
+
+  const marker = {
+    active: null,
+    inactive: t.nameInactive,
+    archived: t.nameArchived,
+    deleted: t.nameDeleted,
+  }[resolved.state];
+
+  return (
+    <span title={id}>
+      <span style={resolved.state === 'deleted' ? { fontFamily: 'monospace' } : undefined}>{resolved.name}</span>
+      {marker && (
+        <span style={{
+          marginLeft: 4,
+          fontSize: 9,
+          color: 'var(--text-muted)',
+          border: '1px solid var(--border)',
+          borderRadius: 3,
+          padding: '0 3px'
+        }}>
+          {marker}
+        </span>
+      )}
+    </span>
+  );
+}
+
+// Plain-text version for chart legends and tooltips
+export function entityLabel(id: string, names: NameMap): string {
+  return names[id]?.name ?? id;
+}
@@ -0,0 +1,191 @@
+import { useState, useEffect } from 'react';
+import type { WheelEvent } from 'react';
+import { useLanguage } from '../i18n/LanguageContext';
+import { UsageChart, ChartSeries } from './UsageChart';
+import type { UsageSnapshot } from '../types';
+
+interface Props {
+  refreshKey: number | null;
+  accountId?: string;
+}
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const RANGES: Array<{ key: string; ms: number }> = [
+  { key: '5h', ms: 5 * HOUR },
+  { key: '24h', ms: DAY },
+  { key: '7d', ms: 7 * DAY },
+  { key: '30d', ms: 30 * DAY },
+  { key: '90d', ms: 90 * DAY },
+];
+
+const SERIES_COLORS = ['#d97706', '#3b82f6', '#22c55e', '#a855f7', '#ef4444', '#14b8a6'];
+// Don't zoom in further than 10 minutes
+const MIN_SPAN_MS = 10 * 60 * 1000;
+
+function buildSeries(snapshots: UsageSnapshot[]): ChartSeries[] {
+  const byLabel = new Map<string, ChartSeries>();
+
+  for (const snapshot of snapshots) {
+    const time = Date.parse(snapshot.timestamp);
+    for (const bar of snapshot.bars) {
+      let series = byLabel.get(bar.label);
+      if (!series) {
+        series = {
+          label: bar.label,
+          color: SERIES_COLORS[byLabel.size % SERIES_COLORS.length],
+          points: [],
+        };
+        byLabel.set(bar.label, series);
+      }
+      series.points.push({ time, value: bar.percentage });
+    }
+  }
+
+  return [...byLabel.values()];
+}
+
+// Keep a view of the given span inside the selected range, which ends now
+function clampView(from: number, span: number, rangeMs: number): { from: number; to: number } {
+  const rangeEnd = Date.now();
+  const start = Math.min(Math.max(from, rangeEnd - rangeMs), rangeEnd - span);
+  return { from: start, to: start + span };
+}
+
+export function HistoryView({ refreshKey, accountId }: Props) {
+  const { t } = useLanguage();
+  const [rangeMs, setRangeMs] = useState(7 * DAY);
+  const [snapshots, setSnapshots] = useState<UsageSnapshot[]>([]);
+  const [view, setView] = useState(() => ({ from: Date.now() - 7 * DAY, to: Date.now() }));
+  const [hiddenLabels, setHiddenLabels] = useState<Set<string>>(new Set());
+
+  // A new range or account starts zoomed out
+  useEffect(() => {
+    const to = Date.now();
+    setView({ from: to - rangeMs, to });
+  }, [rangeMs, accountId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const to = Date.now();
+    const from = to - rangeMs;
+
+    const loadHistory = async () => {
+      if (!window.electronAPI?.getHistory) return;
+      const result = await window.electronAPI.getHistory({ from: new Date(from).toISOString(), accountId });
+      if (cancelled) return;
+      setSnapshots(result);
+      // Refreshes keep the current zoom and pan, a zoomed-out view moves up to now
+      setView(prev => (prev.to - prev.from < rangeMs - 1000 ? prev : { from, to }));
+    };
+    loadHistory();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [rangeMs, refreshKey, accountId]);
+
+  const series = buildSeries(snapshots);
+  const visibleSeries = series.filter(s => !hiddenLabels.has(s.label));
+  const isZoomed = view.to - view.from < rangeMs - 1000;
+
+  // Zoom around the cursor position; scrolling up zooms in
+  const handleWheel = (event: WheelEvent<SVGSVGElement>, fraction: number) => {
+    const span = view.to - view.from;
+    const factor = event.deltaY < 0 ? 0.8 : 1.25;
+    const newSpan = Math.min(Math.max(span * factor, MIN_SPAN_MS), rangeMs);
+    const anchor = view.from + span * fraction;
+
+    setView(clampView(anchor - newSpan * fraction, newSpan, rangeMs));
+  };
+
+  // Dragging right moves back in time; the span stays the same
+  const handlePan = (deltaFraction: number) => {
+    setView(prev => {
+      const span = prev.to - prev.from;
+      return clampView(prev.from - span * deltaFraction, span, rangeMs);
+    });
+  };
+
+  const toggleLabel = (label: string) => {
+    setHiddenLabels(prev => {
+      const next = new Set(prev);
+      if (next.has(label)) {
+        next.delete(label);
+      } else {
+        next.add(label);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="section" style={{ paddingTop: 8 }}>
+      <div style={{ display: 'flex', gap: 4, marginBottom: 8 }}>
+        {RANGES.map(range => (
+          <button
+            key={range.key}
+            className={`btn ${range.ms === rangeMs ? 'btn-primary' : 'btn-secondary'}`}
+            onClick={() => setRangeMs(range.ms)}
+            style={{ padding: '3px 6px', fontSize: 10, flex: 1 }}
+          >
+            {range.key}
+          </button>
+        ))}
+      </div>
+
+      <UsageChart
+        series={visibleSeries}
+        from={view.from}
+        to={view.to}
+        height={140}
+        onWheel={handleWheel}
+        onPan={isZoomed ? handlePan : undefined}
+      />
+
+      <div style={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        fontSize: 9,
+        color: 'var(--text-muted)',
+        marginTop: 4
+      }}>
+        <span>{t.historyZoomHint}</span>
+        {isZoomed && (
+          <button
+            className="btn btn-secondary"
+            onClick={() => setView({ from: Date.now() - rangeMs, to: Date.now() })}
+            style={{ padding: '2px 6px', fontSize: 9 }}
+          >
+            {t.resetZoom}
+          </button>
+        )}
+      </div>
+
+      {series.length === 0 ? (
+        <div style={{ color: 'var(--text-muted)', fontSize: 11, padding: '8px 0' }}>
+          {t.noHistoryData}
+        </div>
+      ) : (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 8, marginTop: 8 }}>
+          {series.map(s => (
+            <span
+              key={s.label}
+              onClick={() => toggleLabel(s.label)}
+              style={{
+                fontSize: 10,
+                cursor: 'pointer',
+                color: 'var(--text-secondary)',
+                opacity: hiddenLabels.has(s.label) ? 0.4 : 1
+              }}
+            >
+              <span style={{ color: s.color }}>●</span> {s.label}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
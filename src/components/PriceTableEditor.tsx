@@ -0,0 +1,236 @@
+import { useState, useEffect } from 'react';
+import { useLanguage } from '../i18n/LanguageContext';
+import type { PriceTableVersion, ModelPrice } from '../types';
+
+type Draft = Omit<PriceTableVersion, 'version'>;
+
+const PRICE_FIELDS: Array<keyof Omit<ModelPrice, 'model'>> = ['input', 'output', 'cacheWrite5m', 'cacheWrite1h', 'cacheRead'];
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+// New versions start from the selected one and take effect today
+function toDraft(version: PriceTableVersion): Draft {
+  return {
+    effectiveFrom: today(),
+    note: '',
+    batchDiscount: version.batchDiscount,
+    webSearchPerThousand: version.webSearchPerThousand,
+    models: version.models.map(price => ({ ...price })),
+  };
+}
+
+export function PriceTableEditor() {
+  const { t } = useLanguage();
+  const [versions, setVersions] = useState<PriceTableVersion[]>([]);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Selects the newest version, which after a save is the one just saved
+  const showVersions = (next: PriceTableVersion[]) => {
+    setVersions(next);
+    const current = next.reduce((latest, v) => (v.version > latest.version ? v : latest), next[0]);
+    if (current) {
+      setSelected(current.version);
+      setDraft(toDraft(current));
+    }
+  };
+
+  useEffect(() => {
+    window.electronAPI?.getPriceTable?.().then(next => showVersions(next));
+  }, []);
+
+  const selectVersion = (version: number) => {
+    const found = versions.find(v => v.version === version);
+    if (!found) return;
+    setSelected(version);
+    setDraft(toDraft(found));
+    setMessage(null);
+  };
+
+  const updatePrice = (index: number, field: keyof ModelPrice, value: string) => {
+    setDraft(prev => prev && {
+      ...prev,
+      models: prev.models.map((price, i) => (i !== index ? price : {
+        ...price,
+        [field]: field === 'model' ? value : parseFloat(value) || 0,
+      })),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft || !window.electronAPI?.savePriceTableVersion) return;
+    const result = await window.electronAPI.savePriceTableVersion(draft);
+    if (result.error) {
+      setMessage(result.error);
+      return;
+    }
+    showVersions(result.versions);
+    setMessage(t.priceTableSaved);
+  };
+
+  const handleDelete = async () => {
+    if (selected === null || !window.electronAPI?.deletePriceTableVersion) return;
+    showVersions(await window.electronAPI.deletePriceTableVersion(selected));
+    setMessage(null);
+  };
+
+  const handleReset = async () => {
+    if (!window.electronAPI?.resetPriceTable) return;
+    showVersions(await window.electronAPI.resetPriceTable());
+    setMessage(null);
+  };
+
+  if (!draft) {
+    return <div className="loading">{t.loading}</div>;
+  }
+
+  const priceLabels: Record<keyof Omit<ModelPrice, 'model'>, string> = {
+    input: t.priceInput,
+    output: t.priceOutput,
+    cacheWrite5m: t.priceCacheWrite5m,
+    cacheWrite1h: t.priceCacheWrite1h,
+    cacheRead: t.priceCacheRead,
+  };
+  const cellStyle = { padding: '3px 4px', fontSize: 11, borderBottom: '1px solid var(--border)' };
+  const fieldLabel = { fontSize: 10, color: 'var(--text-muted)', marginBottom: 2 };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+      <div style={{ fontSize: 11, color: 'var(--text-muted)' }}>{t.priceTableHint}</div>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 12, alignItems: 'flex-end' }}>
+        <div>
+          <div style={fieldLabel}>{t.priceTableVersions}</div>
+          <select value={selected ?? ''} onChange={(e) => selectVersion(Number(e.target.value))} className="settings-select">
+            {versions.map(version => (
+              <option key={version.version} value={version.version}>
+                v{version.version} · {version.effectiveFrom}{version.note ? ` · ${version.note}` : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button onClick={handleDelete} disabled={versions.length <= 1} className="btn btn-secondary" style={{ padding: '4px 8px', fontSize: 10 }}>
+          {t.reportDeletePreset}
+        </button>
+        <button onClick={handleReset} className="btn btn-secondary" style={{ padding: '4px 8px', fontSize: 10 }}>
+          {t.priceTableReset}
+        </button>
+      </div>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 12, alignItems: 'flex-end' }}>
+        <div>
+          <div style={fieldLabel}>{t.priceEffectiveFrom}</div>
+          <input
+            type="date"
+            value={draft.effectiveFrom}
+            onChange={(e) => setDraft({ ...draft, effectiveFrom: e.target.value })}
+            className="settings-input"
+          />
+        </div>
+        <div style={{ flex: 1, minWidth: 160 }}>
+          <div style={fieldLabel}>{t.priceNote}</div>
+          <input
+            type="text"
+            value={draft.note}
+            onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+            className="settings-input"
+            style={{ width: '100%' }}
+          />
+        </div>
+        <div>
+          <div style={fieldLabel}>{t.priceBatchDiscount}</div>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={Math.round(draft.batchDiscount * 100)}
+            onChange={(e) => setDraft({ ...draft, batchDiscount: (parseFloat(e.target.value) || 0) / 100 })}
+            className="settings-input"
+            style={{ width: 70 }}
+          />
+        </div>
+        <div>
+          <div style={fieldLabel}>{t.priceWebSearch}</div>
+          <input
+            type="number"
+            min={0}
+            step={0.01}
+            value={draft.webSearchPerThousand}
+            onChange={(e) => setDraft({ ...draft, webSearchPerThousand: parseFloat(e.target.value) || 0 })}
+            className="settings-input"
+            style={{ width: 70 }}
+          />
+        </div>
+      </div>
+
+      <table style={{ borderCollapse: 'collapse', width: '100%' }}>
+        <thead>
+          <tr style={{ color: 'var(--text-secondary)', textAlign: 'left' }}>
+            <th style={cellStyle}>{t.priceModelPrefix}</th>
+            {PRICE_FIELDS.map(field => (
+              <th key={field} style={cellStyle}>{priceLabels[field]}</th>
+            ))}
+            <th style={cellStyle} />
+          </tr>
+        </thead>
+        <tbody>
+          {draft.models.map((price, index) => (
+            <tr key={index}>
+              <td style={cellStyle}>
+                <input
+                  type="text"
+                  value={price.model}
+                  onChange={(e) => updatePrice(index, 'model', e.target.value)}
+                  className="settings-input"
+                  style={{ width: '100%', fontFamily: 'monospace' }}
+                />
+              </td>
+              {PRICE_FIELDS.map(field => (
+                <td key={field} style={cellStyle}>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={price[field]}
+                    onChange={(e) => updatePrice(index, field, e.target.value)}
+                    className="settings-input"
+                    style={{ width: 70 }}
+                  />
+                </td>
+              ))}
+              <td style={cellStyle}>
+                <button
+                  onClick={() => setDraft({ ...draft, models: draft.models.filter((_, i) => i !== index) })}
+                  className="btn btn-secondary"
+                  style={{ padding: '2px 6px', fontSize: 10 }}
+                >
+                  ×
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+        <button
+          onClick={() => setDraft({
+            ...draft,
+            models: [...draft.models, { model: '', input: 0, output: 0, cacheWrite5m: 0, cacheWrite1h: 0, cacheRead: 0 }],
+          })}
+          className="btn btn-secondary"
+          style={{ padding: '4px 8px', fontSize: 10 }}
+        >
+          {t.priceAddModel}
+        </button>
+        <button onClick={handleSave} className="btn btn-primary" style={{ padding: '4px 8px', fontSize: 10 }}>
+          {t.priceSaveVersion}
+        </button>
+        {message && <span style={{ fontSize: 11, color: 'var(--text-secondary)' }}>{message}</span>}
+      </div>
+    </div>
+  );
+}
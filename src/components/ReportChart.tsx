@@ -0,0 +1,70 @@
+export interface ReportChartBucket {
+  start: number;
+  // Token total per group, in the same order as the legend
+  values: number[];
+}
+
+interface Props {
+  buckets: ReportChartBucket[];
+  colors: string[];
+  height?: number;
+  formatTime: (time: number) => string;
+}
+
+// Fixed drawing width - the SVG is scaled to the window width with viewBox
+const WIDTH = 900;
+const PADDING_TOP = 6;
+const GAP = 0.15; // Share of each slot left empty between bars
+
+// Stacked bars, one per bucket, stacked by group
+export function ReportChart({ buckets, colors, height = 160, formatTime }: Props) {
+  const max = Math.max(1, ...buckets.map(bucket => bucket.values.reduce((sum, v) => sum + v, 0)));
+  const slot = WIDTH / Math.max(buckets.length, 1);
+  const barWidth = Math.max(slot * (1 - GAP), 0.5);
+  const plotHeight = height - PADDING_TOP;
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        width="100%"
+        height={height}
+        preserveAspectRatio="none"
+        style={{ display: 'block', background: 'var(--bg-tertiary)', borderRadius: 4 }}
+      >
+        {buckets.map((bucket, index) => {
+          let top = height;
+          return bucket.values.map((value, group) => {
+            if (value <= 0) return null;
+            const barHeight = (value / max) * plotHeight;
+            top -= barHeight;
+            return (
+              <rect
+                key={`${index}-${group}`}
+                x={index * slot + (slot - barWidth) / 2}
+                y={top}
+                width={barWidth}
+                height={barHeight}
+                fill={colors[group % colors.length]}
+              >
+                <title>{`${formatTime(bucket.start)}: ${value.toLocaleString()}`}</title>
+              </rect>
+            );
+          });
+        })}
+      </svg>
+      {buckets.length > 0 && (
+        <div style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          fontSize: 9,
+          color: 'var(--text-muted)',
+          marginTop: 2
+        }}>
+          <span>{formatTime(buckets[0].start)}</span>
+          <span>{formatTime(buckets[buckets.length - 1].start)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
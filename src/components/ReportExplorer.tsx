@@ -0,0 +1,517 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useLanguage } from '../i18n/LanguageContext';
+import { ReportChart, ReportChartBucket } from './ReportChart';
+import { CostEstimator } from './CostEstimator';
+import { PriceTableEditor } from './PriceTableEditor';
+import { EntityName, entityLabel } from './EntityName';
+import type {
+  ReportQuery, ReportResult, ReportRow, ReportPreset, ReportDimension, ReportBucketWidth, ReportRange,
+  AdminApiErrorInfo, DirectoryStatus,
+} from '../types';
+
+const DIMENSIONS: ReportDimension[] = ['api_key_id', 'workspace_id', 'model', 'service_tier', 'context_window'];
+const SERVICE_TIERS: Array<'standard' | 'batch' | 'priority'> = ['standard', 'batch', 'priority'];
+const SERIES_COLORS = ['#d97706', '#3b82f6', '#22c55e', '#a855f7', '#ef4444', '#14b8a6'];
+// Groups beyond this many are drawn together as "Other"
+const MAX_CHART_GROUPS = SERIES_COLORS.length - 1;
+
+const DEFAULT_QUERY: ReportQuery = {
+  range: '7d',
+  from: '',
+  to: '',
+  bucketWidth: '1d',
+  groupBy: ['model'],
+  filters: { models: [], workspaceIds: [], apiKeyIds: [], serviceTiers: [] },
+};
+
+// <input type="datetime-local"> works in local time without a zone suffix
+function toLocalInput(iso: string): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+// A cleared or half-typed field gives an empty or invalid value, which leaves the range as it was
+function fromLocalInput(value: string): string | null {
+  const time = value ? new Date(value).getTime() : NaN;
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+function parseList(text: string): string[] {
+  return text.split(/[,\s]+/).map(item => item.trim()).filter(Boolean);
+}
+
+function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}K`;
+  return String(count);
+}
+
+function groupKey(row: ReportRow, groupBy: ReportDimension[]): string {
+  return groupBy.map(dimension => row.group[dimension] || '').join(' · ') || 'All';
+}
+
+// Like groupKey, with workspace and API key names instead of ids
+function groupLabel(row: ReportRow, result: ReportResult): string {
+  return result.groupBy.map(dimension => entityLabel(row.group[dimension] || '', result.names)).join(' · ') || 'All';
+}
+
+// Sum rows that share a group, across every bucket
+function totalsByGroup(result: ReportResult): ReportRow[] {
+  const totals = new Map<string, ReportRow>();
+  for (const row of result.rows) {
+    const key = groupKey(row, result.groupBy);
+    const total = totals.get(key);
+    if (!total) {
+      totals.set(key, { ...row, bucketStart: result.startingAt });
+      continue;
+    }
+    total.uncachedInputTokens += row.uncachedInputTokens;
+    total.cacheCreationTokens += row.cacheCreationTokens;
+    total.cacheReadTokens += row.cacheReadTokens;
+    total.outputTokens += row.outputTokens;
+    total.totalTokens += row.totalTokens;
+    total.webSearchRequests += row.webSearchRequests;
+  }
+  return [...totals.values()].sort((a, b) => b.totalTokens - a.totalTokens);
+}
+
+function UsageReport({ dimensionLabel }: { dimensionLabel: (dimension: ReportDimension) => string }) {
+  const { t } = useLanguage();
+  const [query, setQuery] = useState<ReportQuery>(DEFAULT_QUERY);
+  const [listDrafts, setListDrafts] = useState({ models: '', workspaceIds: '', apiKeyIds: '' });
+  const [result, setResult] = useState<ReportResult | null>(null);
+  const [error, setError] = useState<AdminApiErrorInfo | null>(null);
+  const [running, setRunning] = useState(false);
+  const [showTotals, setShowTotals] = useState(true);
+  const [presets, setPresets] = useState<ReportPreset[]>([]);
+  const [presetName, setPresetName] = useState('');
+
+  useEffect(() => {
+    window.electronAPI?.getReportPresets?.().then(setPresets);
+  }, []);
+
+  // The comma-separated filter fields are parsed into the query when it runs or is saved
+  const buildQuery = (): ReportQuery => ({
+    ...query,
+    filters: {
+      ...query.filters,
+      models: parseList(listDrafts.models),
+      workspaceIds: parseList(listDrafts.workspaceIds),
+      apiKeyIds: parseList(listDrafts.apiKeyIds),
+    },
+  });
+
+  const runQuery = async (next: ReportQuery) => {
+    if (!window.electronAPI?.runReport) return;
+    setRunning(true);
+    setError(null);
+    const response = await window.electronAPI.runReport(next);
+    setRunning(false);
+    setResult(response.result);
+    setError(response.error);
+  };
+
+  const loadPreset = (preset: ReportPreset) => {
+    setQuery(preset.query);
+    setListDrafts({
+      models: preset.query.filters.models.join(', '),
+      workspaceIds: preset.query.filters.workspaceIds.join(', '),
+      apiKeyIds: preset.query.filters.apiKeyIds.join(', '),
+    });
+    setPresetName(preset.name);
+    runQuery(preset.query);
+  };
+
+  const handleSavePreset = async () => {
+    if (!window.electronAPI?.saveReportPreset || !presetName.trim()) return;
+    setPresets(await window.electronAPI.saveReportPreset(presetName, buildQuery()));
+  };
+
+  const handleDeletePreset = async () => {
+    const preset = presets.find(p => p.name === presetName);
+    if (!preset || !window.electronAPI?.deleteReportPreset) return;
+    setPresets(await window.electronAPI.deleteReportPreset(preset.id));
+    setPresetName('');
+  };
+
+  const toggleDimension = (dimension: ReportDimension) => {
+    setQuery(prev => ({
+      ...prev,
+      groupBy: prev.groupBy.includes(dimension)
+        ? prev.groupBy.filter(d => d !== dimension)
+        : DIMENSIONS.filter(d => d === dimension || prev.groupBy.includes(d)),
+    }));
+  };
+
+  const toggleTier = (tier: 'standard' | 'batch' | 'priority') => {
+    setQuery(prev => {
+      const tiers = prev.filters.serviceTiers;
+      return {
+        ...prev,
+        filters: {
+          ...prev.filters,
+          serviceTiers: tiers.includes(tier) ? tiers.filter(t => t !== tier) : [...tiers, tier],
+        },
+      };
+    });
+  };
+
+  const setRange = (range: ReportRange) => {
+    setQuery(prev => {
+      if (range !== 'custom' || prev.from) return { ...prev, range };
+      // Start a custom range from the last 24 hours
+      const now = Date.now();
+      return { ...prev, range, from: new Date(now - 24 * 60 * 60 * 1000).toISOString(), to: new Date(now).toISOString() };
+    });
+  };
+
+  const formatBucket = (time: number): string => {
+    const date = new Date(time);
+    if (result?.bucketWidth === '1d') {
+      return date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+    }
+    return date.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+  };
+
+  // Chart: the largest groups get their own color, the rest are stacked as one
+  const chart = useMemo(() => {
+    if (!result) return { buckets: [] as ReportChartBucket[], legend: [] as string[] };
+    const rankedRows = totalsByGroup(result);
+    const ranked = rankedRows.map(row => groupKey(row, result.groupBy));
+    const labels = rankedRows.map(row => groupLabel(row, result));
+    const legend = ranked.length > MAX_CHART_GROUPS + 1
+      ? [...labels.slice(0, MAX_CHART_GROUPS), t.reportOther]
+      : labels;
+    const indexOf = (key: string) => {
+      const index = ranked.indexOf(key);
+      return index < legend.length - 1 || legend.length === ranked.length ? index : legend.length - 1;
+    };
+
+    const byBucket = new Map<string, number[]>();
+    for (const row of result.rows) {
+      const values = byBucket.get(row.bucketStart) || new Array(legend.length).fill(0);
+      values[indexOf(groupKey(row, result.groupBy))] += row.totalTokens;
+      byBucket.set(row.bucketStart, values);
+    }
+    const buckets = [...byBucket.entries()]
+      .map(([start, values]) => ({ start: Date.parse(start), values }))
+      .sort((a, b) => a.start - b.start);
+    return { buckets, legend };
+  }, [result, t.reportOther]);
+
+  const tableRows = result
+    ? (showTotals ? totalsByGroup(result) : [...result.rows].sort((a, b) =>
+      a.bucketStart.localeCompare(b.bucketStart) || b.totalTokens - a.totalTokens))
+    : [];
+
+  const cellStyle = { padding: '4px 8px', fontSize: 11, borderBottom: '1px solid var(--border)', whiteSpace: 'nowrap' as const };
+  const numberCell = { ...cellStyle, textAlign: 'right' as const };
+  const fieldLabel = { fontSize: 10, color: 'var(--text-muted)', marginBottom: 2 };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+        <div style={{ flex: 1 }} />
+        <select
+          value={presets.some(p => p.name === presetName) ? presetName : ''}
+          onChange={(e) => {
+            const preset = presets.find(p => p.name === e.target.value);
+            if (preset) loadPreset(preset);
+          }}
+          className="settings-select"
+          style={{ width: 160 }}
+        >
+          <option value="">{t.reportPresets}</option>
+          {presets.map(preset => (
+            <option key={preset.id} value={preset.name}>{preset.name}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={presetName}
+          placeholder={t.reportPresetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          className="settings-input"
+          style={{ width: 140 }}
+        />
+        <button onClick={handleSavePreset} disabled={!presetName.trim()} className="btn btn-secondary" style={{ padding: '4px 8px', fontSize: 10 }}>
+          {t.save}
+        </button>
+        <button
+          onClick={handleDeletePreset}
+          disabled={!presets.some(p => p.name === presetName)}
+          className="btn btn-secondary"
+          style={{ padding: '4px 8px', fontSize: 10 }}
+        >
+          {t.reportDeletePreset}
+        </button>
+      </div>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 12, alignItems: 'flex-end' }}>
+        <div>
+          <div style={fieldLabel}>{t.reportRange}</div>
+          <select value={query.range} onChange={(e) => setRange(e.target.value as ReportRange)} className="settings-select">
+            <option value="24h">{t.reportLast24h}</option>
+            <option value="7d">{t.reportLast7d}</option>
+            <option value="30d">{t.reportLast30d}</option>
+            <option value="custom">{t.reportCustom}</option>
+          </select>
+        </div>
+        {query.range === 'custom' && (
+          <>
+            <div>
+              <div style={fieldLabel}>{t.reportFrom}</div>
+              <input
+                type="datetime-local"
+                value={toLocalInput(query.from)}
+                onChange={(e) => {
+                  const from = fromLocalInput(e.target.value);
+                  if (from) setQuery(prev => ({ ...prev, from }));
+                }}
+                className="settings-input"
+              />
+            </div>
+            <div>
+              <div style={fieldLabel}>{t.reportTo}</div>
+              <input
+                type="datetime-local"
+                value={toLocalInput(query.to)}
+                onChange={(e) => {
+                  const to = fromLocalInput(e.target.value);
+                  if (to) setQuery(prev => ({ ...prev, to }));
+                }}
+                className="settings-input"
+              />
+            </div>
+          </>
+        )}
+        <div>
+          <div style={fieldLabel}>{t.reportBucket}</div>
+          <select
+            value={query.bucketWidth}
+            onChange={(e) => setQuery(prev => ({ ...prev, bucketWidth: e.target.value as ReportBucketWidth }))}
+            className="settings-select"
+          >
+            <option value="1d">{t.reportBucketDay}</option>
+            <option value="1h">{t.reportBucketHour}</option>
+            <option value="1m">{t.reportBucketMinute}</option>
+          </select>
+        </div>
+        <div>
+          <div style={fieldLabel}>{t.reportGroupBy}</div>
+          <div style={{ display: 'flex', gap: 10 }}>
+            {DIMENSIONS.map(dimension => (
+              <label key={dimension} style={{ fontSize: 11, display: 'flex', alignItems: 'center', gap: 4 }}>
+                <input
+                  type="checkbox"
+                  checked={query.groupBy.includes(dimension)}
+                  onChange={() => toggleDimension(dimension)}
+                />
+                {dimensionLabel(dimension)}
+              </label>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 12, alignItems: 'flex-end' }}>
+        {(['models', 'workspaceIds', 'apiKeyIds'] as const).map(field => (
+          <div key={field} style={{ flex: 1, minWidth: 160 }}>
+            <div style={fieldLabel}>
+              {field === 'models' ? t.reportModel : field === 'workspaceIds' ? t.reportWorkspace : t.reportApiKey}
+            </div>
+            <input
+              type="text"
+              value={listDrafts[field]}
+              placeholder={t.reportFilterPlaceholder}
+              onChange={(e) => setListDrafts(prev => ({ ...prev, [field]: e.target.value }))}
+              className="settings-input"
+              style={{ width: '100%' }}
+            />
+          </div>
+        ))}
+        <div>
+          <div style={fieldLabel}>{t.reportServiceTier}</div>
+          <div style={{ display: 'flex', gap: 10, height: 26, alignItems: 'center' }}>
+            {SERVICE_TIERS.map(tier => (
+              <label key={tier} style={{ fontSize: 11, display: 'flex', alignItems: 'center', gap: 4 }}>
+                <input type="checkbox" checked={query.filters.serviceTiers.includes(tier)} onChange={() => toggleTier(tier)} />
+                {tier}
+              </label>
+            ))}
+          </div>
+        </div>
+        <button onClick={() => runQuery(buildQuery())} disabled={running} className="btn btn-primary">
+          {running ? t.loading : t.reportRun}
+        </button>
+      </div>
+
+      {error && (
+        <div className="error" style={{ fontSize: 11, padding: '6px 8px' }}>⚠ {error.message}</div>
+      )}
+      {result?.truncated && (
+        <div style={{ fontSize: 11, color: 'var(--warning)' }}>⚠ {t.reportTruncated}</div>
+      )}
+
+      {result && (
+        <>
+          <div>
+            <ReportChart buckets={chart.buckets} colors={SERIES_COLORS} formatTime={formatBucket} />
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: 10, marginTop: 6 }}>
+              {chart.legend.map((label, index) => (
+                <span key={index} style={{ fontSize: 10, color: 'var(--text-secondary)', display: 'flex', alignItems: 'center', gap: 4 }}>
+                  <span style={{ width: 8, height: 8, borderRadius: 2, background: SERIES_COLORS[index % SERIES_COLORS.length] }} />
+                  {label}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <div style={{ display: 'flex', gap: 6 }}>
+            <button
+              onClick={() => setShowTotals(true)}
+              className={`btn ${showTotals ? 'btn-primary' : 'btn-secondary'}`}
+              style={{ padding: '4px 8px', fontSize: 10 }}
+            >
+              {t.reportTotals}
+            </button>
+            <button
+              onClick={() => setShowTotals(false)}
+              className={`btn ${!showTotals ? 'btn-primary' : 'btn-secondary'}`}
+              style={{ padding: '4px 8px', fontSize: 10 }}
+            >
+              {t.reportPerBucket}
+            </button>
+          </div>
+
+          {tableRows.length === 0 ? (
+            <div style={{ fontSize: 11, color: 'var(--text-muted)' }}>{t.reportNoRows}</div>
+          ) : (
+            <table style={{ borderCollapse: 'collapse', width: '100%' }}>
+              <thead>
+                <tr style={{ color: 'var(--text-secondary)', textAlign: 'left' }}>
+                  {!showTotals && <th style={cellStyle}>{t.reportBucket}</th>}
+                  {result.groupBy.map(dimension => (
+                    <th key={dimension} style={cellStyle}>{dimensionLabel(dimension)}</th>
+                  ))}
+                  <th style={numberCell}>{t.inputTokens}</th>
+                  <th style={numberCell}>{t.reportCacheWrite}</th>
+                  <th style={numberCell}>{t.reportCacheRead}</th>
+                  <th style={numberCell}>{t.outputTokens}</th>
+                  <th style={numberCell}>{t.reportTotal}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {tableRows.map((row, index) => (
+                  <tr key={`${row.bucketStart}-${groupKey(row, result.groupBy)}-${index}`}>
+                    {!showTotals && <td style={cellStyle}>{formatBucket(Date.parse(row.bucketStart))}</td>}
+                    {result.groupBy.map(dimension => (
+                      <td key={dimension} style={cellStyle}>
+                        <EntityName id={row.group[dimension] || ''} names={result.names} />
+                      </td>
+                    ))}
+                    <td style={numberCell}>{formatTokens(row.uncachedInputTokens)}</td>
+                    <td style={numberCell}>{formatTokens(row.cacheCreationTokens)}</td>
+                    <td style={numberCell}>{formatTokens(row.cacheReadTokens)}</td>
+                    <td style={numberCell}>{formatTokens(row.outputTokens)}</td>
+                    <td style={{ ...numberCell, color: 'var(--text-primary)' }}>{formatTokens(row.totalTokens)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+type Panel = 'usage' | 'estimate' | 'prices';
+
+export function ReportExplorer() {
+  const { t } = useLanguage();
+  const [panel, setPanel] = useState<Panel>('usage');
+  const [directory, setDirectory] = useState<DirectoryStatus | null>(null);
+  const [refreshingNames, setRefreshingNames] = useState(false);
+
+  useEffect(() => {
+    document.title = t.reportExplorer;
+  }, [t.reportExplorer]);
+
+  useEffect(() => {
+    window.electronAPI?.getDirectoryStatus?.().then(setDirectory);
+  }, []);
+
+  // Names are applied to reports run after the refresh
+  const refreshNames = async () => {
+    if (!window.electronAPI?.refreshDirectory) return;
+    setRefreshingNames(true);
+    setDirectory(await window.electronAPI.refreshDirectory());
+    setRefreshingNames(false);
+  };
+
+  const dimensionLabel = (dimension: ReportDimension) => ({
+    api_key_id: t.reportApiKey,
+    workspace_id: t.reportWorkspace,
+    model: t.reportModel,
+    service_tier: t.reportServiceTier,
+    context_window: t.reportContextWindow,
+  })[dimension];
+
+  const panels: Array<[Panel, string]> = [
+    ['usage', t.reportUsagePanel],
+    ['estimate', t.costEstimate],
+    ['prices', t.priceTable],
+  ];
+
+  // Panels stay mounted so switching tabs keeps their results
+  return (
+    <div style={{ padding: 16, display: 'flex', flexDirection: 'column', gap: 12, height: '100vh', overflow: 'auto' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 12, borderBottom: '1px solid var(--border)' }}>
+        <div className="section-title" style={{ marginBottom: 0, marginRight: 8 }}>{t.reportExplorer}</div>
+        {panels.map(([id, label]) => (
+          <button
+            key={id}
+            onClick={() => setPanel(id)}
+            style={{
+              background: 'none',
+              border: 'none',
+              borderBottom: panel === id ? '2px solid var(--accent)' : '2px solid transparent',
+              color: panel === id ? 'var(--text-primary)' : 'var(--text-secondary)',
+              fontSize: 11,
+              padding: '6px 0',
+              cursor: 'pointer'
+            }}
+          >
+            {label}
+          </button>
+        ))}
+        <div style={{ flex: 1 }} />
+        <span style={{ fontSize: 10, color: directory?.error ? 'var(--warning)' : 'var(--text-muted)' }} title={directory?.error?.message}>
+          {directory?.fetchedAt
+            ? `${t.namesUpdated} ${new Date(directory.fetchedAt).toLocaleString()}`
+            : t.namesNotLoaded}
+        </span>
+        <button
+          onClick={refreshNames}
+          disabled={refreshingNames}
+          className="btn btn-secondary"
+          style={{ padding: '4px 8px', fontSize: 10, marginBottom: 4 }}
+        >
+          {refreshingNames ? t.loading : t.refreshNames}
+        </button>
+      </div>
+      <div style={{ display: panel === 'usage' ? 'block' : 'none' }}>
+        <UsageReport dimensionLabel={dimensionLabel} />
+      </div>
+      <div style={{ display: panel === 'estimate' ? 'block' : 'none' }}>
+        <CostEstimator dimensionLabel={dimensionLabel} />
+      </div>
+      <div style={{ display: panel === 'prices' ? 'block' : 'none' }}>
+        <PriceTableEditor />
+      </div>
+    </div>
+  );
+}
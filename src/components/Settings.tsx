@@ -1,6 +1,28 @@
 import { useState, useEffect } from 'react';
 import { useLanguage } from '../i18n/LanguageContext';
 import type { Language } from '../i18n/translations';
+import type { UsageDataSource, ClaudeAccount, AdminKeyStatus, TrayIconStyle, NotificationRule, QuietHours, WebhookConfig, WebhookFormat, StatusServerInfo, ExportDataset, ExportFormat, Budget, BudgetScope } from '../types';
+
+// Bar labels as they appear in the usage data
+const BAR_LABELS = ['Current session', 'All models', 'Sonnet only', 'Opus only', 'Extra usage'];
+
+// Levels are edited as free text and parsed on save
+interface RuleDraft extends Omit<NotificationRule, 'levels'> {
+  levelsText: string;
+}
+
+function parseLevels(text: string): number[] {
+  const levels = text.split(/[,\s]+/)
+    .map(Number)
+    .filter(level => Number.isFinite(level) && level > 0 && level <= 100);
+  return [...new Set(levels)].sort((a, b) => a - b);
+}
+
+// YYYY-MM-DD in local time, the format <input type="date"> uses
+function toDateInput(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
 
 interface SettingsProps {
   onClose: () => void;
@@ -11,6 +33,31 @@ export function Settings({ onClose }: SettingsProps) {
   const [refreshInterval, setRefreshInterval] = useState(60);
   const [autoStartEnabled, setAutoStartEnabled] = useState(false);
   const [notificationThreshold, setNotificationThreshold] = useState(80);
+  const [ruleDrafts, setRuleDrafts] = useState<RuleDraft[]>([]);
+  const [quietHours, setQuietHours] = useState<QuietHours>({ enabled: false, start: '22:00', end: '08:00' });
+  const [webhooks, setWebhooks] = useState<WebhookConfig[]>([]);
+  const [webhookTests, setWebhookTests] = useState<Record<string, string>>({});
+  const [statusServerEnabled, setStatusServerEnabled] = useState(false);
+  const [statusServerPort, setStatusServerPort] = useState(47821);
+  const [statusServerInfo, setStatusServerInfo] = useState<StatusServerInfo | null>(null);
+  const [projectionAlerts, setProjectionAlerts] = useState(true);
+  const [dataSource, setDataSource] = useState<UsageDataSource>('auto');
+  const [trayIconStyle, setTrayIconStyle] = useState<TrayIconStyle>('ring');
+  const [trayIconShowPercentage, setTrayIconShowPercentage] = useState(true);
+  const [trayIconBar, setTrayIconBar] = useState('highest');
+  const [accounts, setAccounts] = useState<ClaudeAccount[]>([]);
+  const [newAccountName, setNewAccountName] = useState('');
+  const [adminKeyStatus, setAdminKeyStatus] = useState<AdminKeyStatus | null>(null);
+  const [adminKeyInput, setAdminKeyInput] = useState('');
+  const [adminKeyMessage, setAdminKeyMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const [validatingKey, setValidatingKey] = useState(false);
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [lowBalanceThreshold, setLowBalanceThreshold] = useState(0);
+  const [exportDataset, setExportDataset] = useState<ExportDataset>('usage-history');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [exportFrom, setExportFrom] = useState(() => toDateInput(new Date(Date.now() - 29 * 24 * 60 * 60 * 1000)));
+  const [exportTo, setExportTo] = useState(() => toDateInput(new Date()));
+  const [exportMessage, setExportMessage] = useState<{ text: string; error: boolean } | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -20,6 +67,32 @@ export function Settings({ onClose }: SettingsProps) {
         setRefreshInterval(settings.refreshInterval || 60);
         setAutoStartEnabled(settings.autoStart || false);
         setNotificationThreshold(settings.notificationThreshold || 80);
+        setRuleDrafts((settings.notificationRules || []).map(({ levels, ...rule }) => ({
+          ...rule,
+          levelsText: levels.join(', '),
+        })));
+        if (settings.quietHours) {
+          setQuietHours(settings.quietHours);
+        }
+        setWebhooks(settings.webhooks || []);
+        setBudgets(settings.budgets || []);
+        setLowBalanceThreshold(settings.lowBalanceThreshold ?? 0);
+        setStatusServerEnabled(settings.statusServerEnabled ?? false);
+        setStatusServerPort(settings.statusServerPort || 47821);
+        setProjectionAlerts(settings.projectionAlerts ?? true);
+        setDataSource(settings.dataSource || 'auto');
+        setTrayIconStyle(settings.trayIconStyle || 'ring');
+        setTrayIconShowPercentage(settings.trayIconShowPercentage ?? true);
+        setTrayIconBar(settings.trayIconBar || 'highest');
+      }
+      if (window.electronAPI?.getStatusServerInfo) {
+        setStatusServerInfo(await window.electronAPI.getStatusServerInfo());
+      }
+      if (window.electronAPI?.getAdminKeyStatus) {
+        setAdminKeyStatus(await window.electronAPI.getAdminKeyStatus());
+      }
+      if (window.electronAPI?.getAccounts) {
+        setAccounts(await window.electronAPI.getAccounts());
       }
       setLoading(false);
     };
@@ -32,6 +105,21 @@ export function Settings({ onClose }: SettingsProps) {
         refreshInterval,
         autoStart: autoStartEnabled,
         notificationThreshold,
+        notificationRules: ruleDrafts.map(({ levelsText, ...rule }) => ({
+          ...rule,
+          levels: parseLevels(levelsText),
+        })),
+        quietHours,
+        webhooks,
+        projectionAlerts,
+        dataSource,
+        trayIconStyle,
+        trayIconShowPercentage,
+        trayIconBar,
+        statusServerEnabled,
+        statusServerPort,
+        budgets: budgets.filter(budget => budget.monthlyLimit > 0),
+        lowBalanceThreshold,
       });
     }
     onClose();
@@ -45,6 +133,112 @@ export function Settings({ onClose }: SettingsProps) {
     }
   };
 
+  const updateRule = (index: number, changes: Partial<RuleDraft>) => {
+    setRuleDrafts(prev => prev.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  const addRule = () => {
+    const unused = BAR_LABELS.find(label => !ruleDrafts.some(rule => rule.label === label)) || BAR_LABELS[0];
+    setRuleDrafts(prev => [...prev, { label: unused, levelsText: '80', notifyOnIncrease: false, notifyOnReset: false }]);
+  };
+
+  const updateWebhook = (id: string, changes: Partial<WebhookConfig>) => {
+    setWebhooks(prev => prev.map(webhook => (webhook.id === id ? { ...webhook, ...changes } : webhook)));
+  };
+
+  const addWebhook = () => {
+    setWebhooks(prev => [...prev, {
+      id: crypto.randomUUID(),
+      name: '',
+      url: '',
+      format: 'slack',
+      template: '',
+      enabled: true,
+    }]);
+  };
+
+  const updateBudget = (id: string, changes: Partial<Budget>) => {
+    setBudgets(prev => prev.map(budget => (budget.id === id ? { ...budget, ...changes } : budget)));
+  };
+
+  const addBudget = () => {
+    const scope: BudgetScope = budgets.some(budget => budget.scope === 'total') ? 'workspace' : 'total';
+    setBudgets(prev => [...prev, { id: crypto.randomUUID(), scope, target: '', monthlyLimit: 100 }]);
+  };
+
+  const handleTestWebhook = async (webhook: WebhookConfig) => {
+    if (!window.electronAPI?.testWebhook || !webhook.url) return;
+    setWebhookTests(prev => ({ ...prev, [webhook.id]: '...' }));
+    const result = await window.electronAPI.testWebhook(webhook);
+    setWebhookTests(prev => ({
+      ...prev,
+      [webhook.id]: result.success ? t.testSent : `${t.testFailed}: ${result.error}`,
+    }));
+  };
+
+  const handleRegenerateToken = async () => {
+    if (!window.electronAPI?.regenerateStatusServerToken) return;
+    setStatusServerInfo(await window.electronAPI.regenerateStatusServerToken());
+  };
+
+  // Account changes apply right away, like the auto start toggle
+  const handleAddAccount = async () => {
+    if (!window.electronAPI?.addAccount) return;
+    const account = await window.electronAPI.addAccount(newAccountName);
+    setAccounts(prev => [...prev, account]);
+    setNewAccountName('');
+  };
+
+  const handleRenameAccount = async (accountId: string, nickname: string) => {
+    if (!window.electronAPI?.renameAccount) return;
+    setAccounts(await window.electronAPI.renameAccount(accountId, nickname));
+  };
+
+  const handleRemoveAccount = async (accountId: string) => {
+    if (!window.electronAPI?.removeAccount) return;
+    setAccounts(await window.electronAPI.removeAccount(accountId));
+  };
+
+  // The key is validated against the Admin API in the main process before it's stored
+  const handleSaveAdminKey = async () => {
+    if (!window.electronAPI?.saveAdminKey || !adminKeyInput.trim()) return;
+    setValidatingKey(true);
+    setAdminKeyMessage(null);
+    const result = await window.electronAPI.saveAdminKey(adminKeyInput);
+    setValidatingKey(false);
+    if (result.success) {
+      setAdminKeyInput('');
+      setAdminKeyMessage({ text: t.adminKeySaved, error: false });
+      if (window.electronAPI.getAdminKeyStatus) {
+        setAdminKeyStatus(await window.electronAPI.getAdminKeyStatus());
+      }
+    } else {
+      setAdminKeyMessage({ text: result.error || 'Invalid key', error: true });
+    }
+  };
+
+  const handleDeleteAdminKey = async () => {
+    if (!window.electronAPI?.deleteAdminKey) return;
+    setAdminKeyStatus(await window.electronAPI.deleteAdminKey());
+    setAdminKeyMessage(null);
+  };
+
+  const handleExport = async () => {
+    if (!window.electronAPI?.exportData) return;
+    setExportMessage(null);
+    const result = await window.electronAPI.exportData({
+      dataset: exportDataset,
+      format: exportFormat,
+      from: exportFrom,
+      to: exportTo,
+    });
+    if (result.success) {
+      setExportMessage({ text: `${t.exportDone}: ${result.rows ?? 0} ${t.exportRows}`, error: false });
+    } else if (!result.canceled) {
+      setExportMessage({ text: result.error || t.exportFailed, error: true });
+    }
+  };
+
   if (loading) {
     return (
       <div className="settings-overlay">
@@ -119,6 +313,19 @@ export function Settings({ onClose }: SettingsProps) {
           </div>
         </div>
 
+        <div className="settings-item">
+          <label>{t.dataSource}</label>
+          <select
+            value={dataSource}
+            onChange={(e) => setDataSource(e.target.value as UsageDataSource)}
+            className="settings-select"
+          >
+            <option value="auto">{t.dataSourceAuto}</option>
+            <option value="api">{t.dataSourceApi}</option>
+            <option value="scraper">{t.dataSourceScraper}</option>
+          </select>
+        </div>
+
         <div className="settings-item">
           <label>{t.autoStart}</label>
           <button
@@ -151,6 +358,518 @@ export function Settings({ onClose }: SettingsProps) {
           </div>
         </div>
 
+        <div className="settings-item">
+          <label>{t.notificationRules}</label>
+          {ruleDrafts.map((rule, index) => (
+            <div key={index} style={{ marginBottom: 8 }}>
+              <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                <select
+                  value={rule.label}
+                  onChange={(e) => updateRule(index, { label: e.target.value })}
+                  className="settings-select"
+                  style={{ flex: 1 }}
+                >
+                  {BAR_LABELS.map(label => (
+                    <option key={label} value={label}>{label}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={rule.levelsText}
+                  placeholder={t.ruleLevels}
+                  onChange={(e) => updateRule(index, { levelsText: e.target.value })}
+                  className="settings-input"
+                  style={{ width: 90 }}
+                />
+                <button
+                  onClick={() => setRuleDrafts(prev => prev.filter((_, i) => i !== index))}
+                  className="btn btn-icon"
+                  style={{ padding: '2px 6px', fontSize: 14 }}
+                >
+                  ×
+                </button>
+              </div>
+              <div style={{ display: 'flex', gap: 12, fontSize: 11, color: 'var(--text-secondary)', marginTop: 4 }}>
+                <label style={{ display: 'flex', alignItems: 'center', gap: 4, fontSize: 11, fontWeight: 400, marginBottom: 0 }}>
+                  <input
+                    type="checkbox"
+                    checked={rule.notifyOnIncrease}
+                    onChange={(e) => updateRule(index, { notifyOnIncrease: e.target.checked })}
+                  />
+                  {t.ruleOnIncrease}
+                </label>
+                <label style={{ display: 'flex', alignItems: 'center', gap: 4, fontSize: 11, fontWeight: 400, marginBottom: 0 }}>
+                  <input
+                    type="checkbox"
+                    checked={rule.notifyOnReset}
+                    onChange={(e) => updateRule(index, { notifyOnReset: e.target.checked })}
+                  />
+                  {t.ruleOnReset}
+                </label>
+              </div>
+            </div>
+          ))}
+          <button onClick={addRule} className="btn btn-secondary" style={{ padding: '4px 8px', fontSize: 10 }}>
+            {t.addRule}
+          </button>
+          <div style={{ fontSize: 10, color: 'var(--text-muted)', marginTop: 6 }}>
+            {t.notificationRulesHint}
+          </div>
+        </div>
+
+        <div className="settings-item">
+          <label>{t.quietHours}</label>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+            <input
+              type="checkbox"
+              checked={quietHours.enabled}
+              onChange={(e) => setQuietHours({ ...quietHours, enabled: e.target.checked })}
+            />
+            <input
+              type="time"
+              value={quietHours.start}
+              disabled={!quietHours.enabled}
+              onChange={(e) => setQuietHours({ ...quietHours, start: e.target.value })}
+              className="settings-input"
+            />
+            <span style={{ fontSize: 12, color: 'var(--text-secondary)' }}>–</span>
+            <input
+              type="time"
+              value={quietHours.end}
+              disabled={!quietHours.enabled}
+              onChange={(e) => setQuietHours({ ...quietHours, end: e.target.value })}
+              className="settings-input"
+            />
+          </div>
+        </div>
+
+        <div className="settings-item">
+          <label>{t.webhooks}</label>
+          {webhooks.map(webhook => (
+            <div
+              key={webhook.id}
+              style={{ marginBottom: 8, paddingBottom: 8, borderBottom: '1px solid var(--border)' }}
+            >
+              <div style={{ display: 'flex', alignItems: 'center', gap: 6, marginBottom: 4 }}>
+                <input
+                  type="checkbox"
+                  checked={webhook.enabled}
+                  onChange={(e) => updateWebhook(webhook.id, { enabled: e.target.checked })}
+                />
+                <input
+                  type="text"
+                  value={webhook.name}
+                  placeholder={t.webhookName}
+                  onChange={(e) => updateWebhook(webhook.id, { name: e.target.value })}
+                  className="settings-input"
+                  style={{ flex: 1 }}
+                />
+                <select
+                  value={webhook.format}
+                  onChange={(e) => updateWebhook(webhook.id, { format: e.target.value as WebhookFormat })}
+                  className="settings-select"
+                  style={{ width: 100 }}
+                >
+                  <option value="slack">Slack</option>
+                  <option value="discord">Discord</option>
+                  <option value="json">{t.webhookFormatJson}</option>
+                </select>
+                <button
+                  onClick={() => setWebhooks(prev => prev.filter(w => w.id !== webhook.id))}
+                  className="btn btn-icon"
+                  style={{ padding: '2px 6px', fontSize: 14 }}
+                >
+                  ×
+                </button>
+              </div>
+              <input
+                type="text"
+                value={webhook.url}
+                placeholder={t.webhookUrl}
+                onChange={(e) => updateWebhook(webhook.id, { url: e.target.value })}
+                className="settings-input"
+                style={{ width: '100%', marginBottom: 4 }}
+              />
+              <input
+                type="text"
+                value={webhook.template}
+                placeholder={t.webhookTemplate}
+                onChange={(e) => updateWebhook(webhook.id, { template: e.target.value })}
+                className="settings-input"
+                style={{ width: '100%', marginBottom: 4 }}
+              />
+              <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                <button
+                  onClick={() => handleTestWebhook(webhook)}
+                  disabled={!webhook.url}
+                  className="btn btn-secondary"
+                  style={{ padding: '4px 8px', fontSize: 10 }}
+                >
+                  {t.sendTest}
+                </button>
+                {webhookTests[webhook.id] && (
+                  <span style={{ fontSize: 10, color: 'var(--text-muted)' }}>{webhookTests[webhook.id]}</span>
+                )}
+              </div>
+            </div>
+          ))}
+          <button onClick={addWebhook} className="btn btn-secondary" style={{ padding: '4px 8px', fontSize: 10 }}>
+            {t.addWebhook}
+          </button>
+          <div style={{ fontSize: 10, color: 'var(--text-muted)', marginTop: 6 }}>
+            {t.webhooksHint}
+          </div>
+        </div>
+
+        <div className="settings-item">
+          <label>{t.projectionAlerts}</label>
+          <button
+            onClick={() => setProjectionAlerts(!projectionAlerts)}
+            className={`toggle-button ${projectionAlerts ? 'active' : ''}`}
+          >
+            <span className="toggle-label">
+              {projectionAlerts ? t.autoStartEnabled : t.autoStartDisabled}
+            </span>
+            <span className="toggle-switch" />
+          </button>
+        </div>
+
+        <div className="settings-item">
+          <label>{t.trayIcon}</label>
+          <select
+            value={trayIconStyle}
+            onChange={(e) => setTrayIconStyle(e.target.value as TrayIconStyle)}
+            className="settings-select"
+          >
+            <option value="ring">{t.trayIconRing}</option>
+            <option value="bar">{t.trayIconBar}</option>
+            <option value="static">{t.trayIconStatic}</option>
+          </select>
+        </div>
+
+        {trayIconStyle !== 'static' && (
+          <>
+            <div className="settings-item">
+              <label>{t.trayIconSource}</label>
+              <select
+                value={trayIconBar}
+                onChange={(e) => setTrayIconBar(e.target.value)}
+                className="settings-select"
+              >
+                <option value="highest">{t.trayIconHighest}</option>
+                {BAR_LABELS.map(label => (
+                  <option key={label} value={label}>{label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="settings-item">
+              <label>{t.trayIconShowPercentage}</label>
+              <button
+                onClick={() => setTrayIconShowPercentage(!trayIconShowPercentage)}
+                className={`toggle-button ${trayIconShowPercentage ? 'active' : ''}`}
+              >
+                <span className="toggle-label">
+                  {trayIconShowPercentage ? t.autoStartEnabled : t.autoStartDisabled}
+                </span>
+                <span className="toggle-switch" />
+              </button>
+            </div>
+          </>
+        )}
+
+        <div className="settings-item">
+          <label>{t.statusServer}</label>
+          <button
+            onClick={() => setStatusServerEnabled(!statusServerEnabled)}
+            className={`toggle-button ${statusServerEnabled ? 'active' : ''}`}
+          >
+            <span className="toggle-label">
+              {statusServerEnabled ? t.autoStartEnabled : t.autoStartDisabled}
+            </span>
+            <span className="toggle-switch" />
+          </button>
+        </div>
+
+        {statusServerEnabled && (
+          <div className="settings-item">
+            <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 6 }}>
+              <span style={{ fontSize: 12, color: 'var(--text-secondary)' }}>{t.statusServerPort}</span>
+              <input
+                type="number"
+                min="1024"
+                max="65535"
+                value={statusServerPort}
+                onChange={(e) => setStatusServerPort(Number(e.target.value))}
+                className="settings-input"
+                style={{ width: 80 }}
+              />
+            </div>
+            <label>{t.statusServerToken}</label>
+            <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+              <input
+                type="text"
+                readOnly
+                value={statusServerInfo?.token || ''}
+                className="settings-input"
+                style={{ flex: 1, fontFamily: 'monospace', fontSize: 10 }}
+              />
+              <button
+                onClick={() => navigator.clipboard.writeText(statusServerInfo?.token || '')}
+                className="btn btn-secondary"
+                style={{ padding: '4px 8px', fontSize: 10 }}
+              >
+                {t.copy}
+              </button>
+              <button
+                onClick={handleRegenerateToken}
+                className="btn btn-secondary"
+                style={{ padding: '4px 8px', fontSize: 10 }}
+              >
+                {t.regenerate}
+              </button>
+            </div>
+            <div style={{ fontSize: 10, color: statusServerInfo?.error ? 'var(--error)' : 'var(--text-muted)', marginTop: 4 }}>
+              {statusServerInfo?.error
+                ? statusServerInfo.error
+                : statusServerInfo?.running
+                  ? `${t.statusServerRunning} http://127.0.0.1:${statusServerInfo.port}`
+                  : null}
+            </div>
+          </div>
+        )}
+
+        <div className="settings-item">
+          <label>{t.accounts}</label>
+          {accounts.map(account => (
+            <div key={account.id} style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 6 }}>
+              <input
+                type="text"
+                defaultValue={account.nickname}
+                onBlur={(e) => {
+                  if (e.target.value.trim() && e.target.value !== account.nickname) {
+                    handleRenameAccount(account.id, e.target.value);
+                  }
+                }}
+                className="settings-input"
+                style={{ flex: 1 }}
+              />
+              {accounts.length > 1 && (
+                <button
+                  onClick={() => handleRemoveAccount(account.id)}
+                  className="btn btn-secondary"
+                  style={{ padding: '4px 8px', fontSize: 10 }}
+                >
+                  {t.removeAccount}
+                </button>
+              )}
+            </div>
+          ))}
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+            <input
+              type="text"
+              value={newAccountName}
+              placeholder={t.accountNickname}
+              onChange={(e) => setNewAccountName(e.target.value)}
+              className="settings-input"
+              style={{ flex: 1 }}
+            />
+            <button
+              onClick={handleAddAccount}
+              className="btn btn-secondary"
+              style={{ padding: '4px 8px', fontSize: 10 }}
+            >
+              {t.addAccount}
+            </button>
+          </div>
+        </div>
+
+        <div className="settings-item">
+          <label>{t.adminKey}</label>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 6 }}>
+            <span style={{ flex: 1, fontSize: 12, color: 'var(--text-secondary)', fontFamily: 'monospace' }}>
+              {adminKeyStatus?.hint || t.adminKeyNotSet}
+              {adminKeyStatus?.source === 'env' && (
+                <span style={{ fontFamily: 'inherit', color: 'var(--text-muted)' }}> ({t.adminKeyFromEnv})</span>
+              )}
+            </span>
+            {adminKeyStatus?.source === 'settings' && (
+              <button
+                onClick={handleDeleteAdminKey}
+                className="btn btn-secondary"
+                style={{ padding: '4px 8px', fontSize: 10 }}
+              >
+                {t.adminKeyDelete}
+              </button>
+            )}
+          </div>
+          {adminKeyStatus?.encryptionAvailable === false ? (
+            <div style={{ fontSize: 11, color: 'var(--text-muted)' }}>{t.adminKeyNoEncryption}</div>
+          ) : (
+            <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+              <input
+                type="password"
+                value={adminKeyInput}
+                placeholder={t.adminKeyPlaceholder}
+                onChange={(e) => setAdminKeyInput(e.target.value)}
+                className="settings-input"
+                style={{ flex: 1 }}
+                autoComplete="off"
+              />
+              <button
+                onClick={handleSaveAdminKey}
+                disabled={validatingKey || !adminKeyInput.trim()}
+                className="btn btn-secondary"
+                style={{ padding: '4px 8px', fontSize: 10 }}
+              >
+                {adminKeyStatus?.configured ? t.adminKeyReplace : t.adminKeySave}
+              </button>
+            </div>
+          )}
+          {(validatingKey || adminKeyMessage) && (
+            <div style={{
+              fontSize: 11,
+              marginTop: 4,
+              color: adminKeyMessage?.error ? 'var(--error)' : 'var(--text-muted)'
+            }}>
+              {validatingKey ? t.adminKeyValidating : adminKeyMessage?.text}
+            </div>
+          )}
+        </div>
+
+        <div className="settings-item">
+          <label>{t.budgets}</label>
+          {budgets.map(budget => (
+            <div key={budget.id} style={{ display: 'flex', alignItems: 'center', gap: 6, marginBottom: 6 }}>
+              <select
+                value={budget.scope}
+                onChange={(e) => updateBudget(budget.id, { scope: e.target.value as BudgetScope })}
+                className="settings-select"
+                style={{ width: 100 }}
+              >
+                <option value="total">{t.budgetTotal}</option>
+                <option value="workspace">{t.budgetWorkspace}</option>
+                <option value="model">{t.budgetModel}</option>
+              </select>
+              <input
+                type="text"
+                value={budget.scope === 'total' ? '' : budget.target}
+                disabled={budget.scope === 'total'}
+                placeholder={budget.scope === 'model' ? 'claude-sonnet-4' : budget.scope === 'workspace' ? 'wrkspc_... / default' : ''}
+                onChange={(e) => updateBudget(budget.id, { target: e.target.value })}
+                className="settings-input"
+                style={{ flex: 1, minWidth: 0 }}
+              />
+              <span style={{ fontSize: 12, color: 'var(--text-secondary)' }}>$</span>
+              <input
+                type="number"
+                min="0"
+                step="10"
+                value={budget.monthlyLimit}
+                onChange={(e) => updateBudget(budget.id, { monthlyLimit: Number(e.target.value) })}
+                className="settings-input"
+                style={{ width: 70 }}
+              />
+              <button
+                onClick={() => setBudgets(prev => prev.filter(b => b.id !== budget.id))}
+                className="btn btn-icon"
+                style={{ padding: '2px 6px', fontSize: 14 }}
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={addBudget}
+            disabled={!adminKeyStatus?.configured}
+            className="btn btn-secondary"
+            style={{ padding: '4px 8px', fontSize: 10 }}
+          >
+            {t.addBudget}
+          </button>
+          <div style={{ fontSize: 10, color: 'var(--text-muted)', marginTop: 6 }}>
+            {adminKeyStatus?.configured ? t.budgetsHint : t.budgetsNeedAdminKey}
+          </div>
+        </div>
+
+        <div className="settings-item">
+          <label>{t.lowBalanceThreshold}</label>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+            <span style={{ fontSize: 12, color: 'var(--text-secondary)' }}>$</span>
+            <input
+              type="number"
+              min="0"
+              step="5"
+              value={lowBalanceThreshold}
+              onChange={(e) => setLowBalanceThreshold(Math.max(0, Number(e.target.value)))}
+              className="settings-input"
+              style={{ width: 80 }}
+            />
+            <span style={{ fontSize: 10, color: 'var(--text-muted)' }}>{t.lowBalanceHint}</span>
+          </div>
+        </div>
+
+        <div className="settings-item">
+          <label>{t.exportData}</label>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 6 }}>
+            <select
+              value={exportDataset}
+              onChange={(e) => setExportDataset(e.target.value as ExportDataset)}
+              className="settings-select"
+              style={{ flex: 1 }}
+            >
+              <option value="usage-history">{t.exportUsageHistory}</option>
+              <option value="daily-costs" disabled={!adminKeyStatus?.configured}>{t.exportDailyCosts}</option>
+              <option value="token-totals" disabled={!adminKeyStatus?.configured}>{t.exportTokenTotals}</option>
+            </select>
+            <select
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+              className="settings-select"
+              style={{ width: 70 }}
+            >
+              <option value="csv">CSV</option>
+              <option value="json">JSON</option>
+            </select>
+          </div>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+            <input
+              type="date"
+              value={exportFrom}
+              max={exportTo}
+              onChange={(e) => setExportFrom(e.target.value)}
+              className="settings-input"
+              style={{ flex: 1 }}
+            />
+            <span style={{ fontSize: 11, color: 'var(--text-muted)' }}>–</span>
+            <input
+              type="date"
+              value={exportTo}
+              min={exportFrom}
+              onChange={(e) => setExportTo(e.target.value)}
+              className="settings-input"
+              style={{ flex: 1 }}
+            />
+            <button
+              onClick={handleExport}
+              disabled={!exportFrom || !exportTo}
+              className="btn btn-secondary"
+              style={{ padding: '4px 8px', fontSize: 10 }}
+            >
+              {t.exportButton}
+            </button>
+          </div>
+          {exportMessage && (
+            <div style={{
+              fontSize: 11,
+              marginTop: 4,
+              color: exportMessage.error ? 'var(--error)' : 'var(--text-muted)'
+            }}>
+              {exportMessage.text}
+            </div>
+          )}
+        </div>
+
         <div style={{ marginTop: 20, textAlign: 'right' }}>
           <button onClick={handleSave} className="btn btn-primary">
             {t.save}
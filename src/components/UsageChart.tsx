@@ -0,0 +1,134 @@
+import { useRef } from 'react';
+import type { WheelEvent, PointerEvent } from 'react';
+
+export interface ChartSeries {
+  label: string;
+  color: string;
+  points: Array<{ time: number; value: number }>;
+}
+
+interface Props {
+  series: ChartSeries[];
+  from: number;
+  to: number;
+  height?: number;
+  onWheel?: (event: WheelEvent<SVGSVGElement>, fraction: number) => void;
+  // Called while dragging with the distance moved since the last call, as a fraction of the chart width
+  onPan?: (deltaFraction: number) => void;
+}
+
+// Fixed drawing width - the SVG is scaled to the popup width with viewBox
+const WIDTH = 296;
+const PADDING_TOP = 4;
+const PADDING_BOTTOM = 4;
+
+function formatTick(time: number, span: number): string {
+  const date = new Date(time);
+  if (span <= 24 * 60 * 60 * 1000) {
+    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  }
+  return date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
+
+export function UsageChart({ series, from, to, height = 60, onWheel, onPan }: Props) {
+  const dragX = useRef<number | null>(null);
+  const span = Math.max(to - from, 1);
+  const plotHeight = height - PADDING_TOP - PADDING_BOTTOM;
+
+  const x = (time: number) => ((time - from) / span) * WIDTH;
+  const y = (value: number) => PADDING_TOP + plotHeight - (Math.min(Math.max(value, 0), 100) / 100) * plotHeight;
+
+  const hasData = series.some(s => s.points.length > 0);
+
+  const handlePointerDown = (e: PointerEvent<SVGSVGElement>) => {
+    if (e.button !== 0) return;
+    dragX.current = e.clientX;
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: PointerEvent<SVGSVGElement>) => {
+    if (dragX.current === null || !onPan) return;
+    const width = e.currentTarget.getBoundingClientRect().width;
+    const delta = e.clientX - dragX.current;
+    dragX.current = e.clientX;
+    if (delta !== 0 && width > 0) onPan(delta / width);
+  };
+
+  const handlePointerUp = (e: PointerEvent<SVGSVGElement>) => {
+    dragX.current = null;
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+  };
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        width="100%"
+        height={height}
+        preserveAspectRatio="none"
+        style={{
+          display: 'block',
+          background: 'var(--bg-tertiary)',
+          borderRadius: 4,
+          cursor: onPan ? 'grab' : undefined,
+          touchAction: onPan ? 'none' : undefined
+        }}
+        onPointerDown={onPan ? handlePointerDown : undefined}
+        onPointerMove={onPan ? handlePointerMove : undefined}
+        onPointerUp={onPan ? handlePointerUp : undefined}
+        onPointerCancel={onPan ? handlePointerUp : undefined}
+        onWheel={onWheel ? (e) => {
+          const rect = e.currentTarget.getBoundingClientRect();
+          onWheel(e, (e.clientX - rect.left) / rect.width);
+        } : undefined}
+      >
+        {/* 50% and 80% guide lines */}
+        {[50, 80].map(level => (
+          <line
+            key={level}
+            x1={0}
+            x2={WIDTH}
+            y1={y(level)}
+            y2={y(level)}
+            stroke="var(--border)"
+            strokeDasharray="2 3"
+            strokeWidth={1}
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+        {series.map(s => {
+          const points = s.points.filter(p => p.time >= from && p.time <= to);
+          if (points.length === 0) return null;
+          // Stepped line - usage only changes when a refresh records a new value
+          let d = `M ${x(points[0].time)} ${y(points[0].value)}`;
+          for (let i = 1; i < points.length; i++) {
+            d += ` H ${x(points[i].time)} V ${y(points[i].value)}`;
+          }
+          return (
+            <path
+              key={s.label}
+              d={d}
+              fill="none"
+              stroke={s.color}
+              strokeWidth={1.5}
+              vectorEffect="non-scaling-stroke"
+            />
+          );
+        })}
+      </svg>
+      <div style={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        fontSize: 9,
+        color: 'var(--text-muted)',
+        marginTop: 2
+      }}>
+        <span>{formatTick(from, span)}</span>
+        {!hasData && <span>—</span>}
+        <span>{formatTick(to, span)}</span>
+      </div>
+    </div>
+  );
+}
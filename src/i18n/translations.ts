@@ -10,24 +10,216 @@ export interface Translations {
   loginToClaudePrompt: string;
   loginToClaudeButton: string;
   noUsageData: string;
+  resetRefreshing: string;
+  resetsIn: (duration: string) => string;
+  projectionHitsLimit: (time: string, margin: string | null) => string;
+  projectionAtReset: (percentage: number) => string;
+  lowConfidenceWarning: string;
   
   // API Credit
   apiCredit: string;
   loginToPlatformPrompt: string;
   loginToPlatformButton: string;
+  logoutClaude: string;
+  logoutPlatform: string;
   remainingBalance: string;
   
+  // Tabs & History
+  usageTab: string;
+  historyTab: string;
+  historyZoomHint: string;
+  resetZoom: string;
+  noHistoryData: string;
+  
+  // API Spend
+  apiSpend: string;
+  last30Days: string;
+  costByModel: string;
+  tokens: string;
+  tokensByModel: string;
+  inputTokens: string;
+  outputTokens: string;
+  cachedTokens: string;
+  noApiSpendData: string;
+  
+  // Efficiency
+  cacheWriteTokens: string;
+  efficiencyTab: string;
+  efficiency: string;
+  cacheHitRatio: string;
+  cacheReadsPerWrite: string;
+  inputOutputRatio: string;
+  tokenMix: string;
+  uncachedInput: string;
+  cacheRead: string;
+  cacheWrite5m: string;
+  cacheWrite1h: string;
+  webSearches: string;
+  byModel: string;
+  byWorkspace: string;
+  dailyCacheHitRatio: string;
+  cacheHitShort: string;
+  cacheWriteShort: string;
+  inputOutputShort: string;
+  
   // Settings
   settings: string;
   language: string;
   refreshInterval: string;
   seconds: string;
+  dataSource: string;
+  dataSourceAuto: string;
+  dataSourceApi: string;
+  dataSourceScraper: string;
   autoStart: string;
   autoStartEnabled: string;
   autoStartDisabled: string;
   notificationThreshold: string;
   notificationDisabled: string;
+  projectionAlerts: string;
+  notificationRules: string;
+  notificationRulesHint: string;
+  ruleLevels: string;
+  ruleOnIncrease: string;
+  ruleOnReset: string;
+  addRule: string;
+  quietHours: string;
+  webhooks: string;
+  webhooksHint: string;
+  webhookName: string;
+  webhookUrl: string;
+  webhookTemplate: string;
+  webhookFormatJson: string;
+  addWebhook: string;
+  sendTest: string;
+  testSent: string;
+  testFailed: string;
+  adminApiAuthError: string;
+  adminApiPermissionError: string;
+  adminApiRateLimited: string;
+  adminApiServerError: string;
+  adminApiNetworkError: string;
+  budgets: string;
+  budgetTotal: string;
+  budgetWorkspace: string;
+  budgetModel: string;
+  addBudget: string;
+  budgetsHint: string;
+  budgetsNeedAdminKey: string;
+  budgetOver: string;
+  budgetOnPaceFor: string;
+  thisMonth: string;
+  projected: string;
+  lowBalanceThreshold: string;
+  lowBalanceHint: string;
+  lowBalanceWarning: string;
+  exportData: string;
+  exportUsageHistory: string;
+  exportDailyCosts: string;
+  exportTokenTotals: string;
+  exportButton: string;
+  exportDone: string;
+  exportRows: string;
+  exportFailed: string;
+  statusServer: string;
+  statusServerPort: string;
+  statusServerToken: string;
+  statusServerRunning: string;
+  copy: string;
+  regenerate: string;
+  trayIcon: string;
+  trayIconRing: string;
+  trayIconBar: string;
+  trayIconStatic: string;
+  trayIconShowPercentage: string;
+  trayIconSource: string;
+  trayIconHighest: string;
+  accounts: string;
+  adminKey: string;
+  adminKeyNotSet: string;
+  adminKeyFromEnv: string;
+  adminKeyPlaceholder: string;
+  adminKeySave: string;
+  adminKeyReplace: string;
+  adminKeyDelete: string;
+  adminKeyValidating: string;
+  adminKeySaved: string;
+  adminKeyNoEncryption: string;
+  addAccount: string;
+  accountNickname: string;
+  removeAccount: string;
+  
+  // Report explorer
+  reportExplorer: string;
+  reportOpen: string;
+  reportPresets: string;
+  reportPresetName: string;
+  reportDeletePreset: string;
+  reportRange: string;
+  reportLast24h: string;
+  reportLast7d: string;
+  reportLast30d: string;
+  reportCustom: string;
+  reportFrom: string;
+  reportTo: string;
+  reportBucket: string;
+  reportBucketDay: string;
+  reportBucketHour: string;
+  reportBucketMinute: string;
+  reportGroupBy: string;
+  reportModel: string;
+  reportWorkspace: string;
+  reportApiKey: string;
+  reportServiceTier: string;
+  reportContextWindow: string;
+  reportFilterPlaceholder: string;
+  reportRun: string;
+  reportTotals: string;
+  reportPerBucket: string;
+  reportCacheWrite: string;
+  reportCacheRead: string;
+  reportTotal: string;
+  reportOther: string;
+  reportNoRows: string;
+  reportTruncated: string;
+  reportUsagePanel: string;
+  costEstimate: string;
+  priceTable: string;
+  estimatedCost: string;
+  actualCost: string;
+  costDifference: string;
+  priceVersionsUsed: string;
+  unpricedModels: string;
+  reconciliation: string;
+  priceTableHint: string;
+  priceTableVersions: string;
+  priceTableReset: string;
+  priceTableSaved: string;
+  priceEffectiveFrom: string;
+  priceNote: string;
+  priceBatchDiscount: string;
+  priceWebSearch: string;
+  priceModelPrefix: string;
+  priceInput: string;
+  priceOutput: string;
+  priceCacheWrite5m: string;
+  priceCacheWrite1h: string;
+  priceCacheRead: string;
+  priceAddModel: string;
+  priceSaveVersion: string;
+  nameArchived: string;
+  nameInactive: string;
+  nameDeleted: string;
+  refreshNames: string;
+  namesUpdated: string;
+  namesNotLoaded: string;
   
+  // Durations, e.g. "4h 18m" / "4시간 18분"
+  unitDays: string;
+  unitHours: string;
+  unitMinutes: string;
+  unitSeconds: string;
+
   // Common
   loading: string;
   close: string;
@@ -43,21 +235,208 @@ export const translations: Record<Language, Translations> = {
     loginToClaudePrompt: 'Login to Claude to see your subscription usage',
     loginToClaudeButton: 'Login to Claude',
     noUsageData: 'No usage data available',
+    resetRefreshing: 'Reset — refreshing…',
+    resetsIn: (duration) => `Resets in ${duration}`,
+    projectionHitsLimit: (time, margin) => `At current pace you will hit 100% at ${time}${margin ? `, ${margin} before reset` : ''}`,
+    projectionAtReset: (percentage) => `At current pace: ~${percentage}% at reset`,
+    lowConfidenceWarning: 'The usage page layout may have changed, these numbers might be wrong. Export diagnostics from the tray menu to report it.',
     
     apiCredit: 'API Credit',
     loginToPlatformPrompt: 'Login to Claude Platform to see your API credit balance',
     loginToPlatformButton: 'Login to Platform',
+    logoutClaude: 'Log out of Claude',
+    logoutPlatform: 'Log out of Platform',
     remainingBalance: 'Remaining Balance',
     
+    usageTab: 'Usage',
+    historyTab: 'History',
+    historyZoomHint: 'Scroll on the chart to zoom, drag to pan',
+    resetZoom: 'Reset zoom',
+    noHistoryData: 'No history recorded yet',
+    
+    apiSpend: 'API Spend',
+    last30Days: 'Last 30 days',
+    costByModel: 'Cost by model',
+    tokens: 'Tokens',
+    tokensByModel: 'Tokens by model',
+    inputTokens: 'Input',
+    outputTokens: 'Output',
+    cachedTokens: 'Cached',
+    noApiSpendData: 'Could not load Admin API data',
+    
+    cacheWriteTokens: 'Cache writes',
+    efficiencyTab: 'Efficiency',
+    efficiency: 'Cache Efficiency',
+    cacheHitRatio: 'Cache hit ratio',
+    cacheReadsPerWrite: 'Reads per write',
+    inputOutputRatio: 'Input : output',
+    tokenMix: 'Token mix',
+    uncachedInput: 'Uncached input',
+    cacheRead: 'Cache reads',
+    cacheWrite5m: 'Cache writes (5m TTL)',
+    cacheWrite1h: 'Cache writes (1h TTL)',
+    webSearches: 'Web searches',
+    byModel: 'By model',
+    byWorkspace: 'By workspace',
+    dailyCacheHitRatio: 'Daily cache hit ratio',
+    cacheHitShort: 'Hit',
+    cacheWriteShort: 'Writes',
+    inputOutputShort: 'In:Out',
+    
     settings: 'Settings',
     language: 'Language',
     refreshInterval: 'Refresh Interval',
     seconds: 'seconds',
+    dataSource: 'Usage Data Source',
+    dataSourceAuto: 'Automatic (API, page fallback)',
+    dataSourceApi: 'claude.ai API only',
+    dataSourceScraper: 'Settings page only',
     autoStart: 'Auto Start',
     autoStartEnabled: 'Enabled',
     autoStartDisabled: 'Disabled',
     notificationThreshold: 'Usage Alert Threshold',
     notificationDisabled: 'Disabled',
+    projectionAlerts: 'Forecast Alerts',
+    notificationRules: 'Per-Bar Alerts',
+    notificationRulesHint: 'Bars without a rule use the threshold above. Snooze alerts from the tray menu.',
+    ruleLevels: 'e.g. 50, 80, 95',
+    ruleOnIncrease: 'Any increase',
+    ruleOnReset: 'On reset',
+    addRule: 'Add rule',
+    quietHours: 'Quiet Hours',
+    webhooks: 'Webhooks',
+    webhooksHint: 'Alerts are also posted here, including during quiet hours. Placeholders: {{title}} {{message}} {{account}} {{label}} {{percentage}} {{level}}',
+    webhookName: 'Name',
+    webhookUrl: 'https://hooks.slack.com/...',
+    webhookTemplate: '{{title}}: {{message}}',
+    webhookFormatJson: 'Generic JSON',
+    addWebhook: 'Add webhook',
+    sendTest: 'Send test',
+    testSent: 'Test sent',
+    testFailed: 'Test failed',
+    adminApiAuthError: 'The Admin API key was rejected. Replace it in Settings',
+    adminApiPermissionError: 'This Admin API key cannot read usage reports',
+    adminApiRateLimited: 'Rate limited by the Admin API, will retry on the next refresh',
+    adminApiServerError: 'The Admin API is having trouble',
+    adminApiNetworkError: 'Cannot reach the Admin API',
+    budgets: 'Monthly API Budgets',
+    budgetTotal: 'All API spend',
+    budgetWorkspace: 'Workspace',
+    budgetModel: 'Model',
+    addBudget: '+ Add budget',
+    budgetsHint: 'You are notified when a budget is on pace to be exceeded this month, and again when it is exceeded',
+    budgetsNeedAdminKey: 'Budgets need an Admin API key',
+    budgetOver: 'Over budget',
+    budgetOnPaceFor: 'On pace for',
+    thisMonth: 'This month',
+    projected: 'projected',
+    lowBalanceThreshold: 'Low Balance Alert',
+    lowBalanceHint: 'Notify when the credit balance drops below this (0 = off)',
+    lowBalanceWarning: 'Credit balance is below your alert floor',
+    exportData: 'Export Data',
+    exportUsageHistory: 'Usage history (per bar)',
+    exportDailyCosts: 'Daily API costs by workspace and model',
+    exportTokenTotals: 'Token totals by model',
+    exportButton: 'Export',
+    exportDone: 'Exported',
+    exportRows: 'rows',
+    exportFailed: 'Export failed',
+    statusServer: 'Local Status Server',
+    statusServerPort: 'Port',
+    statusServerToken: 'Bearer Token',
+    statusServerRunning: 'Listening on',
+    copy: 'Copy',
+    regenerate: 'Regenerate',
+    trayIcon: 'Tray Icon',
+    trayIconRing: 'Usage ring',
+    trayIconBar: 'Usage bar',
+    trayIconStatic: 'Static icon',
+    trayIconShowPercentage: 'Show Percentage in Icon',
+    trayIconSource: 'Tray Icon Shows',
+    trayIconHighest: 'Highest bar',
+    accounts: 'Claude Accounts',
+    adminKey: 'Admin API Key',
+    adminKeyNotSet: 'Not configured',
+    adminKeyFromEnv: 'from .env.local',
+    adminKeyPlaceholder: 'sk-ant-admin...',
+    adminKeySave: 'Save',
+    adminKeyReplace: 'Replace',
+    adminKeyDelete: 'Delete',
+    adminKeyValidating: 'Checking key...',
+    adminKeySaved: 'Key verified and saved',
+    adminKeyNoEncryption: 'Secure storage is not available, the key can only be set in .env.local',
+    addAccount: 'Add',
+    accountNickname: 'Nickname (e.g. Work)',
+    removeAccount: 'Remove',
+    
+    reportExplorer: 'Report Explorer',
+    reportOpen: 'Explore Reports',
+    reportPresets: 'Presets',
+    reportPresetName: 'Preset name',
+    reportDeletePreset: 'Delete',
+    reportRange: 'Range',
+    reportLast24h: 'Last 24 hours',
+    reportLast7d: 'Last 7 days',
+    reportLast30d: 'Last 30 days',
+    reportCustom: 'Custom',
+    reportFrom: 'From',
+    reportTo: 'To',
+    reportBucket: 'Bucket',
+    reportBucketDay: 'Day',
+    reportBucketHour: 'Hour',
+    reportBucketMinute: 'Minute',
+    reportGroupBy: 'Group By',
+    reportModel: 'Model',
+    reportWorkspace: 'Workspace',
+    reportApiKey: 'API Key',
+    reportServiceTier: 'Service Tier',
+    reportContextWindow: 'Context Window',
+    reportFilterPlaceholder: 'All (comma-separated)',
+    reportRun: 'Run',
+    reportTotals: 'Totals',
+    reportPerBucket: 'Per Bucket',
+    reportCacheWrite: 'Cache write',
+    reportCacheRead: 'Cache read',
+    reportTotal: 'Total',
+    reportOther: 'Other',
+    reportNoRows: 'No usage in this range',
+    reportTruncated: 'The range has more data than one report can hold, narrow it or use wider buckets',
+    reportUsagePanel: 'Usage',
+    costEstimate: 'Cost Estimate',
+    priceTable: 'Price Table',
+    estimatedCost: 'Estimated',
+    actualCost: 'Cost report',
+    costDifference: 'Difference',
+    priceVersionsUsed: 'Price table versions',
+    unpricedModels: 'No price for',
+    reconciliation: 'Estimate vs. cost report by model',
+    priceTableHint: 'USD per million tokens. Each save adds a new version that prices usage from its effective date on; models match by the longest name prefix.',
+    priceTableVersions: 'Version',
+    priceTableReset: 'Reset to built-in prices',
+    priceTableSaved: 'Saved as a new version',
+    priceEffectiveFrom: 'Effective from',
+    priceNote: 'Note',
+    priceBatchDiscount: 'Batch discount (%)',
+    priceWebSearch: 'Web search ($ / 1K)',
+    priceModelPrefix: 'Model prefix',
+    priceInput: 'Input',
+    priceOutput: 'Output',
+    priceCacheWrite5m: 'Cache write 5m',
+    priceCacheWrite1h: 'Cache write 1h',
+    priceCacheRead: 'Cache read',
+    priceAddModel: 'Add Model',
+    priceSaveVersion: 'Save as New Version',
+    nameArchived: 'archived',
+    nameInactive: 'inactive',
+    nameDeleted: 'deleted',
+    refreshNames: 'Refresh Names',
+    namesUpdated: 'Names from',
+    namesNotLoaded: 'Workspace and API key names not loaded yet',
+    
+    unitDays: 'd',
+    unitHours: 'h',
+    unitMinutes: 'm',
+    unitSeconds: 's',
     
     loading: 'Loading...',
     close: 'Close',
@@ -71,21 +450,208 @@ export const translations: Record<Language, Translations> = {
     loginToClaudePrompt: 'Claude 로그인이 필요합니다',
     loginToClaudeButton: 'Claude 로그인',
     noUsageData: '사용량 데이터 없음',
+    resetRefreshing: '재설정됨 — 새로고침 중…',
+    resetsIn: (duration) => `${duration} 후 재설정`,
+    projectionHitsLimit: (time, margin) => `현재 속도면 ${time}에 100% 도달${margin ? ` (재설정 ${margin} 전)` : ''}`,
+    projectionAtReset: (percentage) => `현재 속도면 재설정 시 약 ${percentage}%`,
+    lowConfidenceWarning: '사용량 페이지 구조가 바뀌어 수치가 정확하지 않을 수 있습니다. 트레이 메뉴에서 진단 정보를 내보내 제보해 주세요.',
     
     apiCredit: 'API 크레딧',
     loginToPlatformPrompt: 'Platform 로그인이 필요합니다',
     loginToPlatformButton: 'Platform 로그인',
+    logoutClaude: 'Claude 로그아웃',
+    logoutPlatform: 'Platform 로그아웃',
     remainingBalance: '잔여 크레딧',
     
+    usageTab: '사용량',
+    historyTab: '기록',
+    historyZoomHint: '차트에서 스크롤하여 확대/축소, 드래그하여 이동',
+    resetZoom: '확대 초기화',
+    noHistoryData: '아직 기록 없음',
+    
+    apiSpend: 'API 지출',
+    last30Days: '최근 30일',
+    costByModel: '모델별 비용',
+    tokens: '토큰',
+    tokensByModel: '모델별 토큰',
+    inputTokens: '입력',
+    outputTokens: '출력',
+    cachedTokens: '캐시',
+    noApiSpendData: 'Admin API 데이터를 불러올 수 없음',
+    
+    cacheWriteTokens: '캐시 쓰기',
+    efficiencyTab: '효율',
+    efficiency: '캐시 효율',
+    cacheHitRatio: '캐시 적중률',
+    cacheReadsPerWrite: '쓰기당 읽기',
+    inputOutputRatio: '입력 : 출력',
+    tokenMix: '토큰 구성',
+    uncachedInput: '캐시 안 된 입력',
+    cacheRead: '캐시 읽기',
+    cacheWrite5m: '캐시 쓰기 (5분 TTL)',
+    cacheWrite1h: '캐시 쓰기 (1시간 TTL)',
+    webSearches: '웹 검색',
+    byModel: '모델별',
+    byWorkspace: '워크스페이스별',
+    dailyCacheHitRatio: '일별 캐시 적중률',
+    cacheHitShort: '적중',
+    cacheWriteShort: '쓰기',
+    inputOutputShort: '입:출',
+    
     settings: '설정',
     language: '언어',
     refreshInterval: '새로고침 간격',
     seconds: '초',
+    dataSource: '사용량 데이터 소스',
+    dataSourceAuto: '자동 (API, 실패 시 페이지)',
+    dataSourceApi: 'claude.ai API만',
+    dataSourceScraper: '설정 페이지만',
     autoStart: '자동 시작',
     autoStartEnabled: '활성화',
     autoStartDisabled: '비활성화',
     notificationThreshold: '사용량 알림 임계값',
     notificationDisabled: '비활성화',
+    projectionAlerts: '소진 예측 알림',
+    notificationRules: '항목별 알림',
+    notificationRulesHint: '규칙이 없는 항목은 위의 임계값을 사용합니다. 트레이 메뉴에서 알림을 일시 중지할 수 있습니다.',
+    ruleLevels: '예: 50, 80, 95',
+    ruleOnIncrease: '증가할 때마다',
+    ruleOnReset: '초기화 시',
+    addRule: '규칙 추가',
+    quietHours: '방해 금지 시간',
+    webhooks: '웹훅',
+    webhooksHint: '알림이 여기로도 전송되며, 방해 금지 시간에도 전송됩니다. 치환자: {{title}} {{message}} {{account}} {{label}} {{percentage}} {{level}}',
+    webhookName: '이름',
+    webhookUrl: 'https://hooks.slack.com/...',
+    webhookTemplate: '{{title}}: {{message}}',
+    webhookFormatJson: '일반 JSON',
+    addWebhook: '웹훅 추가',
+    sendTest: '테스트 전송',
+    testSent: '테스트 전송됨',
+    testFailed: '테스트 실패',
+    adminApiAuthError: 'Admin API 키가 거부되었습니다. 설정에서 키를 교체하세요',
+    adminApiPermissionError: '이 Admin API 키로는 사용량 보고서를 읽을 수 없습니다',
+    adminApiRateLimited: 'Admin API 요청 한도 초과, 다음 갱신 때 다시 시도합니다',
+    adminApiServerError: 'Admin API에 문제가 발생했습니다',
+    adminApiNetworkError: 'Admin API에 연결할 수 없습니다',
+    budgets: '월별 API 예산',
+    budgetTotal: '전체 API 지출',
+    budgetWorkspace: '워크스페이스',
+    budgetModel: '모델',
+    addBudget: '+ 예산 추가',
+    budgetsHint: '이번 달 예산 초과가 예상될 때와 실제로 초과했을 때 알림을 보냅니다',
+    budgetsNeedAdminKey: '예산 기능은 Admin API 키가 필요합니다',
+    budgetOver: '예산 초과',
+    budgetOnPaceFor: '예상 지출',
+    thisMonth: '이번 달',
+    projected: '예상',
+    lowBalanceThreshold: '잔액 부족 알림',
+    lowBalanceHint: '크레딧 잔액이 이 금액 아래로 떨어지면 알림 (0 = 끄기)',
+    lowBalanceWarning: '크레딧 잔액이 알림 기준보다 낮습니다',
+    exportData: '데이터 내보내기',
+    exportUsageHistory: '사용량 기록 (항목별)',
+    exportDailyCosts: '워크스페이스·모델별 일일 API 비용',
+    exportTokenTotals: '모델별 토큰 합계',
+    exportButton: '내보내기',
+    exportDone: '내보내기 완료',
+    exportRows: '행',
+    exportFailed: '내보내기 실패',
+    statusServer: '로컬 상태 서버',
+    statusServerPort: '포트',
+    statusServerToken: 'Bearer 토큰',
+    statusServerRunning: '수신 주소',
+    copy: '복사',
+    regenerate: '재발급',
+    trayIcon: '트레이 아이콘',
+    trayIconRing: '사용량 링',
+    trayIconBar: '사용량 막대',
+    trayIconStatic: '고정 아이콘',
+    trayIconShowPercentage: '아이콘에 퍼센트 표시',
+    trayIconSource: '트레이 아이콘 기준',
+    trayIconHighest: '가장 높은 항목',
+    accounts: 'Claude 계정',
+    adminKey: 'Admin API 키',
+    adminKeyNotSet: '설정되지 않음',
+    adminKeyFromEnv: '.env.local에서 읽음',
+    adminKeyPlaceholder: 'sk-ant-admin...',
+    adminKeySave: '저장',
+    adminKeyReplace: '변경',
+    adminKeyDelete: '삭제',
+    adminKeyValidating: '키 확인 중...',
+    adminKeySaved: '키를 확인하고 저장했습니다',
+    adminKeyNoEncryption: '보안 저장소를 사용할 수 없어 .env.local에서만 키를 설정할 수 있습니다',
+    addAccount: '추가',
+    accountNickname: '별칭 (예: 회사)',
+    removeAccount: '삭제',
+    
+    reportExplorer: '리포트 탐색기',
+    reportOpen: '리포트 탐색',
+    reportPresets: '프리셋',
+    reportPresetName: '프리셋 이름',
+    reportDeletePreset: '삭제',
+    reportRange: '기간',
+    reportLast24h: '최근 24시간',
+    reportLast7d: '최근 7일',
+    reportLast30d: '최근 30일',
+    reportCustom: '직접 지정',
+    reportFrom: '시작',
+    reportTo: '종료',
+    reportBucket: '단위',
+    reportBucketDay: '일',
+    reportBucketHour: '시간',
+    reportBucketMinute: '분',
+    reportGroupBy: '그룹 기준',
+    reportModel: '모델',
+    reportWorkspace: '워크스페이스',
+    reportApiKey: 'API 키',
+    reportServiceTier: '서비스 티어',
+    reportContextWindow: '컨텍스트 윈도우',
+    reportFilterPlaceholder: '전체 (쉼표로 구분)',
+    reportRun: '실행',
+    reportTotals: '합계',
+    reportPerBucket: '단위별',
+    reportCacheWrite: '캐시 쓰기',
+    reportCacheRead: '캐시 읽기',
+    reportTotal: '합계',
+    reportOther: '기타',
+    reportNoRows: '이 기간에 사용량이 없습니다',
+    reportTruncated: '한 번에 가져올 수 있는 양보다 데이터가 많습니다. 기간을 줄이거나 더 큰 단위를 사용하세요',
+    reportUsagePanel: '사용량',
+    costEstimate: '비용 추정',
+    priceTable: '가격표',
+    estimatedCost: '추정',
+    actualCost: '비용 리포트',
+    costDifference: '차이',
+    priceVersionsUsed: '사용된 가격표 버전',
+    unpricedModels: '가격 없음:',
+    reconciliation: '모델별 추정 대 비용 리포트',
+    priceTableHint: '백만 토큰당 USD. 저장할 때마다 새 버전이 추가되어 적용일부터의 사용량에 쓰입니다. 모델은 가장 긴 이름 접두어로 매칭됩니다.',
+    priceTableVersions: '버전',
+    priceTableReset: '기본 가격으로 초기화',
+    priceTableSaved: '새 버전으로 저장했습니다',
+    priceEffectiveFrom: '적용일',
+    priceNote: '메모',
+    priceBatchDiscount: '배치 할인 (%)',
+    priceWebSearch: '웹 검색 ($ / 1천 회)',
+    priceModelPrefix: '모델 접두어',
+    priceInput: '입력',
+    priceOutput: '출력',
+    priceCacheWrite5m: '캐시 쓰기 5분',
+    priceCacheWrite1h: '캐시 쓰기 1시간',
+    priceCacheRead: '캐시 읽기',
+    priceAddModel: '모델 추가',
+    priceSaveVersion: '새 버전으로 저장',
+    nameArchived: '보관됨',
+    nameInactive: '비활성',
+    nameDeleted: '삭제됨',
+    refreshNames: '이름 새로고침',
+    namesUpdated: '이름 기준 시각',
+    namesNotLoaded: '워크스페이스와 API 키 이름을 아직 불러오지 않았습니다',
+    
+    unitDays: '일',
+    unitHours: '시간',
+    unitMinutes: '분',
+    unitSeconds: '초',
     
     loading: '로딩 중...',
     close: '닫기',
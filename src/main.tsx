@@ -1,13 +1,15 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { ReportExplorer } from './components/ReportExplorer';
 import { LanguageProvider } from './i18n/LanguageContext';
 import './index.css';
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <LanguageProvider>
-      <App />
+      {/* The report explorer window loads the same bundle with #reports */}
+      {window.location.hash === '#reports' ? <ReportExplorer /> : <App />}
     </LanguageProvider>
   </React.StrictMode>
 );
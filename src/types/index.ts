@@ -1,9 +1,21 @@
+// Burn-rate forecast computed in the main process from recent history
+export interface BarProjection {
+  burnRatePerHour: number;        // Percentage points per hour
+  exhaustsAt: string | null;      // When the bar reaches 100% at the current pace
+  resetsAt: string | null;
+  projectedAtReset: number | null; // Percentage expected when the limit resets
+  exhaustsBeforeReset: boolean;
+  marginMs: number | null;        // How long before the reset the limit is hit
+}
+
 export interface UsageBar {
   used: number;
   limit: number;
   percentage: number;
   label?: string;
   context?: string;
+  resetsAt?: string; // Absolute ISO reset time parsed from context
+  projection?: BarProjection;
 }
 
 export interface ClaudeMaxUsage {
@@ -15,8 +27,15 @@ export interface ClaudeMaxUsage {
   isAuthenticated: boolean;
   plan?: string;
   email?: string;
+  parseWarnings?: string[]; // Scraped text that couldn't be interpreted
+  source?: UsageStrategy;
+  confidence?: UsageConfidence;
 }
 
+// Which extraction path produced the usage data, and how much to trust it
+export type UsageStrategy = 'api' | 'labelled' | 'fallback';
+export type UsageConfidence = 'high' | 'medium' | 'low';
+
 export interface BillingInfo {
   creditBalance: number | null;
   currency: string;
@@ -28,29 +47,420 @@ export interface LogEntry {
   message: string;
 }
 
+// A Claude login tracked by the app, each in its own session partition
+export interface ClaudeAccount {
+  id: string;
+  nickname: string;
+  partition: string;
+}
+
+export interface AccountUsage {
+  accountId: string;
+  nickname: string;
+  usage: ClaudeMaxUsage | null;
+}
+
+// Why the last Admin API request failed, as classified by the main process client
+export type AdminApiErrorKind = 'auth' | 'permission' | 'rate-limited' | 'server' | 'network' | 'request';
+
+export interface AdminApiErrorInfo {
+  kind: AdminApiErrorKind;
+  message: string;
+  status?: number;
+}
+
+export interface ApiSpendResult {
+  summary: ApiSpendSummary | null; // Last good summary, possibly older than the error
+  error: AdminApiErrorInfo | null;
+}
+
+export interface EfficiencyResult {
+  report: EfficiencyReport | null; // Built from the last good usage report
+  error: AdminApiErrorInfo | null;
+}
+
+// Workspace and API key names, keyed by the id that appears in reports
+export type NameState = 'active' | 'inactive' | 'archived' | 'deleted';
+
+export interface ResolvedName {
+  name: string;
+  state: NameState;
+}
+
+export type NameMap = Record<string, ResolvedName>;
+
+export interface DirectoryStatus {
+  workspaces: number;
+  apiKeys: number;
+  fetchedAt: string | null;
+  error: AdminApiErrorInfo | null;
+}
+
+// Admin API usage report explorer
+export type ReportDimension = 'api_key_id' | 'workspace_id' | 'model' | 'service_tier' | 'context_window';
+export type ReportBucketWidth = '1d' | '1h' | '1m';
+export type ReportRange = 'custom' | '24h' | '7d' | '30d';
+
+export interface ReportQuery {
+  range: ReportRange; // Relative ranges are resolved when the report runs, so presets stay current
+  from: string;       // ISO timestamp, used when range is 'custom'
+  to: string;
+  bucketWidth: ReportBucketWidth;
+  groupBy: ReportDimension[];
+  filters: {
+    models: string[];
+    workspaceIds: string[];
+    apiKeyIds: string[];
+    serviceTiers: Array<'standard' | 'batch' | 'priority'>;
+  };
+}
+
+export interface ReportRow {
+  bucketStart: string;
+  group: Partial<Record<ReportDimension, string>>; // Only the grouped dimensions
+  uncachedInputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  webSearchRequests: number;
+}
+
+export interface ReportResult {
+  startingAt: string;
+  endingAt: string;
+  bucketWidth: ReportBucketWidth;
+  groupBy: ReportDimension[];
+  rows: ReportRow[];
+  names: NameMap;
+  truncated: boolean; // The page limit was hit before the whole range was read
+}
+
+export interface ReportRunResult {
+  result: ReportResult | null;
+  error: AdminApiErrorInfo | null;
+}
+
+export interface ReportPreset {
+  id: string;
+  name: string;
+  query: ReportQuery;
+}
+
+// Local price table and cost estimates (USD, prices per million tokens)
+export interface ModelPrice {
+  model: string;
+  input: number;
+  output: number;
+  cacheWrite5m: number;
+  cacheWrite1h: number;
+  cacheRead: number;
+}
+
+export interface PriceTableVersion {
+  version: number;
+  effectiveFrom: string;
+  note: string;
+  batchDiscount: number;
+  webSearchPerThousand: number;
+  models: ModelPrice[];
+}
+
+export interface PriceTableSaveResult {
+  versions: PriceTableVersion[];
+  error: string | null;
+}
+
+export interface EstimateRequest {
+  range: ReportRange;
+  from: string;
+  to: string;
+  groupBy: ReportDimension[];
+}
+
+export interface EstimateRow {
+  group: Partial<Record<ReportDimension, string>>;
+  cost: number;
+  inputTokens: number;
+  outputTokens: number;
+  unpricedTokens: number;
+}
+
+export interface ReconciliationRow {
+  model: string;
+  estimated: number;
+  actual: number | null;
+  difference: number | null;
+}
+
+export interface CostEstimate {
+  startingAt: string;
+  endingAt: string;
+  groupBy: ReportDimension[];
+  rows: EstimateRow[];
+  names: NameMap;
+  estimatedTotal: number;
+  actualTotal: number | null;
+  difference: number | null;
+  byModel: ReconciliationRow[];
+  unpricedModels: string[];
+  priceVersions: number[];
+  truncated: boolean;
+}
+
+export interface CostEstimateResult {
+  estimate: CostEstimate | null;
+  error: AdminApiErrorInfo | null;
+}
+
 export interface RefreshData {
-  claudeUsage: ClaudeMaxUsage | null;
+  claudeUsage: ClaudeMaxUsage | null; // First account, kept for single-account views
+  accounts?: AccountUsage[];
   billingInfo: BillingInfo | null;
+  budgetReport?: BudgetReport;
   timestamp: string;
   logs?: LogEntry[];
 }
 
+export type BudgetScope = 'total' | 'workspace' | 'model';
+
+export interface Budget {
+  id: string;
+  scope: BudgetScope;
+  target: string;       // Workspace id ('default' for the default workspace) or model name prefix
+  monthlyLimit: number; // USD
+}
+
+// ok < warning (80% spent) < projected-over (on pace to exceed) < over (already exceeded)
+export type BudgetState = 'ok' | 'warning' | 'projected-over' | 'over';
+
+export interface BudgetStatus {
+  budget: Budget;
+  spent: number;     // USD, month to date
+  projected: number | null; // USD, expected by the end of the month at the current pace; null too early in the month
+  state: BudgetState;
+}
+
+export interface BudgetReport {
+  month: string;             // YYYY-MM (UTC)
+  spent: number | null;      // Null without an Admin API key
+  projected: number | null;
+  budgets: BudgetStatus[];
+  creditBalance: number | null;
+  lowBalanceThreshold: number; // 0 = no floor
+  lowBalance: boolean;
+  lastUpdated: string;
+}
+
+// One recorded refresh, stored by the main process history database
+export interface UsageSnapshot {
+  timestamp: string;
+  accountId?: string;
+  plan?: string;
+  email?: string;
+  bars: Array<{ label: string; percentage: number; context?: string }>;
+  creditBalance: number | null;
+}
+
+export interface HistoryQuery {
+  from?: string; // ISO timestamp, inclusive
+  to?: string;   // ISO timestamp, inclusive
+  label?: string; // Only return this bar
+  accountId?: string; // Only snapshots of this account
+  limit?: number; // Most recent N snapshots
+}
+
+// Column schemas of each dataset are documented in electron/exporter.ts
+export type ExportDataset = 'usage-history' | 'daily-costs' | 'token-totals';
+export type ExportFormat = 'csv' | 'json';
+
+export interface ExportRequest {
+  dataset: ExportDataset;
+  format: ExportFormat;
+  from: string; // YYYY-MM-DD, inclusive
+  to: string;   // YYYY-MM-DD, inclusive
+}
+
+export interface ExportResult {
+  success: boolean;
+  canceled?: boolean;
+  filePath?: string;
+  rows?: number;
+  error?: string;
+}
+
+export interface TokenTotals {
+  input: number;
+  output: number;
+  cached: number;
+  cacheWrite: number;
+  total: number;
+  webSearches: number;
+}
+
+// 30-day Admin API spend, summarized in the main process
+export interface ApiSpendSummary {
+  periodStart: string;
+  periodEnd: string;
+  totalCost: number; // USD
+  costByModel: Record<string, number>;
+  tokenTotals: TokenTotals;
+  usageByModel: Record<string, TokenTotals>;
+  creditBalance: number | null;
+  lastUpdated: string;
+}
+
+export interface EfficiencyMetrics {
+  uncachedInputTokens: number;
+  cacheWrite5mTokens: number;
+  cacheWrite1hTokens: number;
+  cacheReadTokens: number;
+  outputTokens: number;
+  webSearchRequests: number;
+  inputTokens: number;
+  cacheHitRatio: number | null;
+  cacheReadWriteRatio: number | null;
+  inputOutputRatio: number | null;
+}
+
+export interface EfficiencyPoint extends EfficiencyMetrics {
+  date: string;
+}
+
+export interface EfficiencyGroup {
+  key: string;
+  totals: EfficiencyMetrics;
+  daily: EfficiencyPoint[];
+}
+
+export interface EfficiencyReport {
+  periodStart: string;
+  periodEnd: string;
+  totals: EfficiencyMetrics;
+  daily: EfficiencyPoint[];
+  byModel: EfficiencyGroup[];
+  byWorkspace: EfficiencyGroup[];
+  workspaceNames: NameMap;
+  lastUpdated: string;
+}
+
+// The key itself never reaches the renderer, only a masked hint
+export interface AdminKeyStatus {
+  configured: boolean;
+  hint: string | null;
+  source: 'settings' | 'env' | null; // Saved in Settings or read from .env.local
+  encryptionAvailable: boolean;
+}
+
+export interface AdminKeyResult {
+  success: boolean;
+  error?: string;
+}
+
+// Notification levels for one bar, overriding the global threshold
+export interface NotificationRule {
+  label: string;
+  levels: number[];          // e.g. [50, 80, 95] - each level notifies once per limit window
+  notifyOnIncrease: boolean; // Notify on every increase
+  notifyOnReset: boolean;    // Notify when the bar drops back after an alert
+}
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // "HH:MM"
+  end: string;   // "HH:MM", may be earlier than start to span midnight
+}
+
+// Outbound alert delivery. The template supports {{title}} {{message}} {{account}} {{label}}
+// {{percentage}} {{previous}} {{level}} {{kind}} {{timestamp}}
+export interface WebhookConfig {
+  id: string;
+  name: string;
+  url: string;
+  format: WebhookFormat;
+  template: string;
+  enabled: boolean;
+}
+
+export type WebhookFormat = 'json' | 'slack' | 'discord';
+
+export interface WebhookResult {
+  success: boolean;
+  attempts: number;
+  status?: number;
+  error?: string;
+}
+
 export interface AppSettings {
   refreshInterval: number;
   autoStart: boolean;
-  notificationThreshold: number; // Percentage threshold for notifications (0 = disabled)
+  notificationThreshold: number; // Percentage threshold for bars without a rule (0 = disabled)
+  notificationRules: NotificationRule[];
+  quietHours: QuietHours;
+  webhooks: WebhookConfig[];
+  projectionAlerts: boolean; // Notify when a limit is forecast to run out before it resets
+  dataSource: UsageDataSource;
+  trayIconStyle: TrayIconStyle;
+  trayIconShowPercentage: boolean;
+  trayIconBar: string; // Bar label, or 'highest' for whichever bar is closest to its limit
+  statusServerEnabled: boolean; // Localhost JSON/Prometheus endpoint
+  statusServerPort: number;
+  budgets: Budget[];
+  lowBalanceThreshold: number; // USD, 0 = no floor
+}
+
+export interface StatusServerInfo {
+  running: boolean;
+  port: number;
+  token: string; // Bearer token other tools send to the status server
+  error: string | null;
 }
 
+// 'static' keeps the bundled icon instead of drawing a usage gauge
+export type TrayIconStyle = 'ring' | 'bar' | 'static';
+
+// 'auto' uses claude.ai's JSON API and falls back to scraping the settings page
+export type UsageDataSource = 'auto' | 'api' | 'scraper';
+
 // Window type augmentation for Electron API
 declare global {
   interface Window {
     electronAPI: {
       getClaudeMaxUsage: () => Promise<ClaudeMaxUsage | null>;
       isClaudeAuthenticated: () => Promise<boolean>;
-      openClaudeLogin: () => Promise<boolean>;
+      openClaudeLogin: (accountId?: string) => Promise<boolean>;
       openPlatformLogin: () => Promise<boolean>;
       refreshAll: () => Promise<void>;
       onDataRefresh: (callback: (data: RefreshData) => void) => () => void;
+      logoutClaude?: (accountId?: string) => Promise<void>;
+      logoutPlatform?: () => Promise<void>;
+      getAccounts?: () => Promise<ClaudeAccount[]>;
+      addAccount?: (nickname: string) => Promise<ClaudeAccount>;
+      renameAccount?: (accountId: string, nickname: string) => Promise<ClaudeAccount[]>;
+      removeAccount?: (accountId: string) => Promise<ClaudeAccount[]>;
+      getAdminKeyStatus?: () => Promise<AdminKeyStatus>;
+      saveAdminKey?: (key: string) => Promise<AdminKeyResult>;
+      deleteAdminKey?: () => Promise<AdminKeyStatus>;
+      getApiSpend?: (force?: boolean) => Promise<ApiSpendResult>;
+      getEfficiencyReport?: (force?: boolean) => Promise<EfficiencyResult>;
+      openReportExplorer?: () => Promise<void>;
+      runReport?: (query: ReportQuery) => Promise<ReportRunResult>;
+      getReportPresets?: () => Promise<ReportPreset[]>;
+      saveReportPreset?: (name: string, query: ReportQuery) => Promise<ReportPreset[]>;
+      deleteReportPreset?: (id: string) => Promise<ReportPreset[]>;
+      getDirectoryStatus?: () => Promise<DirectoryStatus>;
+      refreshDirectory?: () => Promise<DirectoryStatus>;
+      getPriceTable?: () => Promise<PriceTableVersion[]>;
+      savePriceTableVersion?: (table: Omit<PriceTableVersion, 'version'>) => Promise<PriceTableSaveResult>;
+      deletePriceTableVersion?: (version: number) => Promise<PriceTableVersion[]>;
+      resetPriceTable?: () => Promise<PriceTableVersion[]>;
+      estimateCost?: (request: EstimateRequest) => Promise<CostEstimateResult>;
+      getHistory?: (query?: HistoryQuery) => Promise<UsageSnapshot[]>;
+      clearHistory?: () => Promise<void>;
+      exportData?: (request: ExportRequest) => Promise<ExportResult>;
+      testWebhook?: (webhook: WebhookConfig) => Promise<WebhookResult>;
+      getStatusServerInfo?: () => Promise<StatusServerInfo>;
+      regenerateStatusServerToken?: () => Promise<StatusServerInfo>;
       getSettings?: () => Promise<AppSettings>;
       saveSettings?: (settings: AppSettings) => Promise<void>;
       setAutoStart?: (enabled: boolean) => Promise<void>;
@@ -0,0 +1,288 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ServerResponse } from 'http';
+import { startStubServer, sendJson, sendError, StubServer, RecordedRequest } from './helpers/stubServer';
+import {
+  getFullUsageReport,
+  iterateCostReport,
+  getCreditBalance,
+  parseRetryAfter,
+  AdminApiOptions,
+  AdminApiError,
+  AdminApiAuthError,
+  AdminApiPermissionError,
+  AdminApiRateLimitError,
+  AdminApiServerError,
+  AdminApiNetworkError,
+} from '../electron/adminApi';
+
+const ADMIN_KEY = 'sk-ant-admin01-test';
+
+function usageBucket(day: string, model: string) {
+  return {
+    starting_at: `${day}T00:00:00Z`,
+    ending_at: `${day}T23:59:59Z`,
+    results: [{ uncached_input_tokens: 10, cache_read_input_tokens: 0, output_tokens: 5, model }],
+  };
+}
+
+function costBucket(day: string) {
+  return {
+    starting_at: `${day}T00:00:00Z`,
+    ending_at: `${day}T23:59:59Z`,
+    results: [{ amount: '100', currency: 'USD', model: null, cost_type: null, service_tier: null, workspace_id: null }],
+  };
+}
+
+describe('report pagination', () => {
+  let server: StubServer;
+
+  // Three pages, with the 2025-10-02 bucket split across the first page boundary
+  const USAGE_PAGES: Record<string, unknown> = {
+    '': { data: [usageBucket('2025-10-01', 'a'), usageBucket('2025-10-02', 'b')], has_more: true, next_page: 'page-2' },
+    'page-2': { data: [usageBucket('2025-10-02', 'c'), usageBucket('2025-10-03', 'd')], has_more: true, next_page: 'page-3' },
+    'page-3': { data: [usageBucket('2025-10-03', 'e')], has_more: false },
+  };
+  const COST_PAGES: Record<string, unknown> = {
+    '': { data: [costBucket('2025-10-01')], has_more: true, next_page: 'page-2' },
+    'page-2': { data: [costBucket('2025-10-02')], has_more: false },
+  };
+
+  before(async () => {
+    server = await startStubServer((request, response) => {
+      const page = request.url.searchParams.get('page') || '';
+      const pages = request.url.pathname.endsWith('/cost_report') ? COST_PAGES : USAGE_PAGES;
+      if (pages[page]) {
+        sendJson(response, 200, pages[page]);
+      } else {
+        sendError(response, 404, 'No such page');
+      }
+    });
+  });
+
+  after(() => server.close());
+
+  beforeEach(() => {
+    server.requests.length = 0;
+  });
+
+  it('follows next_page to the end and merges buckets split across pages', async () => {
+    const report = await getFullUsageReport(
+      ADMIN_KEY,
+      { starting_at: '2025-10-01T00:00:00Z', group_by: ['model'] },
+      undefined,
+      { baseUrl: server.baseUrl }
+    );
+
+    assert.deepEqual(server.requests.map(request => request.url.searchParams.get('page')), [null, 'page-2', 'page-3']);
+    for (const request of server.requests) {
+      assert.equal(request.url.pathname, '/v1/organizations/usage_report/messages');
+      assert.equal(request.url.searchParams.get('starting_at'), '2025-10-01T00:00:00Z');
+      assert.deepEqual(request.url.searchParams.getAll('group_by[]'), ['model']);
+    }
+
+    assert.deepEqual(report.data.map(bucket => [bucket.starting_at.slice(0, 10), bucket.results.map(result => result.model)]), [
+      ['2025-10-01', ['a']],
+      ['2025-10-02', ['b', 'c']],
+      ['2025-10-03', ['d', 'e']],
+    ]);
+    assert.equal(report.has_more, false);
+    assert.equal(report.next_page, undefined);
+  });
+
+  it('stops at maxPages and keeps the cursor so the result shows as truncated', async () => {
+    const report = await getFullUsageReport(ADMIN_KEY, { starting_at: '2025-10-01T00:00:00Z' }, 2, { baseUrl: server.baseUrl });
+
+    assert.equal(server.requests.length, 2);
+    assert.equal(report.data.length, 3);
+    assert.equal(report.has_more, true);
+    assert.equal(report.next_page, 'page-3');
+  });
+
+  it('yields cost report pages one at a time', async () => {
+    const pages = [];
+    for await (const page of iterateCostReport(ADMIN_KEY, { starting_at: '2025-10-01T00:00:00Z' }, undefined, { baseUrl: server.baseUrl })) {
+      pages.push(page.data.map(bucket => bucket.starting_at.slice(0, 10)));
+    }
+
+    assert.deepEqual(pages, [['2025-10-01'], ['2025-10-02']]);
+    assert.deepEqual(server.requests.map(request => request.url.pathname), [
+      '/v1/organizations/cost_report',
+      '/v1/organizations/cost_report',
+    ]);
+  });
+});
+
+describe('retries and errors', () => {
+  let server: StubServer;
+  // Each test scripts the responses, one per request
+  let responses: Array<(request: RecordedRequest, response: ServerResponse) => void> = [];
+  // Backoff delays the client asked for; the tests don't actually wait
+  let delays: number[] = [];
+
+  const options = (extra: AdminApiOptions = {}): AdminApiOptions => ({
+    baseUrl: server.baseUrl,
+    baseDelayMs: 100,
+    sleep: async ms => {
+      delays.push(ms);
+    },
+    ...extra,
+  });
+
+  const balance = (_request: RecordedRequest, response: ServerResponse) => {
+    sendJson(response, 200, { available_credit: '12.34', currency: 'USD' });
+  };
+
+  before(async () => {
+    server = await startStubServer((request, response) => {
+      const next = responses.shift();
+      if (next) {
+        next(request, response);
+      } else {
+        sendError(response, 500, 'Unexpected request');
+      }
+    });
+  });
+
+  after(() => server.close());
+
+  beforeEach(() => {
+    server.requests.length = 0;
+    responses = [];
+    delays = [];
+  });
+
+  it('sends the key and API version', async () => {
+    responses = [balance];
+    assert.deepEqual(await getCreditBalance(ADMIN_KEY, options()), { available_credit: '12.34', currency: 'USD' });
+    assert.equal(server.requests[0].headers['x-api-key'], ADMIN_KEY);
+    assert.equal(server.requests[0].headers['anthropic-version'], '2023-06-01');
+  });
+
+  it('backs off exponentially on server errors', async () => {
+    responses = [
+      (_request, response) => sendError(response, 529, 'Overloaded'),
+      (_request, response) => sendError(response, 500, 'Internal error'),
+      balance,
+    ];
+    await getCreditBalance(ADMIN_KEY, options());
+    assert.equal(server.requests.length, 3);
+    assert.deepEqual(delays, [100, 200]);
+  });
+
+  it('waits as long as retry-after asks on 429', async () => {
+    responses = [
+      (_request, response) => sendError(response, 429, 'Rate limited', { 'retry-after': '2' }),
+      balance,
+    ];
+    await getCreditBalance(ADMIN_KEY, options());
+    assert.deepEqual(delays, [2000]);
+  });
+
+  it('throws AdminApiRateLimitError once the retries run out', async () => {
+    responses = Array(3).fill((_request: RecordedRequest, response: ServerResponse) => {
+      sendError(response, 429, 'Rate limited', { 'retry-after': '1' });
+    });
+    const error = await getCreditBalance(ADMIN_KEY, options({ retries: 2 })).catch(err => err);
+
+    assert.ok(error instanceof AdminApiRateLimitError);
+    assert.equal(error.kind, 'rate-limited');
+    assert.equal(error.status, 429);
+    assert.equal(error.retryAfterMs, 1000);
+    assert.equal(error.message, 'Admin API 429: Rate limited');
+    assert.equal(server.requests.length, 3);
+    assert.deepEqual(delays, [1000, 1000]);
+  });
+
+  it('gives up at once when retry-after is longer than it will wait', async () => {
+    responses = [(_request, response) => sendError(response, 429, 'Rate limited', { 'retry-after': '120' })];
+    const error = await getCreditBalance(ADMIN_KEY, options()).catch(err => err);
+
+    assert.ok(error instanceof AdminApiRateLimitError);
+    assert.equal(error.retryAfterMs, 120000);
+    assert.equal(server.requests.length, 1);
+    assert.deepEqual(delays, []);
+  });
+
+  it('throws AdminApiAuthError on 401 without retrying', async () => {
+    responses = [(_request, response) => sendError(response, 401, 'invalid x-api-key')];
+    const error = await getCreditBalance(ADMIN_KEY, options()).catch(err => err);
+
+    assert.ok(error instanceof AdminApiAuthError);
+    assert.equal(error.kind, 'auth');
+    assert.equal(error.message, 'Admin API 401: invalid x-api-key');
+    assert.equal(server.requests.length, 1);
+  });
+
+  it('throws AdminApiPermissionError on 403 without retrying', async () => {
+    responses = [(_request, response) => sendError(response, 403, 'Not allowed')];
+    const error = await getCreditBalance(ADMIN_KEY, options()).catch(err => err);
+
+    assert.ok(error instanceof AdminApiPermissionError);
+    assert.equal(server.requests.length, 1);
+  });
+
+  it('throws AdminApiServerError when server errors outlast the retries', async () => {
+    responses = Array(2).fill((_request: RecordedRequest, response: ServerResponse) => {
+      response.writeHead(502, { 'content-type': 'text/html' });
+      response.end('<html>Bad gateway</html>');
+    });
+    const error = await getCreditBalance(ADMIN_KEY, options({ retries: 1 })).catch(err => err);
+
+    assert.ok(error instanceof AdminApiServerError);
+    assert.equal(error.status, 502);
+    assert.equal(error.message, 'Admin API 502: <html>Bad gateway</html>');
+  });
+
+  it('times out a request that never answers', async () => {
+    // Leave the request hanging; closing the server drops it
+    responses = [() => undefined];
+    const error = await getCreditBalance(ADMIN_KEY, options({ retries: 0, timeoutMs: 50 })).catch(err => err);
+
+    assert.ok(error instanceof AdminApiNetworkError);
+    assert.equal(error.timedOut, true);
+    assert.equal(error.message, 'Admin API request timed out after 0.05s');
+  });
+
+  it('retries a timed out request', async () => {
+    responses = [() => undefined, balance];
+    await getCreditBalance(ADMIN_KEY, options({ timeoutMs: 50 }));
+    assert.equal(server.requests.length, 2);
+    assert.deepEqual(delays, [100]);
+  });
+
+  it('does not retry a response body that is not JSON', async () => {
+    responses = [(_request, response) => {
+      response.writeHead(200, { 'content-type': 'application/json' });
+      response.end('{"available_credit": ');
+    }];
+    const error = await getCreditBalance(ADMIN_KEY, options()).catch(err => err);
+
+    assert.ok(error instanceof AdminApiError);
+    assert.equal(error.kind, 'request');
+    assert.equal(error.status, 200);
+    assert.match(error.message, /^Admin API response could not be parsed: /);
+    assert.equal(server.requests.length, 1);
+    assert.deepEqual(delays, []);
+  });
+
+  it('reports an unreachable server as a network error', async () => {
+    const closed = await startStubServer(balance);
+    await closed.close();
+    const error = await getCreditBalance(ADMIN_KEY, options({ baseUrl: closed.baseUrl, retries: 0 })).catch(err => err);
+
+    assert.ok(error instanceof AdminApiNetworkError);
+    assert.equal(error.timedOut, false);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads seconds and HTTP dates', () => {
+    const now = Date.parse('2025-10-29T10:00:00Z');
+    assert.equal(parseRetryAfter('30', now), 30000);
+    assert.equal(parseRetryAfter('Wed, 29 Oct 2025 10:01:00 GMT', now), 60000);
+    assert.equal(parseRetryAfter('Wed, 29 Oct 2025 09:00:00 GMT', now), 0);
+    assert.equal(parseRetryAfter('soon', now), null);
+    assert.equal(parseRetryAfter(null, now), null);
+  });
+});
@@ -0,0 +1,54 @@
+import './helpers/memoryStore';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { projectMonthEnd, getBudgetState, buildBudgetReport, collectBudgetAlerts } from '../electron/budgets';
+import type { CostReportResponse } from '../electron/adminApi';
+
+// $10 on each of the given UTC days
+function costReport(days: string[]): CostReportResponse {
+  return {
+    data: days.map(day => ({
+      starting_at: `${day}T00:00:00Z`,
+      ending_at: `${day}T23:59:59Z`,
+      results: [{ amount: '1000', currency: 'USD', model: null, cost_type: null, service_tier: null, workspace_id: null }],
+    })),
+    has_more: false,
+  };
+}
+
+describe('projectMonthEnd', () => {
+  it('has no projection before two days of the month have finished', () => {
+    assert.deepEqual(projectMonthEnd({ '2025-10-01': 50 }, new Date('2025-10-01T00:30:00Z')), { spent: 50, projected: null });
+    assert.deepEqual(projectMonthEnd({ '2025-10-01': 50, '2025-10-02': 5 }, new Date('2025-10-02T12:00:00Z')), {
+      spent: 55,
+      projected: null,
+    });
+  });
+
+  it('projects the average of the finished days over the rest of the month', () => {
+    const daily = { '2025-10-01': 10, '2025-10-02': 20, '2025-10-03': 4 };
+    const { spent, projected } = projectMonthEnd(daily, new Date('2025-10-03T00:00:00Z'));
+    assert.equal(spent, 34);
+    // $15 a day for the 29 days left
+    assert.equal(projected, 34 + 15 * 29);
+  });
+});
+
+describe('getBudgetState', () => {
+  it('only forecasts with a projection', () => {
+    assert.equal(getBudgetState(50, null, 100), 'ok');
+    assert.equal(getBudgetState(50, 150, 100), 'projected-over');
+    assert.equal(getBudgetState(85, null, 100), 'warning');
+    assert.equal(getBudgetState(120, null, 100), 'over');
+  });
+});
+
+describe('collectBudgetAlerts', () => {
+  it('sends no forecast alert early on the first of the month', () => {
+    const budgets = [{ id: 'total', scope: 'total' as const, target: '', monthlyLimit: 100 }];
+    const report = buildBudgetReport(costReport(['2025-10-01']), budgets, null, 0, new Date('2025-10-01T01:00:00Z'));
+    assert.equal(report.projected, null);
+    assert.equal(report.budgets[0].state, 'ok');
+    assert.deepEqual(collectBudgetAlerts(report), []);
+  });
+});
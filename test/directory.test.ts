@@ -0,0 +1,169 @@
+import './helpers/memoryStore';
+import { describe, it, before, after, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { startStubServer, sendJson, sendError, StubServer } from './helpers/stubServer';
+import {
+  refreshDirectory,
+  ensureDirectory,
+  getDirectoryStatus,
+  clearDirectory,
+  resolveName,
+  buildNameMap,
+  formatName,
+} from '../electron/directory';
+import type { AdminApiOptions } from '../electron/adminApi';
+
+const ADMIN_KEY = 'sk-ant-admin01-test';
+
+function workspace(id: string, name: string, archived: boolean = false) {
+  return { id, type: 'workspace', name, created_at: '2025-01-01T00:00:00Z', archived_at: archived ? '2025-06-01T00:00:00Z' : null };
+}
+
+function apiKey(id: string, name: string, status: string) {
+  return {
+    id,
+    type: 'api_key',
+    name,
+    workspace_id: 'wrkspc_1',
+    created_at: '2025-01-01T00:00:00Z',
+    created_by: { id: 'user_1', type: 'user' },
+    partial_key_hint: 'sk-ant-api03-abc...wxyz',
+    status,
+  };
+}
+
+// Workspaces come back in two after_id pages
+const WORKSPACE_PAGES: Record<string, unknown> = {
+  '': { data: [workspace('wrkspc_1', 'Production'), workspace('wrkspc_2', 'Staging', true)], has_more: true, first_id: 'wrkspc_1', last_id: 'wrkspc_2' },
+  wrkspc_2: { data: [workspace('wrkspc_3', 'Research')], has_more: false, first_id: 'wrkspc_3', last_id: 'wrkspc_3' },
+};
+
+const API_KEYS = {
+  data: [apiKey('apikey_1', 'ci-runner', 'active'), apiKey('apikey_2', 'old-laptop', 'inactive')],
+  has_more: false,
+  first_id: 'apikey_1',
+  last_id: 'apikey_2',
+};
+
+describe('directory', () => {
+  let server: StubServer;
+  let apiKeysStatus = 200;
+  let options: AdminApiOptions;
+
+  before(async () => {
+    server = await startStubServer((request, response) => {
+      if (request.url.pathname === '/v1/organizations/workspaces') {
+        sendJson(response, 200, WORKSPACE_PAGES[request.url.searchParams.get('after_id') || '']);
+      } else if (apiKeysStatus !== 200) {
+        sendError(response, apiKeysStatus, 'Not allowed');
+      } else {
+        sendJson(response, 200, API_KEYS);
+      }
+    });
+    options = { baseUrl: server.baseUrl, retries: 0 };
+  });
+
+  after(() => server.close());
+
+  beforeEach(() => {
+    server.requests.length = 0;
+    apiKeysStatus = 200;
+    clearDirectory();
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('follows after_id through every page of workspaces', async () => {
+    const directory = await refreshDirectory(ADMIN_KEY, options);
+
+    const workspaceRequests = server.requests.filter(request => request.url.pathname === '/v1/organizations/workspaces');
+    assert.deepEqual(workspaceRequests.map(request => request.url.searchParams.get('after_id')), [null, 'wrkspc_2']);
+    for (const request of workspaceRequests) {
+      assert.equal(request.url.searchParams.get('include_archived'), 'true');
+      assert.equal(request.url.searchParams.get('limit'), '100');
+    }
+    assert.deepEqual(Object.keys(directory.workspaces), ['wrkspc_1', 'wrkspc_2', 'wrkspc_3']);
+    assert.deepEqual(Object.keys(directory.apiKeys), ['apikey_1', 'apikey_2']);
+    assert.notEqual(directory.fetchedAt.workspaces, null);
+    assert.equal(directory.fetchedAt.apiKeys, directory.fetchedAt.workspaces);
+    assert.deepEqual(getDirectoryStatus(), { workspaces: 3, apiKeys: 2, fetchedAt: directory.fetchedAt.workspaces, error: null });
+  });
+
+  it('resolves names with their state once the lists are complete', async () => {
+    const directory = await refreshDirectory(ADMIN_KEY, options);
+
+    assert.deepEqual(resolveName(directory, 'workspace_id', 'wrkspc_1'), { name: 'Production', state: 'active' });
+    assert.deepEqual(resolveName(directory, 'workspace_id', 'wrkspc_2'), { name: 'Staging', state: 'archived' });
+    assert.deepEqual(resolveName(directory, 'workspace_id', 'default'), { name: 'Default', state: 'active' });
+    assert.deepEqual(resolveName(directory, 'api_key_id', 'apikey_2'), { name: 'old-laptop', state: 'inactive' });
+    assert.deepEqual(resolveName(directory, 'api_key_id', 'apikey_gone'), { name: 'apikey_gone', state: 'deleted' });
+    assert.equal(resolveName(directory, 'api_key_id', 'unknown'), null);
+
+    assert.deepEqual(buildNameMap(directory, [{ workspace_id: 'wrkspc_2', api_key_id: 'apikey_1', model: 'claude-sonnet-4' }]), {
+      wrkspc_2: { name: 'Staging', state: 'archived' },
+      apikey_1: { name: 'ci-runner', state: 'active' },
+    });
+    assert.equal(formatName(resolveName(directory, 'workspace_id', 'wrkspc_2'), 'wrkspc_2'), 'Staging (archived)');
+    assert.equal(formatName(resolveName(directory, 'workspace_id', 'wrkspc_1'), 'wrkspc_1'), 'Production');
+  });
+
+  it('falls back to ids for a list that fails, without marking its ids deleted', async () => {
+    apiKeysStatus = 403;
+    const directory = await refreshDirectory(ADMIN_KEY, options);
+
+    assert.equal(Object.keys(directory.workspaces).length, 3);
+    assert.deepEqual(directory.apiKeys, {});
+    assert.notEqual(directory.fetchedAt.workspaces, null);
+    assert.equal(directory.fetchedAt.apiKeys, null);
+    assert.equal(getDirectoryStatus().error?.kind, 'permission');
+    assert.equal(getDirectoryStatus().fetchedAt, directory.fetchedAt.workspaces);
+
+    // The workspace list loaded, so its names and deleted markers still work
+    assert.deepEqual(resolveName(directory, 'workspace_id', 'wrkspc_3'), { name: 'Research', state: 'active' });
+    assert.deepEqual(resolveName(directory, 'workspace_id', 'wrkspc_gone'), { name: 'wrkspc_gone', state: 'deleted' });
+    assert.equal(resolveName(directory, 'api_key_id', 'apikey_1'), null);
+    assert.equal(formatName(resolveName(directory, 'api_key_id', 'apikey_1'), 'apikey_1'), 'apikey_1');
+    assert.deepEqual(buildNameMap(directory, [{ api_key_id: 'apikey_1' }]), {});
+  });
+
+  it('keeps the cached names when a later refresh fails', async () => {
+    await refreshDirectory(ADMIN_KEY, options);
+    apiKeysStatus = 500;
+    const directory = await refreshDirectory(ADMIN_KEY, options);
+
+    assert.deepEqual(resolveName(directory, 'api_key_id', 'apikey_1'), { name: 'ci-runner', state: 'active' });
+    assert.equal(getDirectoryStatus().error?.kind, 'server');
+  });
+
+  it('backs off a failing list and only refetches that one', async () => {
+    apiKeysStatus = 403;
+    await ensureDirectory(ADMIN_KEY, options);
+    assert.equal(server.requests.length, 3);
+
+    // Within the backoff nothing is fetched again
+    server.requests.length = 0;
+    await ensureDirectory(ADMIN_KEY, options);
+    assert.equal(server.requests.length, 0);
+
+    // After it only the API keys are, and their names show once they load
+    const later = Date.now() + 16 * 60 * 1000;
+    mock.method(Date, 'now', () => later);
+    apiKeysStatus = 200;
+    const directory = await ensureDirectory(ADMIN_KEY, options);
+    assert.deepEqual(server.requests.map(request => request.url.pathname), ['/v1/organizations/api_keys']);
+    assert.deepEqual(resolveName(directory, 'api_key_id', 'apikey_1'), { name: 'ci-runner', state: 'active' });
+    assert.equal(getDirectoryStatus().error, null);
+  });
+
+  it('shares one refresh between concurrent callers and reuses a fresh cache', async () => {
+    const [first, second] = await Promise.all([refreshDirectory(ADMIN_KEY, options), refreshDirectory(ADMIN_KEY, options)]);
+    assert.deepEqual(first, second);
+    // Two workspace pages and one API key page
+    assert.equal(server.requests.length, 3);
+
+    await ensureDirectory(ADMIN_KEY, options);
+    assert.equal(server.requests.length, 3);
+  });
+});
@@ -0,0 +1,88 @@
+import './helpers/memoryStore';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { toEfficiencyMetrics, buildEfficiencyReport } from '../electron/efficiency';
+import type { UsageResult } from '../electron/adminApi';
+
+const EMPTY = {
+  uncachedInputTokens: 0,
+  cacheWrite5mTokens: 0,
+  cacheWrite1hTokens: 0,
+  cacheReadTokens: 0,
+  outputTokens: 0,
+  webSearchRequests: 0,
+};
+
+function result(model: string, workspaceId: string | null, fields: Partial<UsageResult>): UsageResult {
+  return { model, workspace_id: workspaceId, uncached_input_tokens: 0, cache_read_input_tokens: 0, output_tokens: 0, ...fields };
+}
+
+describe('toEfficiencyMetrics', () => {
+  it('computes the cache and input/output ratios', () => {
+    const metrics = toEfficiencyMetrics({
+      ...EMPTY,
+      uncachedInputTokens: 100,
+      cacheWrite5mTokens: 50,
+      cacheWrite1hTokens: 50,
+      cacheReadTokens: 800,
+      outputTokens: 250,
+    });
+    assert.equal(metrics.inputTokens, 1000);
+    assert.equal(metrics.cacheHitRatio, 0.8);
+    assert.equal(metrics.cacheReadWriteRatio, 8);
+    assert.equal(metrics.inputOutputRatio, 4);
+  });
+
+  it('leaves a ratio empty rather than dividing by zero', () => {
+    assert.deepEqual(toEfficiencyMetrics(EMPTY), {
+      ...EMPTY,
+      inputTokens: 0,
+      cacheHitRatio: null,
+      cacheReadWriteRatio: null,
+      inputOutputRatio: null,
+    });
+    assert.equal(toEfficiencyMetrics({ ...EMPTY, uncachedInputTokens: 10 }).cacheHitRatio, 0);
+  });
+});
+
+describe('buildEfficiencyReport', () => {
+  it('totals by day, model and workspace and keeps empty days', () => {
+    const report = buildEfficiencyReport({
+      has_more: false,
+      data: [
+        {
+          starting_at: '2025-10-01T00:00:00Z',
+          ending_at: '2025-10-02T00:00:00Z',
+          results: [
+            result('claude-sonnet-4-5', 'wrk_1', { uncached_input_tokens: 100, cache_read_input_tokens: 300, output_tokens: 50 }),
+            result('claude-haiku-4-5', null, { uncached_input_tokens: 50, output_tokens: 10, server_tool_use: { web_search_requests: 2 } }),
+          ],
+        },
+        { starting_at: '2025-10-02T00:00:00Z', ending_at: '2025-10-03T00:00:00Z', results: [] },
+        {
+          starting_at: '2025-10-03T00:00:00Z',
+          ending_at: '2025-10-04T00:00:00Z',
+          results: [result('claude-haiku-4-5', null, { uncached_input_tokens: 20, cache_creation: { ephemeral_5m_input_tokens: 0, ephemeral_1h_input_tokens: 30 } })],
+        },
+      ],
+    }, '2025-10-01T00:00:00Z', '2025-10-04T00:00:00Z', undefined, new Date('2025-10-04T00:00:00Z'));
+
+    assert.equal(report.totals.inputTokens, 500);
+    assert.equal(report.totals.webSearchRequests, 2);
+    assert.deepEqual(report.daily.map(day => [day.date, day.inputTokens]), [
+      ['2025-10-01', 450],
+      ['2025-10-02', 0],
+      ['2025-10-03', 50],
+    ]);
+    assert.deepEqual(report.byModel.map(group => [group.key, group.totals.inputTokens, group.daily.length]), [
+      ['claude-sonnet-4-5', 400, 3],
+      ['claude-haiku-4-5', 100, 3],
+    ]);
+    assert.deepEqual(report.byWorkspace.map(group => [group.key, group.totals.cacheHitRatio]), [
+      ['wrk_1', 0.75],
+      ['default', 0],
+    ]);
+    assert.deepEqual(report.workspaceNames, {});
+    assert.equal(report.lastUpdated, '2025-10-04T00:00:00.000Z');
+  });
+});
@@ -0,0 +1,126 @@
+import './helpers/memoryStore';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  toCsv,
+  toJson,
+  buildUsageHistoryRows,
+  buildDailyCostRows,
+  buildTokenTotalsRows,
+  defaultExportFileName,
+  USAGE_HISTORY_COLUMNS,
+  ExportRequest,
+} from '../electron/exporter';
+import type { CostReportResponse, UsageReportResponse } from '../electron/adminApi';
+
+describe('toCsv', () => {
+  it('quotes fields with commas, quotes and line breaks', () => {
+    const rows = [
+      { name: 'plain', note: 'Hello, world', count: 1 },
+      { name: 'Team "A"', note: 'line one\nline two', count: 0 },
+      { name: 'carriage', note: 'a\rb', count: null },
+    ];
+    assert.equal(toCsv(['name', 'note', 'count'], rows), [
+      'name,note,count',
+      'plain,"Hello, world",1',
+      '"Team ""A""","line one\nline two",0',
+      'carriage,"a\rb",',
+      '',
+    ].join('\r\n'));
+  });
+
+  it('writes only the header for no rows', () => {
+    assert.equal(toCsv(USAGE_HISTORY_COLUMNS, []), 'timestamp,account_id,account,bar,percentage,credit_balance_usd\r\n');
+  });
+});
+
+describe('export rows', () => {
+  it('writes one usage history row per bar', () => {
+    const rows = buildUsageHistoryRows([
+      {
+        timestamp: '2025-10-29T01:00:00.000Z',
+        bars: [{ label: 'Current session', percentage: 23 }, { label: 'All models', percentage: 41 }],
+        creditBalance: 12.5,
+      },
+    ], accountId => (accountId === 'default' ? 'Personal, main' : accountId));
+
+    assert.equal(toCsv(USAGE_HISTORY_COLUMNS, rows), [
+      'timestamp,account_id,account,bar,percentage,credit_balance_usd',
+      '2025-10-29T01:00:00.000Z,default,"Personal, main",Current session,23,12.5',
+      '2025-10-29T01:00:00.000Z,default,"Personal, main",All models,41,12.5',
+      '',
+    ].join('\r\n'));
+  });
+
+  it('converts cost report cents to dollars and sorts by day', () => {
+    const report: CostReportResponse = {
+      has_more: false,
+      data: [
+        {
+          starting_at: '2025-10-02T00:00:00Z',
+          ending_at: '2025-10-03T00:00:00Z',
+          results: [{ amount: '123.456', currency: 'USD', model: 'claude-sonnet-4-5', cost_type: 'tokens', service_tier: 'batch', workspace_id: 'wrk_1' }],
+        },
+        {
+          starting_at: '2025-10-01T00:00:00Z',
+          ending_at: '2025-10-02T00:00:00Z',
+          results: [{ amount: '50', currency: 'USD', model: null, cost_type: 'web_search', service_tier: null, workspace_id: null, description: 'Web search' }],
+        },
+      ],
+    };
+
+    assert.deepEqual(buildDailyCostRows(report, id => (id ? 'Research' : 'Default')), [
+      { date: '2025-10-01', workspace_id: '', model: '', cost_type: 'web_search', service_tier: '', description: 'Web search', cost_usd: 0.5, workspace_name: 'Default' },
+      { date: '2025-10-02', workspace_id: 'wrk_1', model: 'claude-sonnet-4-5', cost_type: 'tokens', service_tier: 'batch', description: '', cost_usd: 1.235, workspace_name: 'Research' },
+    ]);
+  });
+
+  it('sums tokens per model, largest first', () => {
+    const result = (model: string | null, uncached: number, output: number) => ({
+      model,
+      uncached_input_tokens: uncached,
+      cache_read_input_tokens: 10,
+      output_tokens: output,
+      cache_creation: { ephemeral_5m_input_tokens: 1, ephemeral_1h_input_tokens: 2 },
+    });
+    const report: UsageReportResponse = {
+      has_more: false,
+      data: [
+        { starting_at: '2025-10-01T00:00:00Z', ending_at: '2025-10-02T00:00:00Z', results: [result('claude-haiku-4-5', 100, 50), result(null, 1, 1)] },
+        { starting_at: '2025-10-02T00:00:00Z', ending_at: '2025-10-03T00:00:00Z', results: [result('claude-haiku-4-5', 200, 50)] },
+      ],
+    };
+
+    assert.deepEqual(buildTokenTotalsRows(report), [
+      {
+        model: 'claude-haiku-4-5',
+        uncached_input_tokens: 300,
+        cache_creation_input_tokens: 6,
+        cache_read_input_tokens: 20,
+        output_tokens: 100,
+        total_tokens: 426,
+        web_search_requests: 0,
+      },
+      {
+        model: 'unknown',
+        uncached_input_tokens: 1,
+        cache_creation_input_tokens: 3,
+        cache_read_input_tokens: 10,
+        output_tokens: 1,
+        total_tokens: 15,
+        web_search_requests: 0,
+      },
+    ]);
+  });
+});
+
+describe('toJson', () => {
+  it('wraps the rows with the request and column list', () => {
+    const request: ExportRequest = { dataset: 'usage-history', format: 'json', from: '2025-10-01', to: '2025-10-31' };
+    const parsed = JSON.parse(toJson(request, ['bar'], [{ bar: 'Current session' }]));
+    assert.equal(parsed.dataset, 'usage-history');
+    assert.deepEqual(parsed.columns, ['bar']);
+    assert.deepEqual(parsed.rows, [{ bar: 'Current session' }]);
+    assert.equal(defaultExportFileName(request), 'claude-usage-history-2025-10-01-to-2025-10-31.json');
+  });
+});
@@ -0,0 +1,39 @@
+// electron-store needs a running Electron app, so tests swap in an in-memory store
+// with the get/set/delete/clear calls the app makes. Import this before any module that creates a store.
+import Module from 'module';
+
+class MemoryStore {
+  private data: Record<string, unknown>;
+  private defaults: Record<string, unknown>;
+
+  constructor(options: { defaults?: Record<string, unknown> } = {}) {
+    this.defaults = options.defaults ?? {};
+    this.data = structuredClone(this.defaults);
+  }
+
+  get(key: string, fallback?: unknown): unknown {
+    return key in this.data ? this.data[key] : fallback;
+  }
+
+  set(key: string | Record<string, unknown>, value?: unknown): void {
+    if (typeof key === 'string') {
+      this.data[key] = value;
+    } else {
+      Object.assign(this.data, key);
+    }
+  }
+
+  delete(key: string): void {
+    delete this.data[key];
+  }
+
+  clear(): void {
+    this.data = structuredClone(this.defaults);
+  }
+}
+
+const id = require.resolve('electron-store');
+const stub = new Module(id);
+stub.exports = MemoryStore;
+stub.loaded = true;
+require.cache[id] = stub;
@@ -0,0 +1,63 @@
+// Local HTTP server standing in for the Admin API, claude.ai or a webhook receiver.
+// Every request is recorded so tests can check what the client sent.
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+export interface RecordedRequest {
+  method: string;
+  url: URL;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+export type StubHandler = (request: RecordedRequest, response: http.ServerResponse) => void;
+
+export interface StubServer {
+  baseUrl: string;
+  requests: RecordedRequest[];
+  close(): Promise<void>;
+}
+
+export async function startStubServer(handler: StubHandler): Promise<StubServer> {
+  const requests: RecordedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      const request = {
+        method: req.method || 'GET',
+        url: new URL(req.url || '/', 'http://127.0.0.1'),
+        headers: req.headers,
+        body,
+      };
+      requests.push(request);
+      handler(request, res);
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    requests,
+    // Drops requests a test left hanging, e.g. to trigger a timeout
+    close: () => new Promise<void>(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
+
+export function sendJson(response: http.ServerResponse, status: number, body: unknown, headers: http.OutgoingHttpHeaders = {}): void {
+  response.writeHead(status, { 'content-type': 'application/json', ...headers });
+  response.end(JSON.stringify(body));
+}
+
+// The Admin API's error body
+export function sendError(response: http.ServerResponse, status: number, message: string, headers: http.OutgoingHttpHeaders = {}): void {
+  sendJson(response, status, { type: 'error', error: { type: 'error', message } }, headers);
+}
@@ -0,0 +1,138 @@
+import './helpers/memoryStore';
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  initHistory,
+  recordSnapshot,
+  compactSnapshots,
+  queryHistory,
+  removeAccountHistory,
+  UsageSnapshot,
+} from '../electron/history';
+import type { ClaudeMaxUsage } from '../electron/scraper';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const NOW = Date.parse('2025-10-29T01:00:00.000Z');
+
+function snapshot(timestamp: string, accountId: string = 'default', percentage: number = 10): UsageSnapshot {
+  return { timestamp, accountId, bars: [{ label: 'Current session', percentage }], creditBalance: null };
+}
+
+function usage(time: number, percentage: number): ClaudeMaxUsage {
+  const bar = { used: percentage, limit: 100, percentage, label: 'Current session' };
+  return {
+    standard: bar,
+    advanced: { used: 0, limit: 0, percentage: 0 },
+    bars: [bar],
+    resetDate: null,
+    lastUpdated: new Date(time).toISOString(),
+    isAuthenticated: true,
+  };
+}
+
+describe('compactSnapshots', () => {
+  it('keeps every snapshot of the last 24 hours', () => {
+    const input = [
+      snapshot('2025-10-28T23:00:00.000Z'),
+      snapshot('2025-10-28T23:01:00.000Z'),
+      snapshot('2025-10-28T23:02:00.000Z'),
+    ];
+    assert.deepEqual(compactSnapshots(input, NOW), input);
+  });
+
+  it('keeps the latest snapshot per account in each 15 minute slot for a week', () => {
+    const input = [
+      snapshot('2025-10-27T01:00:00.000Z', 'default', 1),
+      snapshot('2025-10-27T01:05:00.000Z', 'work', 2),
+      snapshot('2025-10-27T01:10:00.000Z', 'default', 3),
+      snapshot('2025-10-27T01:20:00.000Z', 'default', 4),
+    ];
+    assert.deepEqual(compactSnapshots(input, NOW), [input[1], input[2], input[3]]);
+  });
+
+  it('keeps one snapshot per hour for 90 days and drops anything older', () => {
+    const input = [
+      snapshot('2025-07-30T00:00:00.000Z', 'default', 1),
+      snapshot('2025-09-29T01:05:00.000Z', 'default', 2),
+      snapshot('2025-09-29T01:50:00.000Z', 'default', 3),
+      snapshot('2025-09-29T02:05:00.000Z', 'default', 4),
+    ];
+    assert.deepEqual(compactSnapshots(input, NOW), [input[2], input[3]]);
+  });
+});
+
+describe('history file', () => {
+  let dir: string;
+  let file: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'usage-history-'));
+  });
+
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  beforeEach(() => {
+    file = path.join(dir, `history-${Date.now()}-${Math.random()}.jsonl`);
+  });
+
+  it('loads a file in time order and skips a line cut off mid-write', () => {
+    const recent = Date.now() - HOUR;
+    fs.writeFileSync(file, [
+      JSON.stringify(snapshot(new Date(recent + MINUTE).toISOString())),
+      JSON.stringify(snapshot(new Date(recent).toISOString())),
+      '{"timestamp":"2025-',
+    ].join('\n'));
+
+    initHistory(file);
+    assert.deepEqual(queryHistory().map(s => Date.parse(s.timestamp)), [recent, recent + MINUTE]);
+  });
+
+  it('compacts the file when loading it', () => {
+    const old = Date.now() - 2 * DAY;
+    const slot = old - (old % (15 * MINUTE));
+    fs.writeFileSync(file, [slot, slot + MINUTE].map(time => JSON.stringify(snapshot(new Date(time).toISOString()))).join('\n') + '\n');
+
+    initHistory(file);
+    assert.equal(queryHistory().length, 1);
+    assert.equal(fs.readFileSync(file, 'utf8').trim().split('\n').length, 1);
+  });
+
+  it('skips unchanged usage until the heartbeat is due', () => {
+    initHistory(file);
+    const start = Date.now() - HOUR;
+
+    assert.ok(recordSnapshot(usage(start, 20), null));
+    assert.equal(recordSnapshot(usage(start + 5 * MINUTE, 20), null), null);
+    assert.ok(recordSnapshot(usage(start + 6 * MINUTE, 21), null));
+    assert.ok(recordSnapshot(usage(start + 17 * MINUTE, 21), null));
+    // Another account's readings are compared with its own
+    assert.ok(recordSnapshot(usage(start + 18 * MINUTE, 21), null, 'work'));
+
+    assert.equal(queryHistory().length, 4);
+    assert.equal(fs.readFileSync(file, 'utf8').trim().split('\n').length, 4);
+  });
+
+  it('does not record a logged-out reading', () => {
+    initHistory(file);
+    assert.equal(recordSnapshot({ ...usage(Date.now(), 0), isAuthenticated: false }, null), null);
+    assert.deepEqual(queryHistory(), []);
+  });
+
+  it('forgets a removed account', () => {
+    initHistory(file);
+    const start = Date.now() - HOUR;
+    recordSnapshot(usage(start, 20), null, 'personal');
+    recordSnapshot(usage(start, 30), null, 'work');
+
+    removeAccountHistory('work');
+    assert.deepEqual(queryHistory().map(s => s.accountId), ['personal']);
+    initHistory(file);
+    assert.deepEqual(queryHistory().map(s => s.accountId), ['personal']);
+  });
+});
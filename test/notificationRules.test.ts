@@ -0,0 +1,98 @@
+import './helpers/memoryStore';
+import { describe, it, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import Store from 'electron-store';
+import {
+  evaluateBar,
+  getRuleForBar,
+  isQuietTime,
+  getBarState,
+  setBarState,
+  DEFAULT_NOTIFICATION_RULES,
+} from '../electron/notificationRules';
+
+const [SESSION, EXTRA] = DEFAULT_NOTIFICATION_RULES;
+
+describe('evaluateBar', () => {
+  it('remembers the first reading without announcing it', () => {
+    assert.deepEqual(evaluateBar(SESSION, undefined, 60), { events: [], state: { level: 50, lastPercentage: 60 } });
+  });
+
+  it('fires only the highest newly crossed level', () => {
+    assert.deepEqual(evaluateBar(SESSION, { level: 0, lastPercentage: 40 }, 96), {
+      events: [{ kind: 'level', percentage: 96, previous: 40, level: 95 }],
+      state: { level: 95, lastPercentage: 96 },
+    });
+  });
+
+  it('does not repeat a level or treat a small dip as a reset', () => {
+    assert.deepEqual(evaluateBar(SESSION, { level: 80, lastPercentage: 85 }, 90).events, []);
+    assert.deepEqual(evaluateBar(SESSION, { level: 80, lastPercentage: 85 }, 80), {
+      events: [],
+      state: { level: 80, lastPercentage: 80 },
+    });
+  });
+
+  it('announces a reset and re-arms the levels above the new percentage', () => {
+    assert.deepEqual(evaluateBar(SESSION, { level: 95, lastPercentage: 97 }, 3), {
+      events: [{ kind: 'reset', percentage: 3, previous: 97 }],
+      state: { level: 0, lastPercentage: 3 },
+    });
+    assert.deepEqual(evaluateBar(SESSION, { level: 95, lastPercentage: 97 }, 60).state, { level: 50, lastPercentage: 60 });
+
+    // Nothing was announced in the window, so there's nothing to say about its end
+    assert.deepEqual(evaluateBar(SESSION, { level: 0, lastPercentage: 30 }, 0).events, []);
+  });
+
+  it('announces every increase when asked', () => {
+    assert.deepEqual(evaluateBar(EXTRA, { level: 0, lastPercentage: 5 }, 7).events, [
+      { kind: 'increase', percentage: 7, previous: 5 },
+    ]);
+    assert.deepEqual(evaluateBar(EXTRA, { level: 0, lastPercentage: 7 }, 7).events, []);
+    assert.deepEqual(evaluateBar(EXTRA, undefined, 7).events, []);
+  });
+
+  it('uses the global threshold for bars without a rule', () => {
+    const rule = getRuleForBar(DEFAULT_NOTIFICATION_RULES, 'All models', 90);
+    assert.deepEqual(rule.levels, [90]);
+    assert.deepEqual(evaluateBar(rule, { level: 0, lastPercentage: 85 }, 91).events, [
+      { kind: 'level', percentage: 91, previous: 85, level: 90 },
+    ]);
+    assert.deepEqual(getRuleForBar(DEFAULT_NOTIFICATION_RULES, 'current SESSION', 90), SESSION);
+    assert.deepEqual(getRuleForBar(DEFAULT_NOTIFICATION_RULES, 'All models', 0).levels, []);
+  });
+});
+
+describe('isQuietTime', () => {
+  const at = (time: string) => new Date(`2025-10-29T${time}:00`);
+
+  it('handles quiet hours that span midnight', () => {
+    const quietHours = { enabled: true, start: '22:00', end: '08:00' };
+    assert.equal(isQuietTime(quietHours, at('23:30')), true);
+    assert.equal(isQuietTime(quietHours, at('07:59')), true);
+    assert.equal(isQuietTime(quietHours, at('08:00')), false);
+    assert.equal(isQuietTime({ ...quietHours, enabled: false }, at('23:30')), false);
+  });
+
+  it('handles quiet hours within a day', () => {
+    const quietHours = { enabled: true, start: '12:00', end: '13:00' };
+    assert.equal(isQuietTime(quietHours, at('12:30')), true);
+    assert.equal(isQuietTime(quietHours, at('13:30')), false);
+  });
+});
+
+describe('setBarState', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('only writes the store when the state changes', () => {
+    const set = mock.method(Store.prototype, 'set');
+
+    setBarState('account-1:Current session', { level: 50, lastPercentage: 60 });
+    setBarState('account-1:Current session', { level: 50, lastPercentage: 60 });
+    assert.equal(set.mock.callCount(), 1);
+
+    setBarState('account-1:Current session', { level: 50, lastPercentage: 61 });
+    assert.equal(set.mock.callCount(), 2);
+    assert.deepEqual(getBarState('account-1:Current session'), { level: 50, lastPercentage: 61 });
+  });
+});
@@ -0,0 +1,135 @@
+import './helpers/memoryStore';
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  findModelPrice,
+  priceUsageResult,
+  getPriceVersion,
+  getPriceTable,
+  savePriceTableVersion,
+  deletePriceTableVersion,
+  resetPriceTable,
+  estimateCost,
+  DEFAULT_PRICE_TABLE,
+  PriceTableVersion,
+} from '../electron/pricing';
+import type { UsageResult, CostReportResponse } from '../electron/adminApi';
+
+const MILLION = 1_000_000;
+
+function usage(model: string | null, fields: Partial<UsageResult> = {}): UsageResult {
+  return { model, uncached_input_tokens: 0, cache_read_input_tokens: 0, output_tokens: 0, ...fields };
+}
+
+describe('findModelPrice', () => {
+  it('uses the longest matching prefix', () => {
+    assert.equal(findModelPrice(DEFAULT_PRICE_TABLE, 'claude-opus-4-5-20251101')?.model, 'claude-opus-4-5');
+    assert.equal(findModelPrice(DEFAULT_PRICE_TABLE, 'claude-opus-4-1-20250805')?.model, 'claude-opus-4');
+    assert.equal(findModelPrice(DEFAULT_PRICE_TABLE, 'Claude-Haiku-4-5')?.model, 'claude-haiku-4-5');
+    // claude-3-5-haiku must not fall back to the cheaper claude-3-haiku
+    assert.equal(findModelPrice(DEFAULT_PRICE_TABLE, 'claude-3-5-haiku-20241022')?.model, 'claude-3-5-haiku');
+  });
+
+  it('finds nothing for a model missing from the table', () => {
+    assert.equal(findModelPrice(DEFAULT_PRICE_TABLE, 'claude-2.1'), null);
+    assert.equal(priceUsageResult(usage('claude-2.1', { output_tokens: 10 }), DEFAULT_PRICE_TABLE), null);
+    assert.equal(priceUsageResult(usage(null, { output_tokens: 10 }), DEFAULT_PRICE_TABLE), null);
+  });
+});
+
+describe('priceUsageResult', () => {
+  it('prices every token kind per million', () => {
+    const cost = priceUsageResult(usage('claude-sonnet-4-5-20250929', {
+      uncached_input_tokens: MILLION,
+      output_tokens: MILLION,
+      cache_read_input_tokens: MILLION,
+      cache_creation: { ephemeral_5m_input_tokens: MILLION, ephemeral_1h_input_tokens: MILLION },
+    }), DEFAULT_PRICE_TABLE);
+    assert.equal(cost, 3 + 15 + 0.3 + 3.75 + 6);
+  });
+
+  it('discounts batch tokens but not web searches', () => {
+    const result = usage('claude-sonnet-4', {
+      uncached_input_tokens: MILLION,
+      output_tokens: MILLION,
+      server_tool_use: { web_search_requests: 100 },
+    });
+    assert.equal(priceUsageResult(result, DEFAULT_PRICE_TABLE), 19);
+    assert.equal(priceUsageResult({ ...result, service_tier: 'batch' }, DEFAULT_PRICE_TABLE), 10);
+    assert.equal(priceUsageResult({ ...result, service_tier: 'batch' }, { ...DEFAULT_PRICE_TABLE, batchDiscount: 0 }), 19);
+  });
+});
+
+describe('price table versions', () => {
+  const later: PriceTableVersion = { ...DEFAULT_PRICE_TABLE, version: 2, effectiveFrom: '2025-10-15', batchDiscount: 0.25 };
+
+  beforeEach(() => {
+    resetPriceTable();
+  });
+
+  it('picks the version in effect on a day', () => {
+    const versions = [DEFAULT_PRICE_TABLE, later];
+    assert.equal(getPriceVersion(versions, '2025-10-14').version, 1);
+    assert.equal(getPriceVersion(versions, '2025-10-15').version, 2);
+    assert.equal(getPriceVersion([later], '2025-01-01').version, 2);
+  });
+
+  it('adds a new version on save and keeps the old ones', () => {
+    const { version: _version, ...table } = later;
+    const versions = savePriceTableVersion({ ...table, batchDiscount: 2, models: [...table.models, { ...table.models[0], model: '  ' }] });
+    assert.deepEqual(versions.map(v => v.version), [1, 2]);
+    assert.equal(versions[1].batchDiscount, 1);
+    assert.equal(versions[1].models.length, DEFAULT_PRICE_TABLE.models.length);
+
+    assert.throws(() => savePriceTableVersion({ ...table, effectiveFrom: '15/10/2025' }), /YYYY-MM-DD/);
+    assert.throws(() => savePriceTableVersion({ ...table, models: [{ ...table.models[0], input: -1 }] }), /zero or more/);
+  });
+
+  it('keeps the last version', () => {
+    assert.deepEqual(deletePriceTableVersion(1).map(v => v.version), [1]);
+    assert.deepEqual(getPriceTable(), [DEFAULT_PRICE_TABLE]);
+  });
+});
+
+describe('estimateCost', () => {
+  it('prices each day with its version and compares with the cost report', () => {
+    const later: PriceTableVersion = { ...DEFAULT_PRICE_TABLE, version: 2, effectiveFrom: '2025-10-02', batchDiscount: 0 };
+    const costReport: CostReportResponse = {
+      has_more: false,
+      data: [{
+        starting_at: '2025-10-01T00:00:00Z',
+        ending_at: '2025-10-02T00:00:00Z',
+        results: [{ amount: '2000', currency: 'USD', model: 'claude-haiku-4-5', cost_type: 'tokens', service_tier: null, workspace_id: null }],
+      }],
+    };
+
+    const estimate = estimateCost({
+      has_more: false,
+      data: [
+        {
+          starting_at: '2025-10-01T00:00:00Z',
+          ending_at: '2025-10-02T00:00:00Z',
+          results: [
+            usage('claude-haiku-4-5', { output_tokens: MILLION, service_tier: 'batch', workspace_id: 'wrk_1' }),
+            usage('claude-2.1', { output_tokens: 5 }),
+          ],
+        },
+        {
+          starting_at: '2025-10-02T00:00:00Z',
+          ending_at: '2025-10-03T00:00:00Z',
+          results: [usage('claude-haiku-4-5', { output_tokens: MILLION, service_tier: 'batch', workspace_id: 'wrk_1' })],
+        },
+      ],
+    }, costReport, ['workspace_id'], [DEFAULT_PRICE_TABLE, later], { startingAt: '2025-10-01T00:00:00Z', endingAt: '2025-10-03T00:00:00Z' });
+
+    assert.deepEqual(estimate.rows.map(row => [row.group, row.cost, row.unpricedTokens]), [
+      [{ workspace_id: 'wrk_1' }, 7.5, 0],
+      [{ workspace_id: 'default' }, 0, 5],
+    ]);
+    assert.equal(estimate.estimatedTotal, 7.5);
+    assert.equal(estimate.actualTotal, 20);
+    assert.equal(estimate.difference, -12.5);
+    assert.deepEqual(estimate.unpricedModels, ['claude-2.1']);
+    assert.deepEqual(estimate.priceVersions, [1, 2]);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { projectBar } from '../electron/projection';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const NOW = Date.parse('2025-10-29T01:00:00.000Z');
+
+// Points every 10 minutes leading up to now
+const before = (...values: number[]) =>
+  values.map((value, i) => ({ time: NOW - (values.length - i) * 10 * MINUTE, value }));
+
+describe('projectBar', () => {
+  it('projects a steady pace to the limit', () => {
+    // 10 points per hour from 40% at now
+    const projection = projectBar(before(35, 36.7, 38.3), { time: NOW, value: 40 }, NOW + 10 * HOUR);
+    assert.ok(projection);
+    assert.ok(Math.abs(projection.burnRatePerHour - 10) < 0.1);
+    assert.ok(Math.abs(Date.parse(projection.exhaustsAt!) - (NOW + 6 * HOUR)) < 5 * MINUTE);
+    assert.equal(projection.exhaustsBeforeReset, true);
+    assert.equal(projection.projectedAtReset, 100);
+    assert.ok(projection.marginMs! > 3.9 * HOUR);
+  });
+
+  it('only fits the points after the last reset', () => {
+    // The drop from 90% to 2% is a new window; the pace is that of 2 -> 4 -> 6
+    const projection = projectBar(before(80, 90, 2, 4), { time: NOW, value: 6 }, NOW + HOUR);
+    assert.ok(projection);
+    assert.ok(Math.abs(projection.burnRatePerHour - 12) < 1e-9);
+    assert.equal(projection.exhaustsBeforeReset, false);
+    assert.ok(Math.abs(projection.projectedAtReset! - 18) < 1e-9);
+  });
+
+  it('needs at least five minutes of points in the last hour', () => {
+    assert.equal(projectBar([], { time: NOW, value: 10 }, null), null);
+    assert.equal(projectBar([{ time: NOW - 2 * MINUTE, value: 5 }], { time: NOW, value: 10 }, null), null);
+    assert.equal(projectBar([{ time: NOW - 2 * HOUR, value: 5 }], { time: NOW, value: 10 }, null), null);
+  });
+
+  it('never projects a falling or flat bar to the limit', () => {
+    const projection = projectBar(before(30, 30), { time: NOW, value: 30 }, null);
+    assert.ok(projection);
+    assert.equal(projection.burnRatePerHour, 0);
+    assert.equal(projection.exhaustsAt, null);
+    assert.equal(projection.exhaustsBeforeReset, false);
+    assert.equal(projection.projectedAtReset, null);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseResetTime } from '../electron/resetParser';
+
+// Absolute reset times are resolved in local time, so the expectations need a fixed zone
+process.env.TZ = 'Asia/Seoul';
+
+// Wednesday morning in Seoul
+const SCRAPED_AT = new Date('2025-10-29T10:00:00+09:00');
+
+const CASES: Array<{ group: string; text: string; expected: string }> = [
+  { group: 'English relative', text: 'Resets in 4 hr 18 min', expected: '2025-10-29T14:18:00+09:00' },
+  { group: 'English relative', text: 'Resets in 45 min', expected: '2025-10-29T10:45:00+09:00' },
+  { group: 'English relative', text: 'Resets in 3 days', expected: '2025-11-01T10:00:00+09:00' },
+  { group: 'English relative', text: 'Resets in 1 day 2 hours', expected: '2025-10-30T12:00:00+09:00' },
+  { group: 'Korean relative', text: '4시간 18분 후 재설정', expected: '2025-10-29T14:18:00+09:00' },
+  { group: 'Korean relative', text: '30분 후 재설정', expected: '2025-10-29T10:30:00+09:00' },
+  { group: 'Korean relative', text: '2일 후 재설정', expected: '2025-10-31T10:00:00+09:00' },
+  { group: 'English weekday', text: 'Resets Sat 4:00 PM', expected: '2025-11-01T16:00:00+09:00' },
+  { group: 'English weekday', text: 'Resets Saturday 4 PM', expected: '2025-11-01T16:00:00+09:00' },
+  { group: 'English weekday', text: 'Resets Wed 11:00 AM', expected: '2025-10-29T11:00:00+09:00' },
+  { group: 'English weekday', text: 'Resets Wed 9:00 AM', expected: '2025-11-05T09:00:00+09:00' },
+  { group: 'English weekday', text: 'Resets Thurs 4:00 PM', expected: '2025-10-30T16:00:00+09:00' },
+  { group: 'Korean weekday', text: '(토) 오후 4:00에 재설정', expected: '2025-11-01T16:00:00+09:00' },
+  { group: 'Korean weekday', text: '토요일 오후 4시에 재설정', expected: '2025-11-01T16:00:00+09:00' },
+  { group: 'Korean weekday', text: '(수) 오전 9시 30분에 재설정', expected: '2025-11-05T09:30:00+09:00' },
+  { group: 'English month-day', text: 'Resets Nov 1', expected: '2025-11-01T00:00:00+09:00' },
+  { group: 'English month-day', text: 'Resets November 1 at 4:00 PM', expected: '2025-11-01T16:00:00+09:00' },
+  { group: 'English month-day', text: 'Resets Oct 29', expected: '2025-10-29T00:00:00+09:00' },
+  { group: 'English month-day', text: 'Resets Jan 1', expected: '2026-01-01T00:00:00+09:00' },
+  { group: 'English month-day', text: 'Resets Sept. 1', expected: '2026-09-01T00:00:00+09:00' },
+  { group: 'Korean month-day', text: '11월 1일에 재설정', expected: '2025-11-01T00:00:00+09:00' },
+  { group: 'Korean month-day', text: '1월 1일 오전 9:00에 재설정', expected: '2026-01-01T09:00:00+09:00' },
+  { group: 'English time', text: 'Resets 4:00 PM', expected: '2025-10-29T16:00:00+09:00' },
+  { group: 'English time', text: 'Resets 9:00 AM', expected: '2025-10-30T09:00:00+09:00' },
+  { group: 'English time', text: 'Resets 16:30', expected: '2025-10-29T16:30:00+09:00' },
+  { group: 'Korean time', text: '오후 4:00에 재설정', expected: '2025-10-29T16:00:00+09:00' },
+  { group: 'Korean time', text: '오전 9시에 재설정', expected: '2025-10-30T09:00:00+09:00' },
+];
+
+describe('parseResetTime', () => {
+  for (const { group, text, expected } of CASES) {
+    it(`${group}: ${text}`, () => {
+      const result = parseResetTime(text, SCRAPED_AT);
+      assert.equal(result.error, undefined);
+      assert.equal(result.resetsAt, new Date(expected).toISOString());
+    });
+  }
+
+  it('reports empty text', () => {
+    assert.deepEqual(parseResetTime('  ', SCRAPED_AT), { resetsAt: null, error: 'empty reset text' });
+  });
+
+  it('does not mistake other words for weekdays or months', () => {
+    // "Satisfy" and "Monitor" start like Sat and Mon, "mayday" like May
+    assert.equal(parseResetTime('Satisfy by 4:00 PM', SCRAPED_AT).resetsAt, new Date('2025-10-29T16:00:00+09:00').toISOString());
+    assert.equal(parseResetTime('Monitor resets 9:00 AM', SCRAPED_AT).resetsAt, new Date('2025-10-30T09:00:00+09:00').toISOString());
+    for (const text of ['Resets next month', 'Resets mayday 5', 'Resets in a decade 3', 'Thus resets wedge']) {
+      assert.deepEqual(parseResetTime(text, SCRAPED_AT), { resetsAt: null, error: `unrecognized reset text "${text}"` });
+    }
+  });
+
+  it('reports text it cannot read', () => {
+    assert.deepEqual(parseResetTime('Resets soon', SCRAPED_AT), {
+      resetsAt: null,
+      error: 'unrecognized reset text "Resets soon"',
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import net from 'net';
+import { startStatusServer, stopStatusServer, formatMetrics, StatusState } from '../electron/statusServer';
+import type { HistoryQuery } from '../electron/history';
+
+const TOKEN = 'test-token-0123456789abcdef';
+
+const STATE: StatusState = {
+  accounts: [
+    {
+      accountId: 'default',
+      nickname: 'Work "main"',
+      usage: {
+        standard: { used: 23, limit: 100, percentage: 23 },
+        advanced: { used: 41, limit: 100, percentage: 41 },
+        bars: [
+          { used: 23, limit: 100, percentage: 23, label: 'Current session', resetsAt: '2025-10-29T05:18:00.000Z' },
+          { used: 41, limit: 100, percentage: 41, label: 'All models' },
+        ],
+        resetDate: null,
+        lastUpdated: '2025-10-29T01:00:00.000Z',
+        isAuthenticated: true,
+      },
+    },
+    { accountId: 'old', nickname: 'Old', usage: null },
+  ],
+  billingInfo: { creditBalance: 12.5, currency: 'USD', lastUpdated: '2025-10-29T01:00:00.000Z' },
+  lastRefresh: '2025-10-29T01:00:00.000Z',
+};
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = net.createServer();
+    probe.once('error', reject);
+    probe.listen(0, '127.0.0.1', () => {
+      const { port } = probe.address() as net.AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+interface Reply {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('status server', () => {
+  let port: number;
+  const queries: HistoryQuery[] = [];
+
+  // fetch won't let us forge the Host header, so use http directly
+  const request = (pathname: string, headers: http.OutgoingHttpHeaders = {}, method: string = 'GET'): Promise<Reply> =>
+    new Promise((resolve, reject) => {
+      const req = http.request({ host: '127.0.0.1', port, path: pathname, method, headers }, res => {
+        let body = '';
+        res.setEncoding('utf8');
+        res.on('data', chunk => { body += chunk; });
+        res.on('end', () => resolve({ status: res.statusCode || 0, headers: res.headers, body }));
+      });
+      req.on('error', reject);
+      req.end();
+    });
+
+  const authorized = (pathname: string) => request(pathname, { authorization: `Bearer ${TOKEN}` });
+
+  before(async () => {
+    port = await freePort();
+    await startStatusServer({
+      port,
+      token: TOKEN,
+      getState: () => STATE,
+      queryHistory: query => {
+        queries.push(query);
+        return [];
+      },
+    });
+  });
+
+  after(() => stopStatusServer());
+
+  it('answers the health check without a token', async () => {
+    const reply = await request('/health');
+    assert.equal(reply.status, 200);
+    assert.equal(JSON.parse(reply.body).lastRefresh, STATE.lastRefresh);
+  });
+
+  it('rejects a missing or wrong bearer token', async () => {
+    for (const authorization of [undefined, 'Bearer wrong', `Bearer ${TOKEN}x`, `Basic ${TOKEN}`]) {
+      const reply = await request('/usage', authorization ? { authorization } : {});
+      assert.equal(reply.status, 401, String(authorization));
+      assert.equal(reply.headers['www-authenticate'], 'Bearer');
+    }
+  });
+
+  it('serves usage with the right token', async () => {
+    const reply = await authorized('/usage');
+    assert.equal(reply.status, 200);
+    assert.deepEqual(JSON.parse(reply.body), { lastRefresh: STATE.lastRefresh, accounts: STATE.accounts });
+
+    assert.equal((await request('/usage', { authorization: `bearer  ${TOKEN}` })).status, 200);
+  });
+
+  it('rejects other host names, even with the token', async () => {
+    const reply = await request('/usage', { host: 'attacker.example:' + port, authorization: `Bearer ${TOKEN}` });
+    assert.equal(reply.status, 403);
+    assert.equal((await request('/health', { host: 'attacker.example' })).status, 403);
+    assert.equal((await request('/health', { host: `localhost:${port}` })).status, 200);
+  });
+
+  it('only answers GET', async () => {
+    assert.equal((await request('/usage', { authorization: `Bearer ${TOKEN}` }, 'POST')).status, 405);
+  });
+
+  it('passes history filters through', async () => {
+    queries.length = 0;
+    const reply = await authorized('/history?label=Current%20session&limit=5&accountId=default');
+    assert.equal(reply.status, 200);
+    assert.deepEqual(queries, [{ from: undefined, to: undefined, label: 'Current session', accountId: 'default', limit: 5 }]);
+  });
+
+  it('lists the endpoints for an unknown path', async () => {
+    const reply = await authorized('/nope');
+    assert.equal(reply.status, 404);
+    assert.ok(JSON.parse(reply.body).endpoints.includes('/metrics'));
+  });
+});
+
+describe('formatMetrics', () => {
+  it('writes one gauge family per metric with escaped labels', () => {
+    assert.equal(formatMetrics(STATE), [
+      '# HELP claude_usage_percent Usage of each limit in percent',
+      '# TYPE claude_usage_percent gauge',
+      'claude_usage_percent{account="Work \\"main\\"",bar="Current session"} 23',
+      'claude_usage_percent{account="Work \\"main\\"",bar="All models"} 41',
+      '# HELP claude_usage_resets_at_seconds When each limit resets, as a Unix timestamp',
+      '# TYPE claude_usage_resets_at_seconds gauge',
+      'claude_usage_resets_at_seconds{account="Work \\"main\\"",bar="Current session"} 1761715080',
+      '# HELP claude_usage_authenticated Whether the account is logged in (1) or not (0)',
+      '# TYPE claude_usage_authenticated gauge',
+      'claude_usage_authenticated{account="Work \\"main\\""} 1',
+      'claude_usage_authenticated{account="Old"} 0',
+      '# HELP claude_credit_balance_usd Platform API credit balance in USD',
+      '# TYPE claude_credit_balance_usd gauge',
+      'claude_credit_balance_usd 12.5',
+      '# HELP claude_usage_last_refresh_seconds Time of the last refresh, as a Unix timestamp',
+      '# TYPE claude_usage_last_refresh_seconds gauge',
+      'claude_usage_last_refresh_seconds 1761699600',
+      '',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  renderTrayIcon,
+  getUsageColor,
+  rgbaToBgra,
+  pickTrayPercentage,
+  buildTrayTooltip,
+  TrayIconOptions,
+  TrayIconImage,
+  TrayAccountUsage,
+} from '../electron/trayIcon';
+import type { ClaudeMaxUsage, UsageBar } from '../electron/scraper';
+
+const SIZE = 32;
+const OK = [34, 197, 94];
+const WARNING = [245, 158, 11];
+const CRITICAL = [239, 68, 68];
+const INACTIVE = [128, 128, 128];
+// The unfilled part of a gauge is drawn at 30% opacity
+const TRACK_ALPHA = Math.round(0.3 * 255);
+
+const RING: TrayIconOptions = { style: 'ring', showPercentage: false, warningAt: 70, criticalAt: 90 };
+const BAR: TrayIconOptions = { ...RING, style: 'bar' };
+
+function pixel(image: TrayIconImage, x: number, y: number): number[] {
+  const i = (y * image.width + x) * 4;
+  return [...image.rgba.subarray(i, i + 4)];
+}
+
+function opaquePixels(image: TrayIconImage, fromRow: number, toRow: number): number {
+  let count = 0;
+  for (let y = fromRow; y < toRow; y++) {
+    for (let x = 0; x < image.width; x++) {
+      if (pixel(image, x, y)[3] === 255) count++;
+    }
+  }
+  return count;
+}
+
+function usage(bars: Array<Pick<UsageBar, 'label' | 'percentage' | 'resetsAt'>>, isAuthenticated: boolean = true): ClaudeMaxUsage {
+  const full = bars.map(bar => ({ used: bar.percentage, limit: 100, ...bar }));
+  return {
+    standard: full[0] || { used: 0, limit: 0, percentage: 0 },
+    advanced: full[1] || { used: 0, limit: 0, percentage: 0 },
+    bars: full,
+    resetDate: null,
+    lastUpdated: '2025-10-29T01:00:00.000Z',
+    isAuthenticated,
+  };
+}
+
+describe('renderTrayIcon', () => {
+  it('draws a 32x32 RGBA image at 2x', () => {
+    const image = renderTrayIcon(50, RING);
+    assert.equal(image.width, SIZE);
+    assert.equal(image.height, SIZE);
+    assert.equal(image.scaleFactor, 2);
+    assert.equal(image.rgba.length, SIZE * SIZE * 4);
+  });
+
+  it('colours the gauge by threshold', () => {
+    assert.deepEqual(getUsageColor(69, RING), OK);
+    assert.deepEqual(getUsageColor(70, RING), WARNING);
+    assert.deepEqual(getUsageColor(90, RING), CRITICAL);
+    assert.deepEqual(getUsageColor(null, RING), INACTIVE);
+
+    // The middle of a full bar is solid
+    assert.deepEqual(pixel(renderTrayIcon(30, { ...BAR, warningAt: 101, criticalAt: 101 }), 4, 16), [...OK, 255]);
+    assert.deepEqual(pixel(renderTrayIcon(75, BAR), 4, 16), [...WARNING, 255]);
+    assert.deepEqual(pixel(renderTrayIcon(100, BAR), 16, 16), [...CRITICAL, 255]);
+  });
+
+  it('draws an empty grey gauge for the unknown state', () => {
+    for (const options of [RING, BAR, { ...BAR, showPercentage: true }]) {
+      const image = renderTrayIcon(null, options);
+      assert.equal(opaquePixels(image, 0, SIZE), 0);
+    }
+    assert.deepEqual(pixel(renderTrayIcon(null, BAR), 16, 16), [...INACTIVE, TRACK_ALPHA]);
+  });
+
+  it('fills the bar from the left', () => {
+    const image = renderTrayIcon(50, BAR);
+    assert.deepEqual(pixel(image, 8, 16), [...OK, 255]);
+    assert.deepEqual(pixel(image, 24, 16), [...OK, TRACK_ALPHA]);
+    // Nothing above or below the bar
+    assert.deepEqual(pixel(image, 16, 2), [0, 0, 0, 0]);
+    assert.deepEqual(pixel(image, 16, 28), [0, 0, 0, 0]);
+  });
+
+  it('fills the ring clockwise from 12 o\'clock', () => {
+    const image = renderTrayIcon(50, RING);
+    // 3 o'clock is within the first half, 9 o'clock isn't, the centre is empty
+    assert.deepEqual(pixel(image, 28, 16), [...OK, 255]);
+    assert.deepEqual(pixel(image, 3, 16), [...OK, TRACK_ALPHA]);
+    assert.deepEqual(pixel(image, 16, 16), [0, 0, 0, 0]);
+  });
+
+  it('adds the percentage only when asked', () => {
+    // Digits go above the bar and inside the ring
+    assert.equal(opaquePixels(renderTrayIcon(0, BAR), 0, 10), 0);
+    assert.ok(opaquePixels(renderTrayIcon(0, { ...BAR, showPercentage: true }), 0, 19) > 0);
+    assert.equal(opaquePixels(renderTrayIcon(0, RING), 10, 22), 0);
+    assert.ok(opaquePixels(renderTrayIcon(0, { ...RING, showPercentage: true }), 10, 22) > 0);
+  });
+});
+
+describe('rgbaToBgra', () => {
+  it('swaps red and blue in every pixel without touching the input', () => {
+    const rgba = Buffer.from([1, 2, 3, 4, 5, 6, 7, 8]);
+    assert.deepEqual([...rgbaToBgra(rgba)], [3, 2, 1, 4, 7, 6, 5, 8]);
+    assert.deepEqual([...rgba], [1, 2, 3, 4, 5, 6, 7, 8]);
+  });
+});
+
+describe('pickTrayPercentage', () => {
+  const accounts: TrayAccountUsage[] = [
+    { nickname: 'Personal', usage: usage([{ label: 'Current session', percentage: 20 }, { label: 'All models', percentage: 65 }]) },
+    { nickname: 'Work', usage: usage([{ label: 'Current session', percentage: 48 }, { label: 'All models', percentage: 30 }]) },
+    { nickname: 'Old', usage: usage([{ label: 'Current session', percentage: 99 }], false) },
+  ];
+
+  it('takes the furthest-along bar of the furthest-along account', () => {
+    assert.equal(pickTrayPercentage(accounts, 'highest'), 65);
+    assert.equal(pickTrayPercentage(accounts, 'current session'), 48);
+  });
+
+  it('is zero when no logged-in account has the bar and null when nobody is logged in', () => {
+    assert.equal(pickTrayPercentage(accounts, 'Sonnet only'), 0);
+    assert.equal(pickTrayPercentage([accounts[2], { nickname: 'New', usage: null }], 'highest'), null);
+  });
+});
+
+describe('buildTrayTooltip', () => {
+  it('lists the worst account first and logged-out accounts last', () => {
+    const tooltip = buildTrayTooltip([
+      { nickname: 'Personal', usage: usage([{ label: 'Current session', percentage: 20 }]) },
+      { nickname: 'Logged out', usage: null },
+      { nickname: 'Work', usage: usage([{ label: 'Current session', percentage: 12 }, { label: 'All models', percentage: 81.6 }]) },
+    ]);
+
+    assert.equal(tooltip, [
+      'Claude Usage Tool',
+      'Work',
+      '  Current session: 12%',
+      '  All models: 82%',
+      'Personal',
+      '  Current session: 20%',
+      'Logged out',
+      '  Not logged in',
+    ].join('\n'));
+  });
+
+  it('adds reset times without account headings for a single account', () => {
+    const now = new Date('2025-10-29T01:00:00.000Z');
+    const lines = buildTrayTooltip([
+      { nickname: 'Personal', usage: usage([{ label: 'Current session', percentage: 20, resetsAt: '2025-10-29T03:00:00.000Z' }]) },
+    ], now).split('\n');
+
+    assert.equal(lines.length, 2);
+    assert.match(lines[1], /^Current session: 20% \(resets .+\)$/);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { startStubServer, sendJson, StubServer } from './helpers/stubServer';
+import { fetchUsageFromApi, UsageApiOptions } from '../electron/usageApi';
+
+const ORGS = [
+  { uuid: 'org-personal', name: 'Personal', capabilities: ['chat', 'claude_pro'] },
+  { uuid: 'org-max', name: 'Max', capabilities: ['chat', 'claude_max'] },
+];
+
+const USAGE = {
+  five_hour: { utilization: 23.4, resets_at: '2025-10-29T05:18:00+00:00' },
+  seven_day: { utilization: 41, resets_at: '2025-11-01T07:00:00+00:00' },
+  seven_day_sonnet: { utilization: 12, resets_at: '2025-11-01T07:00:00+00:00' },
+  seven_day_opus: null,
+  extra_usage: { utilization: null, resets_at: null },
+};
+
+describe('fetchUsageFromApi', () => {
+  let server: StubServer;
+  // Status per path; anything not listed answers normally
+  let statuses: Record<string, number> = {};
+  let orgs: unknown[] = ORGS;
+  let usageBody: unknown = USAGE;
+
+  before(async () => {
+    server = await startStubServer((request, response) => {
+      const path = request.url.pathname;
+      if (statuses[path]) {
+        sendJson(response, statuses[path], { type: 'error', error: { type: 'error', message: 'Nope' } });
+      } else if (path === '/api/organizations') {
+        sendJson(response, 200, orgs);
+      } else if (path === '/api/account') {
+        sendJson(response, 200, { email_address: 'max.user@example.com' });
+      } else {
+        sendJson(response, 200, usageBody);
+      }
+    });
+  });
+
+  after(() => server.close());
+
+  beforeEach(() => {
+    server.requests.length = 0;
+    statuses = {};
+    orgs = ORGS;
+    usageBody = USAGE;
+  });
+
+  const options = (orgId?: string): UsageApiOptions => ({ fetch: (url, init) => fetch(url, init), baseUrl: server.baseUrl, orgId });
+
+  it('reads the usage windows of the last used organization', async () => {
+    const usage = await fetchUsageFromApi(options('org-max'));
+
+    assert.ok(server.requests.some(request => request.url.pathname === '/api/organizations/org-max/usage'));
+    assert.equal(usage.isAuthenticated, true);
+    assert.equal(usage.plan, 'Max');
+    assert.equal(usage.email, 'max.user@example.com');
+    assert.deepEqual(usage.bars?.map(bar => [bar.label, bar.percentage, bar.resetsAt]), [
+      ['Current session', 23, '2025-10-29T05:18:00.000Z'],
+      ['All models', 41, '2025-11-01T07:00:00.000Z'],
+      ['Sonnet only', 12, '2025-11-01T07:00:00.000Z'],
+    ]);
+    assert.equal(usage.standard.percentage, 23);
+    assert.equal(usage.advanced.percentage, 41);
+    assert.equal(usage.resetDate, '2025-10-29T05:18:00.000Z');
+  });
+
+  it('uses the first organization when the last used one is gone', async () => {
+    const usage = await fetchUsageFromApi(options('org-deleted'));
+    assert.ok(server.requests.some(request => request.url.pathname === '/api/organizations/org-personal/usage'));
+    assert.equal(usage.plan, 'Pro');
+  });
+
+  it('reports a logged-out session instead of throwing', async () => {
+    statuses = { '/api/organizations': 401 };
+    const usage = await fetchUsageFromApi(options());
+    assert.equal(usage.isAuthenticated, false);
+    assert.equal(server.requests.length, 1);
+  });
+
+  it('still returns usage when the account lookup fails', async () => {
+    statuses = { '/api/account': 500 };
+    const usage = await fetchUsageFromApi(options('org-max'));
+    assert.equal(usage.isAuthenticated, true);
+    assert.equal(usage.email, undefined);
+    assert.equal(usage.bars?.length, 3);
+  });
+
+  it('throws on other failures so the caller can fall back to the page scraper', async () => {
+    statuses = { '/api/organizations/org-max/usage': 500 };
+    await assert.rejects(fetchUsageFromApi(options('org-max')), {
+      message: `Usage API Error: 500 - ${server.baseUrl}/api/organizations/org-max/usage`,
+    });
+
+    orgs = [];
+    await assert.rejects(fetchUsageFromApi(options()), { message: 'Usage API Error: no organizations found' });
+  });
+
+  it('throws when the organization has no usage windows so the page scraper is tried', async () => {
+    usageBody = { five_hour: null, seven_day: { utilization: null, resets_at: null }, some_new_window: { utilization: 5 } };
+    await assert.rejects(fetchUsageFromApi(options('org-max')), { message: 'Usage API Error: no usage windows found' });
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { parseUsageText, parseBillingText, assessConfidence } from '../electron/usageParser';
+
+// Absolute reset times are resolved in local time, so pin the zone the fixtures were written for
+process.env.TZ = 'Asia/Seoul';
+
+// Wednesday morning in Seoul
+const SCRAPED_AT = new Date('2025-10-29T10:00:00+09:00');
+
+// Compiled tests run from dist-test/test, the fixtures stay in the source tree
+function fixture(name: string): string {
+  return readFileSync(path.join(__dirname, '..', '..', 'test', 'fixtures', name), 'utf8');
+}
+
+function parseFixture(name: string) {
+  return parseUsageText(fixture(`usage/${name}`), 'https://claude.ai/settings/usage', SCRAPED_AT);
+}
+
+function summary(page: ReturnType<typeof parseUsageText>) {
+  return page.bars.map(bar => ({
+    label: bar.label,
+    percentage: bar.percentage,
+    resetsAt: bar.resetsAt && new Date(bar.resetsAt).getTime(),
+  }));
+}
+
+const at = (iso: string) => new Date(iso).getTime();
+
+describe('parseUsageText', () => {
+  it('reads every section of an English Max page', () => {
+    const page = parseFixture('max.txt');
+    assert.equal(page.isAuthenticated, true);
+    assert.equal(page.strategy, 'labelled');
+    assert.deepEqual(summary(page), [
+      { label: 'Current session', percentage: 23, resetsAt: at('2025-10-29T14:18:00+09:00') },
+      { label: 'All models', percentage: 41, resetsAt: at('2025-11-01T16:00:00+09:00') },
+      { label: 'Sonnet only', percentage: 12, resetsAt: at('2025-11-01T16:00:00+09:00') },
+      { label: 'Extra usage', percentage: 0, resetsAt: at('2025-11-01T00:00:00+09:00') },
+    ]);
+    assert.equal(page.plan, 'Max');
+    assert.equal(page.email, 'max.user@example.com');
+    assert.equal(page.resetDate, 'Resets in 4 hr 18 min');
+    assert.deepEqual(page.parseWarnings, []);
+    assert.equal(assessConfidence(page), 'high');
+  });
+
+  it('reads a Pro page without the Max-only sections', () => {
+    const page = parseFixture('pro.txt');
+    assert.equal(page.strategy, 'labelled');
+    assert.deepEqual(summary(page), [
+      { label: 'Current session', percentage: 67, resetsAt: at('2025-10-29T12:05:00+09:00') },
+      { label: 'All models', percentage: 38, resetsAt: at('2025-11-03T09:00:00+09:00') },
+    ]);
+    assert.equal(page.plan, 'Pro');
+    assert.equal(page.email, 'pro.user@example.com');
+    assert.equal(assessConfidence(page), 'high');
+  });
+
+  it('reads a Team page', () => {
+    const page = parseFixture('team.txt');
+    assert.equal(page.strategy, 'labelled');
+    assert.deepEqual(summary(page), [
+      { label: 'Current session', percentage: 8, resetsAt: at('2025-10-29T10:45:00+09:00') },
+      { label: 'All models', percentage: 54, resetsAt: at('2025-10-30T23:30:00+09:00') },
+      { label: 'Sonnet only', percentage: 31, resetsAt: at('2025-10-30T23:30:00+09:00') },
+    ]);
+    assert.equal(page.plan, 'Team');
+    assert.equal(page.email, 'team.member@acme.example');
+    assert.equal(assessConfidence(page), 'high');
+  });
+
+  it('reads every section of a Korean page', () => {
+    const page = parseFixture('korean.txt');
+    assert.equal(page.isAuthenticated, true);
+    assert.equal(page.strategy, 'labelled');
+    assert.deepEqual(summary(page), [
+      { label: 'Current session', percentage: 23, resetsAt: at('2025-10-29T14:18:00+09:00') },
+      { label: 'All models', percentage: 41, resetsAt: at('2025-11-01T16:00:00+09:00') },
+      { label: 'Sonnet only', percentage: 12, resetsAt: at('2025-11-01T16:00:00+09:00') },
+      { label: 'Extra usage', percentage: 0, resetsAt: at('2025-11-01T00:00:00+09:00') },
+    ]);
+    assert.equal(page.email, 'ko.user@example.com');
+    assert.deepEqual(page.parseWarnings, []);
+    assert.equal(assessConfidence(page), 'high');
+  });
+
+  it('recognises the login page', () => {
+    const page = parseFixture('logged-out.txt');
+    assert.equal(page.isAuthenticated, false);
+    assert.deepEqual(page.bars, []);
+    assert.equal(page.email, null);
+    assert.equal(assessConfidence(page), 'high');
+  });
+
+  it('treats a redirect to /login as logged out whatever the text', () => {
+    const page = parseUsageText(fixture('usage/max.txt'), 'https://claude.ai/login?returnTo=%2Fsettings%2Fusage', SCRAPED_AT);
+    assert.equal(page.isAuthenticated, false);
+  });
+
+  it('warns about a bar without a reset line', () => {
+    const page = parseUsageText('Current session\n23% used\nAll models\nResets Sat 4:00 PM\n41% used', '', SCRAPED_AT);
+    assert.deepEqual(summary(page).map(bar => bar.resetsAt), [undefined, at('2025-11-01T16:00:00+09:00')]);
+    assert.deepEqual(page.parseWarnings, ['Current session: no reset time found']);
+    assert.equal(assessConfidence(page), 'medium');
+  });
+
+  it('warns when a page has no usage data', () => {
+    const page = parseUsageText('Settings\nUsage\nSomething went wrong', '', SCRAPED_AT);
+    assert.equal(page.strategy, 'fallback');
+    assert.deepEqual(page.bars, []);
+    assert.deepEqual(page.parseWarnings, ['No usage data found on page']);
+    assert.equal(assessConfidence(page), 'low');
+  });
+});
+
+describe('parseBillingText', () => {
+  it('reads the credit balance', () => {
+    assert.deepEqual(parseBillingText(fixture('billing/balance.txt')), {
+      creditBalance: 1234.56,
+      currency: 'USD',
+      needsLogin: false,
+    });
+  });
+
+  it('recognises the console login page', () => {
+    const billing = parseBillingText(fixture('billing/logged-out.txt'));
+    assert.equal(billing.needsLogin, true);
+    assert.equal(billing.creditBalance, null);
+  });
+});
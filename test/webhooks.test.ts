@@ -0,0 +1,110 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ServerResponse } from 'http';
+import { startStubServer, sendJson, StubServer, RecordedRequest } from './helpers/stubServer';
+import { sendWebhook, renderTemplate, WebhookConfig, AlertEvent, WebhookSendOptions } from '../electron/webhooks';
+
+const EVENT: AlertEvent = {
+  kind: 'level',
+  title: 'Claude Usage Alert',
+  message: 'Current session is at 80%',
+  account: 'Work',
+  label: 'Current session',
+  percentage: 80,
+  level: 80,
+  timestamp: '2025-10-29T01:00:00.000Z',
+};
+
+describe('renderTemplate', () => {
+  it('fills known placeholders and leaves unknown ones', () => {
+    assert.equal(
+      renderTemplate('[{{ account }}] {{label}} {{percentage}}% (was {{previous}}) {{unknown}}', EVENT),
+      '[Work] Current session 80% (was ) {{unknown}}'
+    );
+    assert.equal(renderTemplate('', EVENT), 'Claude Usage Alert: Current session is at 80%');
+  });
+});
+
+describe('sendWebhook', () => {
+  let server: StubServer;
+  let responses: Array<(request: RecordedRequest, response: ServerResponse) => void> = [];
+
+  const ok = (_request: RecordedRequest, response: ServerResponse) => sendJson(response, 200, { ok: true });
+  const status = (code: number) => (_request: RecordedRequest, response: ServerResponse) => sendJson(response, code, {});
+
+  const config = (format: WebhookConfig['format']): WebhookConfig => ({
+    id: 'hook-1',
+    name: 'Team channel',
+    url: `${server.baseUrl}/hooks/secret-token`,
+    format,
+    template: '{{title}}: {{message}}',
+    enabled: true,
+  });
+  const options: WebhookSendOptions = { baseDelayMs: 1 };
+
+  before(async () => {
+    server = await startStubServer((request, response) => {
+      const next = responses.shift();
+      (next || ok)(request, response);
+    });
+  });
+
+  after(() => server.close());
+
+  beforeEach(() => {
+    server.requests.length = 0;
+    responses = [];
+  });
+
+  it('posts the Slack, Discord and JSON payloads', async () => {
+    for (const format of ['slack', 'discord', 'json'] as const) {
+      assert.deepEqual(await sendWebhook(config(format), EVENT, options), { success: true, attempts: 1, status: 200 });
+    }
+
+    for (const request of server.requests) {
+      assert.equal(request.method, 'POST');
+      assert.equal(request.url.pathname, '/hooks/secret-token');
+      assert.equal(request.headers['content-type'], 'application/json');
+    }
+    const text = 'Claude Usage Alert: Current session is at 80%';
+    assert.deepEqual(server.requests.map(request => JSON.parse(request.body)), [
+      { text },
+      { content: text },
+      { text, event: EVENT },
+    ]);
+  });
+
+  it('retries server errors and rate limits with backoff', async () => {
+    responses = [status(503), status(429), ok];
+    assert.deepEqual(await sendWebhook(config('slack'), EVENT, options), { success: true, attempts: 3, status: 200 });
+  });
+
+  it('gives up after the last retry', async () => {
+    responses = [status(500), status(500), status(500)];
+    assert.deepEqual(await sendWebhook(config('slack'), EVENT, { ...options, retries: 2 }), {
+      success: false,
+      attempts: 3,
+      status: 500,
+      error: 'HTTP 500',
+    });
+  });
+
+  it('does not retry other client errors', async () => {
+    responses = [status(404)];
+    assert.deepEqual(await sendWebhook(config('slack'), EVENT, options), {
+      success: false,
+      attempts: 1,
+      status: 404,
+      error: 'HTTP 404',
+    });
+    assert.equal(server.requests.length, 1);
+  });
+
+  it('times out a receiver that never answers', async () => {
+    responses = [() => undefined];
+    const result = await sendWebhook(config('slack'), EVENT, { ...options, retries: 0, timeoutMs: 50 });
+    assert.equal(result.success, false);
+    assert.equal(result.attempts, 1);
+    assert.equal(result.status, undefined);
+  });
+});